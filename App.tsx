@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { VideoSettings } from './types';
+import { SourceClip, VideoSettings } from './types';
 import {
   DEFAULT_VIDEO_SETTINGS,
   APP_TITLE,
@@ -10,11 +10,22 @@ import {
   OUTPUT_FORMAT_EXTENSIONS,
 } from './constants';
 import VideoUploader from './components/VideoUploader';
+import ClipList from './components/ClipList';
 import VideoPlayer from './components/VideoPlayer';
 import ModificationControls from './components/ModificationControls';
 import VideoInfo from './components/VideoInfo';
 import WatermarkRemover from './components/WatermarkRemover';
+import BatchQueue from './components/BatchQueue';
 import { useVideoProcessor } from './hooks/useVideoProcessor';
+import { sanitizeLut, storableSettings } from './services/colorLut';
+import { migratePixelNoise } from './services/filmGrain';
+import { sanitizeKeyframes } from './services/keyframes';
+import { LoudnessMeasurement, measureFileLoudness } from './services/loudness';
+import { normalizeRotation } from './services/outputGeometry';
+import { sanitizeSpeedRanges } from './services/speedRamp';
+import { sanitizeKeepRanges } from './services/timeline';
+import { sanitizeToneCurves } from './services/toneCurves';
+import { neutralWhiteBalance } from './services/whiteBalance';
 import DownloadIcon from './components/icons/DownloadIcon';
 import ProcessingSpinnerIcon from './components/icons/ProcessingSpinnerIcon';
 
@@ -32,11 +43,13 @@ try {
 }
 
 
-type FeatureMode = 'modify' | 'watermark';
+type FeatureMode = 'modify' | 'batch' | 'watermark';
 
 const App: React.FC = () => {
   const [featureMode, setFeatureMode] = useState<FeatureMode>('modify');
-  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videoFile, setVideoFile] = useState<File | null>(null); // Clip shown in the preview
+  const [clips, setClips] = useState<SourceClip[]>([]);
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   
   const [currentSettings, setCurrentSettings] = useState<VideoSettings>(() => {
@@ -44,7 +57,16 @@ const App: React.FC = () => {
       const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
       if (savedSettings) {
         const parsed = JSON.parse(savedSettings);
-        return { ...DEFAULT_VIDEO_SETTINGS, ...parsed };
+        return {
+          ...DEFAULT_VIDEO_SETTINGS,
+          ...migratePixelNoise(parsed),
+          keyframes: sanitizeKeyframes(parsed.keyframes),
+          keepRanges: sanitizeKeepRanges(parsed.keepRanges),
+          speedRanges: sanitizeSpeedRanges(parsed.speedRanges),
+          lut: sanitizeLut(parsed.lut),
+          toneCurves: sanitizeToneCurves(parsed.toneCurves),
+          rotation: normalizeRotation(Number(parsed.rotation)),
+        };
       }
       return DEFAULT_VIDEO_SETTINGS;
     } catch (error) {
@@ -73,17 +95,25 @@ const App: React.FC = () => {
   const [fileError, setFileError] = useState<string | null>(null);
   const [browserCompatibilityError, setBrowserCompatibilityError] = useState<string | null>(null);
   const [videoDuration, setVideoDuration] = useState<number | undefined>(undefined);
+  const [previewTime, setPreviewTime] = useState<number>(0); // Modified preview playhead, in source seconds
+  const [sourceLoudness, setSourceLoudness] = useState<{ file: File; measurement: LoudnessMeasurement | null } | null>(null);
+  const [isMeasuringLoudness, setIsMeasuringLoudness] = useState<boolean>(false);
+  const [gainReductionDb, setGainReductionDb] = useState<number>(0); // Preview compressor, for the meter
+  const [musicFile, setMusicFile] = useState<File | null>(null); // Background music, kept across videos
+  const [musicDuration, setMusicDuration] = useState<number | undefined>(undefined);
+  const [isPickingWhiteBalance, setIsPickingWhiteBalance] = useState<boolean>(false); // Eyedropper armed on the modified preview
+  const [whiteBalancePickError, setWhiteBalancePickError] = useState<string | null>(null);
 
   const handleProcessVideo = useCallback(async () => {
-    if (videoFile) {
+    if (clips.length > 0) {
       try {
-        await processVideo(videoFile, currentSettings);
+        await processVideo(clips, currentSettings, musicFile);
       } catch (error) {
         console.error("Processing failed in App:", error);
         // Error is handled by useVideoProcessor's processingError state
       }
     }
-  }, [videoFile, currentSettings, processVideo]);
+  }, [clips, currentSettings, musicFile, processVideo]);
 
   // Effect to add keyboard shortcuts
   useEffect(() => {
@@ -170,7 +200,7 @@ const App: React.FC = () => {
   // Effect to save settings to localStorage
   useEffect(() => {
     try {
-      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings));
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(storableSettings(currentSettings)));
     } catch (error) {
       console.error("Failed to save settings to localStorage:", error);
     }
@@ -208,13 +238,41 @@ const App: React.FC = () => {
     }
   }, [videoFile]);
 
-  const handleFileSelect = (file: File) => {
-    setVideoFile(file);
-    setProcessedVideoUrl(null); 
-    setGeminiError(null); // Clear AI error on new file
-    setFileError(null); // Clear file error on successful selection
+  // Effect to measure the loudness of the previewed clip for VideoInfo. It decodes the
+  // whole audio track, so it waits until loudness normalization is turned on.
+  const normalizeLoudness = currentSettings.normalizeLoudness;
+  useEffect(() => {
+    if (!videoFile || !normalizeLoudness || sourceLoudness?.file === videoFile) return;
+    let cancelled = false;
+    setIsMeasuringLoudness(true);
+    measureFileLoudness(videoFile)
+      .then((measurement) => {
+        if (!cancelled) setSourceLoudness({ file: videoFile, measurement });
+      })
+      .catch((error) => console.warn('Could not measure loudness:', error))
+      .finally(() => {
+        if (!cancelled) setIsMeasuringLoudness(false);
+      });
+    return () => {
+      cancelled = true;
+      setIsMeasuringLoudness(false);
+    };
+  }, [videoFile, normalizeLoudness, sourceLoudness]);
+
+  const createClip = (file: File): SourceClip => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    file,
+    trimStartSeconds: null,
+    trimEndSeconds: null,
+  });
+
+  const handleSelectClip = (clip: SourceClip) => {
+    setSelectedClipId(clip.id);
+    if (clip.file === videoFile) return;
+    setVideoFile(clip.file);
     setVideoDuration(undefined); // Reset duration
-    
+    setPreviewTime(0);
+
     // Get video duration
     const video = document.createElement('video');
     video.preload = 'metadata';
@@ -224,24 +282,75 @@ const App: React.FC = () => {
       }
       URL.revokeObjectURL(video.src);
     };
-    video.src = URL.createObjectURL(file);
+    video.src = URL.createObjectURL(clip.file);
   };
-  
+
+  const handleFileSelect = (file: File) => {
+    const clip = createClip(file);
+    setClips([clip]);
+    handleSelectClip(clip);
+    setProcessedVideoUrl(null); 
+    setGeminiError(null); // Clear AI error on new file
+    setFileError(null); // Clear file error on successful selection
+  };
+
+  const handleAddClip = (file: File) => {
+    setClips((prev) => [...prev, createClip(file)]);
+    setProcessedVideoUrl(null);
+    setFileError(null);
+  };
+
   const handleFileError = (error: string) => {
     setFileError(error);
-    setVideoFile(null);
+    if (clips.length === 0) setVideoFile(null);
+  };
+
+  const handleMusicFileChange = (file: File | null) => {
+    setMusicFile(file);
+    setMusicDuration(undefined);
+    if (!file) return;
+
+    // Get the music duration for the trim controls
+    const audio = document.createElement('audio');
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      if (isFinite(audio.duration)) {
+        setMusicDuration(audio.duration);
+      }
+      URL.revokeObjectURL(audio.src);
+    };
+    audio.onerror = () => URL.revokeObjectURL(audio.src);
+    audio.src = URL.createObjectURL(file);
   };
 
   const handleSettingsChange = (newSettings: VideoSettings) => {
     setCurrentSettings(newSettings); 
   };
 
+  const handlePickingWhiteBalanceChange = (picking: boolean) => {
+    setIsPickingWhiteBalance(picking);
+    setWhiteBalancePickError(null);
+  };
+
+  const handlePickNeutralColor = ([r, g, b]: [number, number, number]) => {
+    const balance = neutralWhiteBalance(currentSettings, r, g, b);
+    if (!balance) {
+      setWhiteBalancePickError('That spot is too dark to balance on. Pick a brighter white or grey area.');
+      return;
+    }
+    setCurrentSettings({ ...currentSettings, ...balance });
+    handlePickingWhiteBalanceChange(false);
+  };
+
   const handleUploadDifferent = () => {
     setVideoFile(null); 
+    setClips([]);
+    setSelectedClipId(null);
     setProcessedVideoUrl(null);
     setGeminiPrompt("");
     setGeminiError(null);
     setFileError(null);
+    handlePickingWhiteBalanceChange(false);
   };
 
   const handleSuggestSettings = async () => {
@@ -265,6 +374,8 @@ The JSON object must strictly adhere to the following structure and data types.
   "contrast": number,              /* Range: 0-200, 100 = unchanged. */
   "saturation": number,            /* Range: 0-200, 100 = unchanged. */
   "hueRotate": number,             /* Range: -180 to 180 degrees. 0 = unchanged. */
+  "temperature": number,           /* Range: -100 to 100. White balance; negative = cooler/bluer, positive = warmer. 0 = unchanged. */
+  "tint": number,                  /* Range: -100 to 100. White balance; negative = greener, positive = more magenta. 0 = unchanged. */
   "blur": number,                  /* Range: 0-10 pixels. 0 = none. */
   "sepia": number,                 /* Range: 0-100. 0 = none. */
   "grayscale": number,             /* Range: 0-100. 0 = none. */
@@ -274,8 +385,11 @@ The JSON object must strictly adhere to the following structure and data types.
   "audioFadeInSeconds": number,    /* Range: 0-10 seconds. */
   "audioFadeOutSeconds": number,   /* Range: 0-10 seconds. */
   "flipHorizontal": boolean,
+  "flipVertical": boolean,
+  "rotation": number,              /* One of 0, 90, 180, 270 (degrees clockwise). 0 = unchanged. */
   "enableRotatingLines": boolean,
-  "enablePixelNoise": boolean,
+  "grainAmount": number,           /* Range: 0-100. Film grain strength. 0 = none. */
+  "grainSize": number,             /* Range: 1-5 pixels. Size of the grain. */
   "audioPreservesPitch": boolean
 }
 Focus on subtle changes suitable for making a video distinct without being overly dramatic. Avoid combining many heavy effects at once.`;
@@ -307,11 +421,12 @@ Based on the user's request, provide the JSON settings object as instructed.`;
       // (e.g. trim window, output format) and only override the fields it returns.
       const newSettings: VideoSettings = { ...currentSettings };
       const aiAddressableKeys: Array<keyof VideoSettings> = [
-        'brightness', 'contrast', 'saturation', 'hueRotate',
+        'brightness', 'contrast', 'saturation', 'hueRotate', 'temperature', 'tint',
         'blur', 'sepia', 'grayscale', 'vignette',
         'playbackSpeed', 'volume',
         'audioFadeInSeconds', 'audioFadeOutSeconds',
-        'flipHorizontal', 'enableRotatingLines', 'enablePixelNoise', 'audioPreservesPitch',
+        'flipHorizontal', 'flipVertical', 'rotation',
+        'enableRotatingLines', 'grainAmount', 'grainSize', 'audioPreservesPitch',
       ];
       let invalidFieldCount = 0;
 
@@ -331,7 +446,7 @@ Based on the user's request, provide the JSON settings object as instructed.`;
           const clamped = range
             ? Math.max(range.min, Math.min(range.max, suggestedValue))
             : suggestedValue;
-          (newSettings[key] as number) = clamped;
+          (newSettings[key] as number) = key === 'rotation' ? normalizeRotation(clamped) : clamped;
         } else {
           (newSettings[key] as any) = suggestedValue;
         }
@@ -366,6 +481,7 @@ Based on the user's request, provide the JSON settings object as instructed.`;
             onClick={() => {
               setFeatureMode('modify');
               setVideoFile(null);
+              setClips([]);
             }}
             className={`px-6 py-2 rounded-lg font-semibold transition-colors duration-200 ${
               featureMode === 'modify'
@@ -375,10 +491,25 @@ Based on the user's request, provide the JSON settings object as instructed.`;
           >
             Video Modification
           </button>
+          <button
+            onClick={() => {
+              setFeatureMode('batch');
+              setVideoFile(null);
+              setClips([]);
+            }}
+            className={`px-6 py-2 rounded-lg font-semibold transition-colors duration-200 ${
+              featureMode === 'batch'
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            Batch Queue
+          </button>
           <button
             onClick={() => {
               setFeatureMode('watermark');
               setVideoFile(null);
+              setClips([]);
             }}
             className={`px-6 py-2 rounded-lg font-semibold transition-colors duration-200 ${
               featureMode === 'watermark'
@@ -411,9 +542,13 @@ Based on the user's request, provide the JSON settings object as instructed.`;
       )}
 
       <main className="w-full max-w-5xl">
+        {/* Kept mounted so the queue keeps running while settings are edited. */}
+        <div className={featureMode === 'batch' ? '' : 'hidden'}>
+          <BatchQueue currentSettings={currentSettings} />
+        </div>
         {featureMode === 'watermark' ? (
           <WatermarkRemover />
-        ) : (
+        ) : featureMode === 'batch' ? null : (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2 space-y-6">
               {!videoFile ? (
@@ -445,7 +580,13 @@ Based on the user's request, provide the JSON settings object as instructed.`;
                         </div>
                         <div>
                           <h4 className="text-lg font-semibold mb-2 text-center text-gray-300">Modified Preview</h4>
-                          <VideoPlayer src={previewUrl} settings={debouncedSettingsForPreview} />
+                          <VideoPlayer
+                            src={previewUrl}
+                            settings={debouncedSettingsForPreview}
+                            onTimeUpdate={setPreviewTime}
+                            onGainReduction={setGainReductionDb}
+                            onPickColor={isPickingWhiteBalance ? handlePickNeutralColor : undefined}
+                          />
                         </div>
                       </div>
                       <VideoInfo 
@@ -453,9 +594,27 @@ Based on the user's request, provide the JSON settings object as instructed.`;
                         fileSize={videoFile.size}
                         fileType={videoFile.type}
                         duration={videoDuration}
+                        loudness={sourceLoudness?.file === videoFile ? sourceLoudness.measurement : null}
+                        isMeasuringLoudness={isMeasuringLoudness}
+                        targetLufs={currentSettings.normalizeLoudness ? currentSettings.targetLufs : undefined}
                       />
                     </>
                   )}
+                  <ClipList
+                    clips={clips}
+                    selectedClipId={selectedClipId}
+                    onClipsChange={setClips}
+                    onSelectClip={handleSelectClip}
+                    onAddClip={handleAddClip}
+                    onFileError={handleFileError}
+                    disabled={isProcessing || isSuggestingSettings}
+                  />
+                  {fileError && (
+                    <div className="bg-red-700 p-4 rounded-lg text-red-100">
+                      <p className="font-semibold">File Upload Error:</p>
+                      <p className="text-sm">{fileError}</p>
+                    </div>
+                  )}
                  <button
                     onClick={handleUploadDifferent}
                     className="w-full mt-4 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-200 disabled:opacity-50"
@@ -479,6 +638,14 @@ Based on the user's request, provide the JSON settings object as instructed.`;
                 geminiError={geminiError}
                 aiAvailable={!!ai}
                 videoDuration={videoDuration}
+                playheadSeconds={previewTime}
+                gainReductionDb={gainReductionDb}
+                musicFile={musicFile}
+                musicDuration={musicDuration}
+                onMusicFileChange={handleMusicFileChange}
+                isPickingWhiteBalance={isPickingWhiteBalance}
+                onPickingWhiteBalanceChange={handlePickingWhiteBalanceChange}
+                whiteBalancePickError={whiteBalancePickError}
               />
               
               {videoFile && (
@@ -526,7 +693,7 @@ Based on the user's request, provide the JSON settings object as instructed.`;
                 const ext = (processedMimeType && processedMimeType.includes('mp4'))
                   ? 'mp4'
                   : OUTPUT_FORMAT_EXTENSIONS[currentSettings.outputFormat] || 'webm';
-                const baseName = videoFile?.name.replace(/\.[^.]+$/, '') || 'video';
+                const baseName = clips[0]?.file.name.replace(/\.[^.]+$/, '') || 'video';
                 return (
                   <div className="bg-green-700 p-6 rounded-lg shadow-lg">
                     <h3 className="text-xl font-semibold text-green-100 mb-3">Download Ready!</h3>
@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { BatchJob, BatchJobStatus, VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS, PRESET_DESCRIPTIONS, SETTINGS_PRESETS } from '../constants';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import { loadCustomPresets } from './ModificationControls';
+import { validateVideoFile } from './VideoUploader';
+import DownloadIcon from './icons/DownloadIcon';
+import ProcessingSpinnerIcon from './icons/ProcessingSpinnerIcon';
+
+interface BatchQueueProps {
+  /** Settings from the Video Modification tab, offered as the "Current settings" profile. */
+  currentSettings: VideoSettings;
+}
+
+const CURRENT_PROFILE = 'current';
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  processing: 'bg-indigo-700 text-indigo-100',
+  done: 'bg-green-700 text-green-100',
+  failed: 'bg-red-700 text-red-100',
+};
+
+function formatFileSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ currentSettings }) => {
+  const {
+    jobs,
+    isRunning,
+    activeJobId,
+    activeProgress,
+    isCancelling,
+    isZipping,
+    zipError,
+    addFiles,
+    removeJob,
+    clearFinished,
+    startQueue,
+    retryFailed,
+    stopQueue,
+    downloadAll,
+  } = useBatchQueue();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [profile, setProfile] = useState<string>(CURRENT_PROFILE);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [isDragOver, setIsDragOver] = useState(false);
+  // Re-read on every render so presets saved in the other tab show up.
+  const customPresets = loadCustomPresets();
+
+  const resolveProfile = (): VideoSettings => {
+    if (profile.startsWith('builtin:')) {
+      return { ...SETTINGS_PRESETS[profile.slice('builtin:'.length)] };
+    }
+    if (profile.startsWith('custom:')) {
+      const preset = customPresets.find((p) => p.name === profile.slice('custom:'.length));
+      if (preset) return { ...DEFAULT_VIDEO_SETTINGS, ...preset.settings };
+    }
+    return currentSettings;
+  };
+
+  const acceptFiles = (files: File[]) => {
+    const errors: string[] = [];
+    const valid = files.filter((file) => {
+      const error = validateVideoFile(file);
+      if (error) errors.push(`${file.name}: ${error}`);
+      return !error;
+    });
+    setFileErrors(errors);
+    if (valid.length > 0) addFiles(valid);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    acceptFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    acceptFiles(Array.from(e.dataTransfer?.files ?? []));
+  };
+
+  const handleDownloadZip = async () => {
+    const zip = await downloadAll();
+    if (!zip) return;
+    const url = URL.createObjectURL(zip);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'modified_videos.zip';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const queuedCount = jobs.filter((job) => job.status === 'queued').length;
+  const failedCount = jobs.filter((job) => job.status === 'failed').length;
+  const doneCount = jobs.filter((job) => job.status === 'done').length;
+
+  const jobProgress = (job: BatchJob) => (job.id === activeJobId ? activeProgress : job.progress);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-4">
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+          className={`p-6 border-2 border-dashed rounded-lg text-center transition-colors ${
+            isDragOver ? 'border-indigo-400 bg-gray-800' : 'border-gray-600 bg-gray-800/50'
+          }`}
+        >
+          <p className="text-gray-300 mb-3">Drop videos here to add them to the queue</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg transition-colors"
+          >
+            Add files
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <div className="bg-red-700 p-4 rounded-lg text-red-100">
+            <p className="font-semibold">Some files were not added:</p>
+            {fileErrors.map((error) => (
+              <p key={error} className="text-sm">{error}</p>
+            ))}
+          </div>
+        )}
+
+        {jobs.length === 0 ? (
+          <p className="text-gray-500 text-center">The queue is empty.</p>
+        ) : (
+          <ul className="space-y-2">
+            {jobs.map((job) => (
+              <li key={job.id} className="bg-gray-800 p-3 rounded-lg">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold capitalize ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                  <span className="flex-1 truncate text-gray-200" title={job.file.name}>{job.file.name}</span>
+                  <span className="text-xs text-gray-500">{formatFileSize(job.file.size)}</span>
+                  {job.status === 'done' && job.resultUrl && (
+                    <a
+                      href={job.resultUrl}
+                      download={job.outputName || undefined}
+                      className="px-2 py-1 text-xs bg-green-600 hover:bg-green-500 text-white rounded-md transition-colors"
+                    >
+                      Download
+                    </a>
+                  )}
+                  {job.status === 'failed' && (
+                    <button
+                      onClick={() => retryFailed(job.id)}
+                      className="px-2 py-1 text-xs bg-yellow-600 hover:bg-yellow-500 text-white rounded-md transition-colors"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeJob(job.id)}
+                    disabled={job.status === 'processing'}
+                    className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md transition-colors disabled:opacity-50"
+                    aria-label={`Remove ${job.file.name}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+                {job.status === 'processing' && (
+                  <div className="w-full bg-gray-700 rounded-full h-2 mt-2">
+                    <div className="bg-indigo-500 h-2 rounded-full transition-all duration-300" style={{ width: `${jobProgress(job)}%` }}></div>
+                  </div>
+                )}
+                {job.error && <p className="text-xs text-red-300 mt-1">{job.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <aside className="lg:col-span-1 space-y-6">
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-100 mb-4">Batch Settings</h3>
+          <label htmlFor="batchProfile" className="block text-sm font-medium text-gray-300 mb-1">Apply to every file</label>
+          <select
+            id="batchProfile"
+            value={profile}
+            onChange={(e) => setProfile(e.target.value)}
+            disabled={isRunning}
+            className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+          >
+            <option value={CURRENT_PROFILE}>Current settings</option>
+            <optgroup label="Built-in presets">
+              {Object.keys(SETTINGS_PRESETS).map((name) => (
+                <option key={name} value={`builtin:${name}`} title={PRESET_DESCRIPTIONS[name]}>{name}</option>
+              ))}
+            </optgroup>
+            {customPresets.length > 0 && (
+              <optgroup label="My presets">
+                {customPresets.map((preset) => (
+                  <option key={preset.name} value={`custom:${preset.name}`}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <p className="text-xs text-gray-400 mb-4">
+            Files are rendered one after another. The profile is fixed when a file starts; retries reuse it.
+          </p>
+
+          {isRunning ? (
+            <button
+              onClick={stopQueue}
+              disabled={isCancelling}
+              className="w-full px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md flex items-center justify-center transition-colors duration-200 disabled:opacity-50"
+            >
+              <ProcessingSpinnerIcon className="w-5 h-5 mr-2" />
+              {isCancelling ? 'Stopping...' : 'Stop Queue'}
+            </button>
+          ) : (
+            <button
+              onClick={() => startQueue(resolveProfile())}
+              disabled={queuedCount === 0}
+              className="w-full px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Process {queuedCount} queued file{queuedCount === 1 ? '' : 's'}
+            </button>
+          )}
+
+          {failedCount > 0 && (
+            <button
+              onClick={() => retryFailed()}
+              disabled={isRunning}
+              className="w-full mt-3 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50"
+            >
+              Retry {failedCount} failed
+            </button>
+          )}
+        </div>
+
+        {doneCount > 0 && (
+          <div className="bg-green-700 p-6 rounded-lg shadow-lg">
+            <h3 className="text-xl font-semibold text-green-100 mb-3">{doneCount} file{doneCount === 1 ? '' : 's'} ready</h3>
+            <button
+              onClick={handleDownloadZip}
+              disabled={isZipping}
+              className="w-full px-6 py-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-lg shadow-md flex items-center justify-center transition-colors duration-200 disabled:opacity-50"
+            >
+              <DownloadIcon className="w-5 h-5 mr-2" />
+              {isZipping ? 'Creating ZIP...' : 'Download All (ZIP)'}
+            </button>
+            <button
+              onClick={clearFinished}
+              disabled={isZipping}
+              className="w-full mt-3 px-4 py-2 bg-green-800 hover:bg-green-900 text-green-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Clear finished
+            </button>
+            {zipError && <p className="text-sm text-red-200 mt-3">{zipError}</p>}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default BatchQueue;
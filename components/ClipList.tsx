@@ -0,0 +1,171 @@
+import React, { useRef } from 'react';
+import { SourceClip } from '../types';
+import { validateVideoFile } from './VideoUploader';
+
+interface ClipListProps {
+  clips: SourceClip[];
+  selectedClipId: string | null;
+  onClipsChange: (clips: SourceClip[]) => void;
+  /** Shows `clip` in the original/modified preview. */
+  onSelectClip: (clip: SourceClip) => void;
+  onAddClip: (file: File) => void;
+  onFileError: (error: string) => void;
+  disabled?: boolean;
+}
+
+function formatFileSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Source clips of a multi-clip export, joined in list order. Each clip has
+ * its own trim window; with a single clip the regular Trim / Cut list applies.
+ */
+const ClipList: React.FC<ClipListProps> = ({
+  clips,
+  selectedClipId,
+  onClipsChange,
+  onSelectClip,
+  onAddClip,
+  onFileError,
+  disabled,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    for (const file of Array.from(event.target.files ?? [])) {
+      const error = validateVideoFile(file);
+      if (error) {
+        onFileError(error);
+      } else {
+        onAddClip(file);
+      }
+    }
+    event.target.value = '';
+  };
+
+  const updateClip = (index: number, patch: Partial<SourceClip>) => {
+    onClipsChange(clips.map((clip, i) => (i === index ? { ...clip, ...patch } : clip)));
+  };
+
+  const handleTrimChange = (index: number, field: 'trimStartSeconds' | 'trimEndSeconds', raw: string) => {
+    const value = parseFloat(raw);
+    updateClip(index, { [field]: raw === '' || !isFinite(value) ? null : Math.max(0, value) });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= clips.length) return;
+    const next = [...clips];
+    [next[index], next[target]] = [next[target], next[index]];
+    onClipsChange(next);
+  };
+
+  const handleRemove = (index: number) => {
+    const next = clips.filter((_, i) => i !== index);
+    onClipsChange(next);
+    if (clips[index].id === selectedClipId && next.length > 0) {
+      onSelectClip(next[Math.min(index, next.length - 1)]);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-100">Clips</h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          Add clip
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="video/*"
+          multiple
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+      {clips.length > 1 && (
+        <p className="text-xs text-yellow-400 mb-2">
+          Clips are joined in this order. Each clip's own trim replaces the Trim and Cut list settings.
+        </p>
+      )}
+      {clips.map((clip, index) => (
+        <div
+          key={clip.id}
+          className={`mb-2 p-2 rounded-md border ${clip.id === selectedClipId ? 'border-indigo-500' : 'border-gray-700'}`}
+        >
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <span className="w-5 text-gray-500">{index + 1}.</span>
+            <button
+              onClick={() => onSelectClip(clip)}
+              disabled={disabled}
+              className="flex-1 truncate text-left hover:text-indigo-300 disabled:opacity-50"
+              title={`Preview ${clip.file.name}`}
+            >
+              {clip.file.name}
+            </button>
+            <span className="text-xs text-gray-500">{formatFileSize(clip.file.size)}</span>
+          </div>
+          {clips.length > 1 && (
+            <div className="flex items-center gap-1 mt-2 text-sm text-gray-300">
+              <input
+                type="number"
+                value={clip.trimStartSeconds ?? ''}
+                placeholder="start"
+                min={0} step={0.05}
+                onChange={(e) => handleTrimChange(index, 'trimStartSeconds', e.target.value)}
+                disabled={disabled}
+                className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+                aria-label={`Clip ${index + 1} trim start (seconds)`}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                value={clip.trimEndSeconds ?? ''}
+                placeholder="end"
+                min={0} step={0.05}
+                onChange={(e) => handleTrimChange(index, 'trimEndSeconds', e.target.value)}
+                disabled={disabled}
+                className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+                aria-label={`Clip ${index + 1} trim end (seconds)`}
+              />
+              <span className="text-xs text-gray-500">s</span>
+              <span className="flex-1" />
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={disabled || index === 0}
+                className="px-1.5 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+                aria-label={`Move clip ${index + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={disabled || index === clips.length - 1}
+                className="px-1.5 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+                aria-label={`Move clip ${index + 1} down`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-red-700 hover:bg-red-600 text-white rounded-md transition-colors disabled:opacity-50"
+                aria-label={`Remove clip ${index + 1}`}
+              >
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ClipList;
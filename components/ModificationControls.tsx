@@ -1,14 +1,50 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { CustomPreset, VideoSettings } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  AnimatableSettingKey,
+  CustomPreset,
+  EqBandCount,
+  KeepRange,
+  KeyframeEasing,
+  LutInterpolation,
+  PlaybackDirection,
+  SpeedRange,
+  VideoSettings,
+} from '../types';
+import {
+  ANIMATABLE_SETTING_LABELS,
   CUSTOM_PRESETS_STORAGE_KEY,
+  DEFAULT_KEEP_RANGE_SECONDS,
+  MIN_KEEP_RANGE_SECONDS,
+  DEFAULT_SPEED_RANGE_SECONDS,
+  DEFAULT_SPEED_RANGE_SPEED,
   DEFAULT_VIDEO_SETTINGS,
+  EQ_BANDS,
+  GAIN_REDUCTION_METER_RANGE_DB,
+  KEYFRAME_EASING_LABELS,
+  LUT_INTERPOLATION_LABELS,
+  LUT_MAX_SIZE,
+  OUTPUT_FIT_MODE_LABELS,
   OUTPUT_FORMAT_LABELS,
   OUTPUT_FORMAT_MIME_TYPES,
+  OUTPUT_FRAME_RATE_LABELS,
+  OUTPUT_FRAME_RATE_OPTIONS,
+  OUTPUT_RESOLUTION_PRESETS,
+  PLAYBACK_DIRECTION_LABELS,
   PRESET_DESCRIPTIONS,
   SETTINGS_PRESETS,
+  SETTINGS_RANGES,
+  VIDEO_ROTATION_OPTIONS,
 } from '../constants';
+import { isAudioOutputFormat, isAudioOutputFormatSupported } from '../services/audioExporter';
+import { isLutStorable, parseCubeLut, sanitizeLut, storableSettings } from '../services/colorLut';
+import { migratePixelNoise } from '../services/filmGrain';
+import { ANIMATABLE_SETTING_KEYS, removeKeyframe, sanitizeKeyframes, setKeyframe } from '../services/keyframes';
+import { normalizeRotation } from '../services/outputGeometry';
+import { sanitizeSpeedRanges } from '../services/speedRamp';
+import { sanitizeKeepRanges } from '../services/timeline';
+import { sanitizeToneCurves } from '../services/toneCurves';
 import SliderControl from './SliderControl';
+import ToneCurveEditor from './ToneCurveEditor';
 import ResetIcon from './icons/ResetIcon';
 import ProcessingSpinnerIcon from './icons/ProcessingSpinnerIcon';
 
@@ -24,29 +60,59 @@ interface ModificationControlsProps {
   aiAvailable: boolean;
   /** Source video duration in seconds, used for trim controls. */
   videoDuration?: number;
+  /** Modified preview playhead in source seconds, where new keyframes are added. */
+  playheadSeconds?: number;
+  /** Current gain reduction of the preview's compressor, in dB (0 or negative). */
+  gainReductionDb?: number;
+  /** Background music mixed into the export, if attached. */
+  musicFile?: File | null;
+  /** Music file duration in seconds, used for its trim controls. */
+  musicDuration?: number;
+  onMusicFileChange?: (file: File | null) => void;
+  /** True while the next click on the modified preview sets the neutral white. */
+  isPickingWhiteBalance?: boolean;
+  onPickingWhiteBalanceChange?: (picking: boolean) => void;
+  whiteBalancePickError?: string | null;
 }
 
-function loadCustomPresets(): CustomPreset[] {
+export function loadCustomPresets(): CustomPreset[] {
   try {
     const raw = localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY);
     if (!raw) return [];
     const parsed = JSON.parse(raw);
     if (!Array.isArray(parsed)) return [];
-    return parsed.filter(
-      (p): p is CustomPreset =>
-        p && typeof p.name === 'string' && p.settings && typeof p.settings === 'object'
-    );
+    return parsed
+      .filter(
+        (p): p is CustomPreset =>
+          p && typeof p.name === 'string' && p.settings && typeof p.settings === 'object'
+      )
+      .map((p) => ({
+        ...p,
+        settings: {
+          ...migratePixelNoise(p.settings),
+          keyframes: sanitizeKeyframes(p.settings.keyframes),
+          keepRanges: sanitizeKeepRanges(p.settings.keepRanges),
+          speedRanges: sanitizeSpeedRanges(p.settings.speedRanges),
+          lut: sanitizeLut(p.settings.lut),
+          toneCurves: sanitizeToneCurves(p.settings.toneCurves),
+          rotation: normalizeRotation(Number(p.settings.rotation)),
+        },
+      }));
   } catch (err) {
     console.error('Failed to load custom presets:', err);
     return [];
   }
 }
 
-function saveCustomPresets(presets: CustomPreset[]): void {
+// Returns false when the presets couldn't be written, e.g. over the storage quota.
+function saveCustomPresets(presets: CustomPreset[]): boolean {
   try {
-    localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    const stored = presets.map((preset) => ({ ...preset, settings: storableSettings(preset.settings) }));
+    localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(stored));
+    return true;
   } catch (err) {
     console.error('Failed to save custom presets:', err);
+    return false;
   }
 }
 
@@ -57,6 +123,11 @@ function formatSeconds(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+// Keyframes sit between frames, so show tenths of a second too.
+function formatKeyframeTime(seconds: number): string {
+  return `${formatSeconds(seconds)}.${Math.floor((seconds % 1) * 10)}`;
+}
+
 interface SectionProps {
   title: string;
   initiallyOpen?: boolean;
@@ -129,22 +200,39 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
   geminiError,
   aiAvailable,
   videoDuration,
+  playheadSeconds = 0,
+  gainReductionDb = 0,
+  musicFile = null,
+  musicDuration,
+  onMusicFileChange,
+  isPickingWhiteBalance = false,
+  onPickingWhiteBalanceChange,
+  whiteBalancePickError = null,
 }) => {
   const [showPresets, setShowPresets] = useState(false);
+  const [keyframeKey, setKeyframeKey] = useState<AnimatableSettingKey>('brightness');
+  const [keyframeEasing, setKeyframeEasing] = useState<KeyframeEasing>('linear');
   const [customPresets, setCustomPresets] = useState<CustomPreset[]>(() => loadCustomPresets());
   const [newPresetName, setNewPresetName] = useState('');
   const [presetMessage, setPresetMessage] = useState<string | null>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const [lutError, setLutError] = useState<string | null>(null);
 
   useEffect(() => {
-    saveCustomPresets(customPresets);
+    if (!saveCustomPresets(customPresets)) {
+      setPresetMessage('Could not save presets: browser storage is full. Delete a preset to make room.');
+    }
   }, [customPresets]);
 
   const supportedFormats = useMemo(() => {
     const result: Array<{ value: VideoSettings['outputFormat']; label: string; supported: boolean }> = [];
     (Object.keys(OUTPUT_FORMAT_MIME_TYPES) as Array<VideoSettings['outputFormat']>).forEach((fmt) => {
-      const supported = OUTPUT_FORMAT_MIME_TYPES[fmt].some(
-        (m) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(m)
-      );
+      const supported = isAudioOutputFormat(fmt)
+        ? isAudioOutputFormatSupported(fmt)
+        : OUTPUT_FORMAT_MIME_TYPES[fmt].some(
+          (m) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(m)
+        );
       result.push({ value: fmt, label: OUTPUT_FORMAT_LABELS[fmt], supported });
     });
     return result;
@@ -183,14 +271,15 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
     }
     const existingIndex = customPresets.findIndex((p) => p.name.toLowerCase() === name.toLowerCase());
     const next: CustomPreset = { name, settings: { ...settings }, createdAt: Date.now() };
+    const lutNote = settings.lut && !isLutStorable(settings.lut) ? ' Its LUT is too large to keep after a reload.' : '';
     let updated: CustomPreset[];
     if (existingIndex >= 0) {
       updated = [...customPresets];
       updated[existingIndex] = next;
-      setPresetMessage(`Preset "${name}" updated.`);
+      setPresetMessage(`Preset "${name}" updated.${lutNote}`);
     } else {
       updated = [...customPresets, next];
-      setPresetMessage(`Preset "${name}" saved.`);
+      setPresetMessage(`Preset "${name}" saved.${lutNote}`);
     }
     setCustomPresets(updated);
     setNewPresetName('');
@@ -201,11 +290,107 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
     setPresetMessage(`Preset "${name}" deleted.`);
   };
 
+  const handleLutFile = async (file: File) => {
+    try {
+      const lut = parseCubeLut(await file.text(), file.name);
+      setLutError(null);
+      onSettingsChange({ ...settings, lut });
+    } catch (err: any) {
+      setLutError(`Could not load "${file.name}": ${err?.message || 'unreadable file'}`);
+    }
+  };
+
+  const handleAddKeyframe = () => {
+    onSettingsChange({
+      ...settings,
+      keyframes: setKeyframe(settings.keyframes, keyframeKey, {
+        time: playheadSeconds,
+        value: settings[keyframeKey],
+        easing: keyframeEasing,
+      }),
+    });
+  };
+
+  const updateKeepRanges = (keepRanges: KeepRange[]) => {
+    onSettingsChange({ ...settings, keepRanges });
+  };
+
+  const handleAddKeepRange = () => {
+    const duration = videoDuration ?? 0;
+    const start = Math.min(playheadSeconds, Math.max(0, duration - DEFAULT_KEEP_RANGE_SECONDS));
+    updateKeepRanges([...settings.keepRanges, { start, end: Math.min(duration, start + DEFAULT_KEEP_RANGE_SECONDS) }]);
+  };
+
+  // Start and end are held at least MIN_KEEP_RANGE_SECONDS apart, or the
+  // export would drop the range.
+  const handleKeepRangeChange = (index: number, field: keyof KeepRange, value: number) => {
+    if (!isFinite(value)) return;
+    const range = settings.keepRanges[index];
+    const clamped = field === 'start'
+      ? Math.max(0, Math.min(range.end - MIN_KEEP_RANGE_SECONDS, value))
+      : Math.max(range.start + MIN_KEEP_RANGE_SECONDS, Math.min(videoDuration ?? value, value));
+    updateKeepRanges(settings.keepRanges.map((r, i) => (i === index ? { ...r, [field]: clamped } : r)));
+  };
+
+  const handleMoveKeepRange = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= settings.keepRanges.length) return;
+    const next = [...settings.keepRanges];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateKeepRanges(next);
+  };
+
+  const updateSpeedRanges = (speedRanges: SpeedRange[]) => {
+    onSettingsChange({ ...settings, speedRanges });
+  };
+
+  const handleAddSpeedRange = () => {
+    const duration = videoDuration ?? 0;
+    const start = Math.min(playheadSeconds, Math.max(0, duration - DEFAULT_SPEED_RANGE_SECONDS));
+    const next = [...settings.speedRanges, {
+      start,
+      end: Math.min(duration, start + DEFAULT_SPEED_RANGE_SECONDS),
+      speed: DEFAULT_SPEED_RANGE_SPEED,
+    }];
+    updateSpeedRanges(next.sort((a, b) => a.start - b.start));
+  };
+
+  const handleSpeedRangeChange = (index: number, field: keyof SpeedRange, value: number) => {
+    if (!isFinite(value)) return;
+    const clamped = field === 'speed'
+      ? Math.max(SETTINGS_RANGES.speedRangeSpeed.min, Math.min(SETTINGS_RANGES.speedRangeSpeed.max, value))
+      : Math.max(0, Math.min(videoDuration ?? value, value));
+    updateSpeedRanges(settings.speedRanges.map((r, i) => (i === index ? { ...r, [field]: clamped } : r)));
+  };
+
+  const handleKeyframeEasing = (time: number, easing: KeyframeEasing) => {
+    const track = (settings.keyframes[keyframeKey] ?? []).map((k) => (k.time === time ? { ...k, easing } : k));
+    onSettingsChange({ ...settings, keyframes: { ...settings.keyframes, [keyframeKey]: track } });
+  };
+
+  const handleClearKeyframes = () => {
+    const keyframes = { ...settings.keyframes };
+    delete keyframes[keyframeKey];
+    onSettingsChange({ ...settings, keyframes });
+  };
+
   const commonDisabledState = disabled || isSuggestingSettings;
 
   const trimStart = settings.trimStartSeconds ?? 0;
   const trimEnd = settings.trimEndSeconds ?? (videoDuration ?? 0);
   const hasDuration = typeof videoDuration === 'number' && isFinite(videoDuration) && videoDuration > 0;
+  const audioOnly = isAudioOutputFormat(settings.outputFormat);
+  const hasMusicDuration = typeof musicDuration === 'number' && isFinite(musicDuration) && musicDuration > 0;
+  const musicTrimStart = settings.musicTrimStartSeconds ?? 0;
+  const musicTrimEnd = settings.musicTrimEndSeconds ?? (musicDuration ?? 0);
+  const selectedTrack = settings.keyframes[keyframeKey] ?? [];
+  const usesCutList = settings.keepRanges.length > 0;
+
+  const resolutionPresetIndex = OUTPUT_RESOLUTION_PRESETS.findIndex(
+    (p) => p.width === settings.outputWidth && p.height === settings.outputHeight
+  );
+  const isFullFrameCrop = settings.cropLeft === 0 && settings.cropTop === 0
+    && settings.cropWidth === 100 && settings.cropHeight === 100;
 
   return (
     <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
@@ -368,18 +553,118 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
         min={0.5} max={2.0} step={0.1} unit="x"
         onChange={(v) => updateNumber('playbackSpeed', v)} disabled={commonDisabledState}
       />
+      <div className="mb-4">
+        <label htmlFor="playbackDirection" className="block text-sm font-medium text-gray-300 mb-1">
+          Direction:
+        </label>
+        <select
+          id="playbackDirection"
+          value={settings.playbackDirection}
+          onChange={(e) => onSettingsChange({ ...settings, playbackDirection: e.target.value as PlaybackDirection })}
+          disabled={commonDisabledState}
+          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          {(Object.keys(PLAYBACK_DIRECTION_LABELS) as PlaybackDirection[]).map((direction) => (
+            <option key={direction} value={direction}>{PLAYBACK_DIRECTION_LABELS[direction]}</option>
+          ))}
+        </select>
+        {settings.playbackDirection !== 'forward' && (
+          <p className="text-xs text-yellow-400 mt-1">
+            The preview plays forward. Reversed audio can't keep its pitch when the speed changes, and the export needs a browser with WebCodecs.
+          </p>
+        )}
+      </div>
       <SliderControl
         label="Audio Volume" id="volume" value={settings.volume}
         min={0} max={100} step={1} unit="%"
         onChange={(v) => updateNumber('volume', v)} disabled={commonDisabledState}
       />
 
+      <Section title="Speed Ranges">
+        <p className="text-xs text-gray-400 mb-2">
+          Give parts of the video their own speed, e.g. slow motion for a highlight. Playback Speed applies everywhere else.
+          Audio follows the speed.
+        </p>
+        {settings.speedRanges.map((range, index) => (
+          <div key={index} className="flex items-center gap-1 mb-2 text-sm text-gray-300">
+            <input
+              type="number"
+              value={range.start}
+              min={0} max={videoDuration} step={0.05}
+              onChange={(e) => handleSpeedRangeChange(index, 'start', parseFloat(e.target.value))}
+              disabled={commonDisabledState}
+              className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+              aria-label={`Speed range ${index + 1} start (seconds)`}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              value={range.end}
+              min={0} max={videoDuration} step={0.05}
+              onChange={(e) => handleSpeedRangeChange(index, 'end', parseFloat(e.target.value))}
+              disabled={commonDisabledState}
+              className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+              aria-label={`Speed range ${index + 1} end (seconds)`}
+            />
+            <span className="text-xs text-gray-500">s at</span>
+            <input
+              type="number"
+              value={range.speed}
+              min={SETTINGS_RANGES.speedRangeSpeed.min} max={SETTINGS_RANGES.speedRangeSpeed.max} step={0.05}
+              onChange={(e) => handleSpeedRangeChange(index, 'speed', parseFloat(e.target.value))}
+              disabled={commonDisabledState}
+              className="w-16 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+              aria-label={`Speed range ${index + 1} speed`}
+            />
+            <span className="text-xs text-gray-500">x</span>
+            <button
+              onClick={() => updateSpeedRanges(settings.speedRanges.filter((_, i) => i !== index))}
+              disabled={commonDisabledState}
+              className="px-2 py-1 text-xs bg-red-700 hover:bg-red-600 text-white rounded-md transition-colors disabled:opacity-50"
+              aria-label={`Delete speed range ${index + 1}`}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={handleAddSpeedRange}
+          disabled={commonDisabledState || !hasDuration}
+          className="px-3 py-1.5 mb-3 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          Add range at playhead
+        </button>
+        <SliderControl
+          label="Speed ramp" id="speedRampSeconds" value={settings.speedRampSeconds}
+          min={SETTINGS_RANGES.speedRampSeconds.min} max={SETTINGS_RANGES.speedRampSeconds.max} step={0.1} unit="s"
+          onChange={(v) => updateNumber('speedRampSeconds', v)} disabled={commonDisabledState}
+        />
+        <p className="text-xs text-gray-400">
+          Time taken to change speed at each range boundary. 0 switches instantly.
+        </p>
+      </Section>
+
       <Section title="Stylistic Filters">
         <SliderControl
           label="Hue Rotate" id="hueRotate" value={settings.hueRotate}
           min={-180} max={180} step={1} unit="°"
           onChange={(v) => updateNumber('hueRotate', v)} disabled={commonDisabledState}
         />
+        <SliderControl
+          label="Sharpen" id="sharpenAmount" value={settings.sharpenAmount}
+          min={SETTINGS_RANGES.sharpenAmount.min} max={SETTINGS_RANGES.sharpenAmount.max} step={1} unit="%"
+          onChange={(v) => updateNumber('sharpenAmount', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Sharpen Radius" id="sharpenRadius" value={settings.sharpenRadius}
+          min={SETTINGS_RANGES.sharpenRadius.min} max={SETTINGS_RANGES.sharpenRadius.max} step={0.1} unit="px" decimals={1}
+          onChange={(v) => updateNumber('sharpenRadius', v)} disabled={commonDisabledState || settings.sharpenAmount <= 0}
+        />
+        <SliderControl
+          label="Sharpen Threshold" id="sharpenThreshold" value={settings.sharpenThreshold}
+          min={SETTINGS_RANGES.sharpenThreshold.min} max={SETTINGS_RANGES.sharpenThreshold.max} step={1}
+          onChange={(v) => updateNumber('sharpenThreshold', v)} disabled={commonDisabledState || settings.sharpenAmount <= 0}
+        />
         <SliderControl
           label="Blur" id="blur" value={settings.blur}
           min={0} max={10} step={0.1} unit="px"
@@ -402,6 +687,66 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
         />
       </Section>
 
+      <Section title="Film Grain">
+        <SliderControl
+          label="Grain" id="grainAmount" value={settings.grainAmount}
+          min={SETTINGS_RANGES.grainAmount.min} max={SETTINGS_RANGES.grainAmount.max} step={1} unit="%"
+          onChange={(v) => updateNumber('grainAmount', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Grain Size" id="grainSize" value={settings.grainSize}
+          min={SETTINGS_RANGES.grainSize.min} max={SETTINGS_RANGES.grainSize.max} step={0.1} unit="px" decimals={1}
+          onChange={(v) => updateNumber('grainSize', v)} disabled={commonDisabledState || settings.grainAmount <= 0}
+        />
+        <SliderControl
+          label="Luminance Response" id="grainLuminanceResponse" value={settings.grainLuminanceResponse}
+          min={SETTINGS_RANGES.grainLuminanceResponse.min} max={SETTINGS_RANGES.grainLuminanceResponse.max} step={1} unit="%"
+          onChange={(v) => updateNumber('grainLuminanceResponse', v)} disabled={commonDisabledState || settings.grainAmount <= 0}
+        />
+        <ToggleRow
+          id="grainColor"
+          label="Color Grain"
+          description="'On' gives each color channel its own grain; 'Off' is monochrome."
+          checked={settings.grainColor}
+          onChange={(v) => updateBool('grainColor', v)}
+          disabled={commonDisabledState || settings.grainAmount <= 0}
+        />
+        {settings.grainAmount > 0 && (
+          <div className="mb-3">
+            <label htmlFor="grainSeed" className="block text-xs text-gray-400 mb-1">
+              Seed (same seed and settings give identical output)
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="grainSeed"
+                type="number"
+                min={SETTINGS_RANGES.seed.min}
+                max={SETTINGS_RANGES.seed.max}
+                step={1}
+                value={settings.seed}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value) || 0);
+                  updateNumber('seed', Math.max(SETTINGS_RANGES.seed.min, Math.min(SETTINGS_RANGES.seed.max, value)));
+                }}
+                disabled={commonDisabledState}
+                className="flex-1 p-1.5 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+              />
+              <button
+                onClick={() => updateNumber('seed', Math.floor(Math.random() * (SETTINGS_RANGES.seed.max + 1)))}
+                disabled={commonDisabledState}
+                className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md transition-colors disabled:opacity-50"
+              >
+                Randomize
+              </button>
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-gray-400">
+          A new grain pattern every frame, strongest in the midtones. Luminance response fades it in the shadows and
+          highlights. Effect only visible in final processed video.
+        </p>
+      </Section>
+
       <Section title="Audio Fades">
         <SliderControl
           label="Fade In" id="audioFadeIn" value={settings.audioFadeInSeconds}
@@ -418,9 +763,399 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
         </p>
       </Section>
 
+      <Section title="Equalizer">
+        <label htmlFor="eqBandCount" className="block text-sm font-medium text-gray-300 mb-1">
+          Bands:
+        </label>
+        <select
+          id="eqBandCount"
+          value={settings.eqBandCount}
+          onChange={(e) => onSettingsChange({ ...settings, eqBandCount: Number(e.target.value) as EqBandCount })}
+          disabled={commonDisabledState}
+          className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          <option value={3}>3-band</option>
+          <option value={5}>5-band</option>
+        </select>
+        {EQ_BANDS[settings.eqBandCount === 5 ? 5 : 3].map((band) => (
+          <SliderControl
+            key={band.key}
+            label={band.label} id={band.key} value={settings[band.key]}
+            min={SETTINGS_RANGES.eqGain.min} max={SETTINGS_RANGES.eqGain.max} step={1} unit=" dB"
+            onChange={(v) => updateNumber(band.key, v)} disabled={commonDisabledState}
+          />
+        ))}
+        <SliderControl
+          label="Low Cut" id="lowCutHz" value={settings.lowCutHz}
+          min={SETTINGS_RANGES.lowCutHz.min} max={SETTINGS_RANGES.lowCutHz.max} step={10} unit=" Hz"
+          onChange={(v) => updateNumber('lowCutHz', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="High Cut" id="highCutHz" value={settings.highCutHz}
+          min={SETTINGS_RANGES.highCutHz.min} max={SETTINGS_RANGES.highCutHz.max} step={500} unit=" Hz"
+          onChange={(v) => updateNumber('highCutHz', v)} disabled={commonDisabledState}
+        />
+        <p className="text-xs text-gray-400">
+          Cut filters at 0 Hz are off. The preview plays through the same EQ as the export.
+        </p>
+      </Section>
+
+      <Section title="Compressor & Limiter">
+        <ToggleRow
+          id="compressorEnabled"
+          label="Compressor"
+          description="Evens out loud and quiet passages, e.g. dialogue that swings between whispering and shouting."
+          checked={settings.compressorEnabled}
+          onChange={(v) => updateBool('compressorEnabled', v)}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Threshold" id="compressorThresholdDb" value={settings.compressorThresholdDb}
+          min={SETTINGS_RANGES.compressorThresholdDb.min} max={SETTINGS_RANGES.compressorThresholdDb.max} step={1} unit=" dB"
+          onChange={(v) => updateNumber('compressorThresholdDb', v)} disabled={commonDisabledState || !settings.compressorEnabled}
+        />
+        <SliderControl
+          label="Ratio" id="compressorRatio" value={settings.compressorRatio}
+          min={SETTINGS_RANGES.compressorRatio.min} max={SETTINGS_RANGES.compressorRatio.max} step={1} unit=":1"
+          onChange={(v) => updateNumber('compressorRatio', v)} disabled={commonDisabledState || !settings.compressorEnabled}
+        />
+        <SliderControl
+          label="Attack" id="compressorAttackMs" value={settings.compressorAttackMs}
+          min={SETTINGS_RANGES.compressorAttackMs.min} max={SETTINGS_RANGES.compressorAttackMs.max} step={1} unit=" ms"
+          onChange={(v) => updateNumber('compressorAttackMs', v)} disabled={commonDisabledState || !settings.compressorEnabled}
+        />
+        <SliderControl
+          label="Release" id="compressorReleaseMs" value={settings.compressorReleaseMs}
+          min={SETTINGS_RANGES.compressorReleaseMs.min} max={SETTINGS_RANGES.compressorReleaseMs.max} step={10} unit=" ms"
+          onChange={(v) => updateNumber('compressorReleaseMs', v)} disabled={commonDisabledState || !settings.compressorEnabled}
+        />
+        <SliderControl
+          label="Makeup Gain" id="compressorMakeupDb" value={settings.compressorMakeupDb}
+          min={SETTINGS_RANGES.compressorMakeupDb.min} max={SETTINGS_RANGES.compressorMakeupDb.max} step={1} unit=" dB"
+          onChange={(v) => updateNumber('compressorMakeupDb', v)} disabled={commonDisabledState || !settings.compressorEnabled}
+        />
+        {settings.compressorEnabled && (
+          <div className="mb-4">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Gain reduction (preview)</span>
+              <span className="font-mono">{gainReductionDb.toFixed(1)} dB</span>
+            </div>
+            <div
+              className="w-full bg-gray-700 rounded h-2 overflow-hidden"
+              role="meter"
+              aria-label="Compressor gain reduction"
+              aria-valuemin={-GAIN_REDUCTION_METER_RANGE_DB}
+              aria-valuemax={0}
+              aria-valuenow={gainReductionDb}
+            >
+              <div
+                className="bg-yellow-500 h-2 ml-auto transition-all duration-100"
+                style={{ width: `${Math.min(100, (-gainReductionDb / GAIN_REDUCTION_METER_RANGE_DB) * 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+        <ToggleRow
+          id="limiterEnabled"
+          label="Limiter"
+          description="Brickwall limiter at the end of the mix: nothing goes above the ceiling."
+          checked={settings.limiterEnabled}
+          onChange={(v) => updateBool('limiterEnabled', v)}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Ceiling" id="limiterCeilingDb" value={settings.limiterCeilingDb}
+          min={SETTINGS_RANGES.limiterCeilingDb.min} max={SETTINGS_RANGES.limiterCeilingDb.max} step={1} unit=" dB"
+          onChange={(v) => updateNumber('limiterCeilingDb', v)} disabled={commonDisabledState || !settings.limiterEnabled}
+        />
+      </Section>
+
+      <Section title="Color LUT">
+        <div className="flex items-center gap-2 mb-3">
+          <span className="flex-1 truncate text-sm text-gray-300" title={settings.lut?.name}>
+            {settings.lut ? `${settings.lut.name} (${settings.lut.size}³)` : 'No LUT loaded'}
+          </span>
+          {settings.lut && (
+            <button
+              onClick={() => onSettingsChange({ ...settings, lut: null })}
+              disabled={commonDisabledState}
+              className="px-3 py-1.5 text-sm bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            onClick={() => lutInputRef.current?.click()}
+            disabled={commonDisabledState}
+            className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+          >
+            {settings.lut ? 'Replace' : 'Import .cube'}
+          </button>
+          <input
+            ref={lutInputRef}
+            type="file"
+            accept=".cube"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleLutFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {lutError && <p className="text-xs text-red-400 mb-3" role="alert">{lutError}</p>}
+        {settings.lut && !isLutStorable(settings.lut) && (
+          <p className="text-xs text-yellow-400 mb-3">
+            This LUT is too large to save in the browser: it lasts until you reload, and presets saved with it lose it then.
+          </p>
+        )}
+        <SliderControl
+          label="Intensity" id="lutIntensity" value={settings.lutIntensity}
+          min={SETTINGS_RANGES.lutIntensity.min} max={SETTINGS_RANGES.lutIntensity.max} step={1} unit="%"
+          onChange={(v) => updateNumber('lutIntensity', v)} disabled={commonDisabledState || !settings.lut}
+        />
+        <div className="mb-4">
+          <label htmlFor="lutInterpolation" className="block text-sm font-medium text-gray-300 mb-1">
+            Interpolation:
+          </label>
+          <select
+            id="lutInterpolation"
+            value={settings.lutInterpolation}
+            onChange={(e) => onSettingsChange({ ...settings, lutInterpolation: e.target.value as LutInterpolation })}
+            disabled={commonDisabledState || !settings.lut}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+          >
+            {(Object.keys(LUT_INTERPOLATION_LABELS) as LutInterpolation[]).map((mode) => (
+              <option key={mode} value={mode}>{LUT_INTERPOLATION_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-gray-400">
+          Adobe/Resolve 3D LUTs up to {LUT_MAX_SIZE} points. The LUT grades the source colours before the adjustments above
+          and is saved with your presets (up to 33 points).
+        </p>
+      </Section>
+
+      <Section title="White Balance">
+        <SliderControl
+          label="Temperature" id="temperature" value={settings.temperature}
+          min={SETTINGS_RANGES.temperature.min} max={SETTINGS_RANGES.temperature.max} step={1}
+          onChange={(v) => updateNumber('temperature', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Tint" id="tint" value={settings.tint}
+          min={SETTINGS_RANGES.tint.min} max={SETTINGS_RANGES.tint.max} step={1}
+          onChange={(v) => updateNumber('tint', v)} disabled={commonDisabledState}
+        />
+        <div className="flex items-center gap-2 mb-3">
+          <button
+            onClick={() => onPickingWhiteBalanceChange?.(!isPickingWhiteBalance)}
+            disabled={commonDisabledState || !onPickingWhiteBalanceChange || !videoDuration}
+            className={`flex-1 px-3 py-1.5 text-sm text-white rounded-md transition-colors disabled:opacity-50 ${
+              isPickingWhiteBalance ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+            aria-pressed={isPickingWhiteBalance}
+          >
+            {isPickingWhiteBalance ? 'Cancel Picking' : 'Pick Neutral White'}
+          </button>
+          <button
+            onClick={() => onSettingsChange({ ...settings, temperature: 0, tint: 0 })}
+            disabled={commonDisabledState || (settings.temperature === 0 && settings.tint === 0)}
+            className="px-3 py-1.5 text-sm bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        {whiteBalancePickError && <p className="text-xs text-red-400 mb-3" role="alert">{whiteBalancePickError}</p>}
+        <p className="text-xs text-gray-400">
+          {isPickingWhiteBalance
+            ? 'Click something white or grey in the modified preview.'
+            : 'Negative temperature cools the picture, positive warms it; tint shifts between green and magenta. White balance applies after the LUT and before the other colour adjustments.'}
+        </p>
+      </Section>
+
+      <Section title="Curves & Levels">
+        <SliderControl
+          label="Input Black" id="levelsInputBlack" value={settings.levelsInputBlack}
+          min={SETTINGS_RANGES.levelsInputBlack.min} max={SETTINGS_RANGES.levelsInputBlack.max} step={1}
+          onChange={(v) => onSettingsChange({
+            ...settings,
+            levelsInputBlack: v,
+            levelsInputWhite: Math.max(settings.levelsInputWhite, v + 1),
+          })}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Input White" id="levelsInputWhite" value={settings.levelsInputWhite}
+          min={SETTINGS_RANGES.levelsInputWhite.min} max={SETTINGS_RANGES.levelsInputWhite.max} step={1}
+          onChange={(v) => onSettingsChange({
+            ...settings,
+            levelsInputWhite: v,
+            levelsInputBlack: Math.min(settings.levelsInputBlack, v - 1),
+          })}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Gamma" id="levelsGamma" value={settings.levelsGamma}
+          min={SETTINGS_RANGES.levelsGamma.min} max={SETTINGS_RANGES.levelsGamma.max} step={0.01} decimals={2}
+          onChange={(v) => updateNumber('levelsGamma', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Output Black" id="levelsOutputBlack" value={settings.levelsOutputBlack}
+          min={SETTINGS_RANGES.levelsOutputBlack.min} max={SETTINGS_RANGES.levelsOutputBlack.max} step={1}
+          onChange={(v) => updateNumber('levelsOutputBlack', v)} disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Output White" id="levelsOutputWhite" value={settings.levelsOutputWhite}
+          min={SETTINGS_RANGES.levelsOutputWhite.min} max={SETTINGS_RANGES.levelsOutputWhite.max} step={1}
+          onChange={(v) => updateNumber('levelsOutputWhite', v)} disabled={commonDisabledState}
+        />
+        <ToneCurveEditor
+          curves={settings.toneCurves}
+          onChange={(toneCurves) => onSettingsChange({ ...settings, toneCurves })}
+          disabled={commonDisabledState}
+        />
+        <p className="text-xs text-gray-400">
+          Levels apply first, then the RGB curve, then each channel's curve, after the colour adjustments above.
+          An output black above the output white inverts the image.
+        </p>
+      </Section>
+
+      <Section title="Background Music">
+        <div className="flex items-center gap-2 mb-3">
+          <span className="flex-1 truncate text-sm text-gray-300" title={musicFile?.name}>
+            {musicFile ? musicFile.name : 'No music attached'}
+          </span>
+          {musicFile && (
+            <button
+              onClick={() => onMusicFileChange?.(null)}
+              disabled={commonDisabledState}
+              className="px-3 py-1.5 text-sm bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            onClick={() => musicInputRef.current?.click()}
+            disabled={commonDisabledState || !onMusicFileChange}
+            className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+          >
+            {musicFile ? 'Replace' : 'Attach music'}
+          </button>
+          <input
+            ref={musicInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onMusicFileChange?.(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <SliderControl
+          label="Music Volume" id="musicVolume" value={settings.musicVolume}
+          min={SETTINGS_RANGES.musicVolume.min} max={SETTINGS_RANGES.musicVolume.max} step={1} unit="%"
+          onChange={(v) => updateNumber('musicVolume', v)} disabled={commonDisabledState || !musicFile}
+        />
+        <ToggleRow
+          id="musicLoop"
+          label="Loop"
+          description="Repeats the music (or its trimmed part) until the video ends."
+          checked={settings.musicLoop}
+          onChange={(v) => updateBool('musicLoop', v)}
+          disabled={commonDisabledState || !musicFile}
+        />
+        {musicFile && hasMusicDuration && (
+          <>
+            <SliderControl
+              label={`Music Start (${formatSeconds(musicTrimStart)})`} id="musicTrimStart"
+              value={musicTrimStart}
+              min={0} max={Math.max(0, (musicDuration as number) - 0.05)} step={0.05} unit="s"
+              onChange={(v) => onSettingsChange({
+                ...settings,
+                musicTrimStartSeconds: v,
+                musicTrimEndSeconds: Math.max(v + 0.05, settings.musicTrimEndSeconds ?? (musicDuration as number)),
+              })}
+              disabled={commonDisabledState}
+            />
+            <SliderControl
+              label={`Music End (${formatSeconds(musicTrimEnd)})`} id="musicTrimEnd"
+              value={musicTrimEnd}
+              min={Math.min(musicTrimStart + 0.05, musicDuration as number)}
+              max={musicDuration as number} step={0.05} unit="s"
+              onChange={(v) => onSettingsChange({
+                ...settings,
+                musicTrimEndSeconds: v,
+                musicTrimStartSeconds: Math.min(v - 0.05, settings.musicTrimStartSeconds ?? 0),
+              })}
+              disabled={commonDisabledState}
+            />
+            <button
+              onClick={() => onSettingsChange({ ...settings, musicTrimStartSeconds: null, musicTrimEndSeconds: null })}
+              disabled={commonDisabledState}
+              className="mb-3 text-xs text-indigo-300 hover:text-indigo-200 underline disabled:opacity-50"
+            >
+              Reset music trim (use whole track)
+            </button>
+          </>
+        )}
+        <ToggleRow
+          id="musicDucking"
+          label="Auto-Ducking"
+          description="Lowers the music whenever the video's own audio is above the threshold, e.g. while someone speaks."
+          checked={settings.musicDucking}
+          onChange={(v) => updateBool('musicDucking', v)}
+          disabled={commonDisabledState || !musicFile}
+        />
+        <SliderControl
+          label="Ducking Threshold" id="duckingThresholdDb" value={settings.duckingThresholdDb}
+          min={SETTINGS_RANGES.duckingThresholdDb.min} max={SETTINGS_RANGES.duckingThresholdDb.max} step={1} unit=" dB"
+          onChange={(v) => updateNumber('duckingThresholdDb', v)} disabled={commonDisabledState || !musicFile || !settings.musicDucking}
+        />
+        <SliderControl
+          label="Duck By" id="duckingAmountDb" value={settings.duckingAmountDb}
+          min={SETTINGS_RANGES.duckingAmountDb.min} max={SETTINGS_RANGES.duckingAmountDb.max} step={1} unit=" dB"
+          onChange={(v) => updateNumber('duckingAmountDb', v)} disabled={commonDisabledState || !musicFile || !settings.musicDucking}
+        />
+        <p className="text-xs text-gray-400">
+          The music is mixed into the processed video only, after the equalizer and compressor, and fades with the audio fades.
+        </p>
+      </Section>
+
+      <Section title="Loudness">
+        <ToggleRow
+          id="normalizeLoudness"
+          label="Normalize Loudness"
+          description="Measures the finished mix (ITU-R BS.1770) and sets its gain to hit the target, with a limiter on the peaks."
+          checked={settings.normalizeLoudness}
+          onChange={(v) => updateBool('normalizeLoudness', v)}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Target" id="targetLufs" value={settings.targetLufs}
+          min={SETTINGS_RANGES.targetLufs.min} max={SETTINGS_RANGES.targetLufs.max} step={1} unit=" LUFS"
+          onChange={(v) => updateNumber('targetLufs', v)} disabled={commonDisabledState || !settings.normalizeLoudness}
+        />
+        <SliderControl
+          label="True Peak Ceiling" id="truePeakCeilingDb" value={settings.truePeakCeilingDb}
+          min={SETTINGS_RANGES.truePeakCeilingDb.min} max={SETTINGS_RANGES.truePeakCeilingDb.max} step={1} unit=" dBTP"
+          onChange={(v) => updateNumber('truePeakCeilingDb', v)} disabled={commonDisabledState || !settings.normalizeLoudness}
+        />
+        <p className="text-xs text-gray-400">
+          Most streaming platforms play back at about -14 LUFS. Applies to the processed video only.
+        </p>
+      </Section>
+
       <Section title="Trim Video">
         {hasDuration ? (
           <>
+            {usesCutList && (
+              <p className="text-xs text-yellow-300 mb-2">
+                The cut list below replaces the trim window.
+              </p>
+            )}
             <SliderControl
               label={`Start (${formatSeconds(trimStart)})`} id="trimStart"
               value={trimStart}
@@ -451,12 +1186,292 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
             >
               Reset trim (use full video)
             </button>
+
+            <div className="mt-4 pt-3 border-t border-gray-700">
+              <p className="text-sm font-medium text-gray-300 mb-1">Cut list</p>
+              <p className="text-xs text-gray-400 mb-2">
+                Keep several ranges and splice them together, in this order. Everything else is cut.
+              </p>
+              {settings.keepRanges.map((range, index) => (
+                <div key={index} className="flex items-center gap-1 mb-2 text-sm text-gray-300">
+                  <span className="w-5 text-gray-500">{index + 1}.</span>
+                  <input
+                    type="number"
+                    value={range.start}
+                    min={0} max={range.end - MIN_KEEP_RANGE_SECONDS} step={0.05}
+                    onChange={(e) => handleKeepRangeChange(index, 'start', parseFloat(e.target.value))}
+                    disabled={commonDisabledState}
+                    className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+                    aria-label={`Range ${index + 1} start (seconds)`}
+                  />
+                  <span>–</span>
+                  <input
+                    type="number"
+                    value={range.end}
+                    min={range.start + MIN_KEEP_RANGE_SECONDS} max={videoDuration} step={0.05}
+                    onChange={(e) => handleKeepRangeChange(index, 'end', parseFloat(e.target.value))}
+                    disabled={commonDisabledState}
+                    className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+                    aria-label={`Range ${index + 1} end (seconds)`}
+                  />
+                  <span className="text-xs text-gray-500">s</span>
+                  <button
+                    onClick={() => handleMoveKeepRange(index, -1)}
+                    disabled={commonDisabledState || index === 0}
+                    className="px-1.5 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+                    aria-label={`Move range ${index + 1} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMoveKeepRange(index, 1)}
+                    disabled={commonDisabledState || index === settings.keepRanges.length - 1}
+                    className="px-1.5 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+                    aria-label={`Move range ${index + 1} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => updateKeepRanges(settings.keepRanges.filter((_, i) => i !== index))}
+                    disabled={commonDisabledState}
+                    className="px-2 py-1 text-xs bg-red-700 hover:bg-red-600 text-white rounded-md transition-colors disabled:opacity-50"
+                    aria-label={`Delete range ${index + 1}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={handleAddKeepRange}
+                disabled={commonDisabledState}
+                className="px-3 py-1.5 mb-3 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+              >
+                Add range at playhead
+              </button>
+              {settings.keepRanges.length > 1 && (
+                <SliderControl
+                  label="Audio fade at cuts" id="spliceFade" value={settings.spliceFadeSeconds}
+                  min={0} max={2} step={0.05} unit="s"
+                  onChange={(v) => updateNumber('spliceFadeSeconds', v)} disabled={commonDisabledState}
+                />
+              )}
+            </div>
           </>
         ) : (
           <p className="text-xs text-gray-400">Upload a video to enable trimming.</p>
         )}
       </Section>
 
+      <Section title="Keyframes">
+        {hasDuration ? (
+          <>
+            <p className="text-xs text-gray-400 mb-3">
+              Set a slider, move the Modified Preview to a point in time, then add a keyframe.
+              An animated setting follows its keyframes instead of its slider.
+            </p>
+            <label htmlFor="keyframeKey" className="block text-sm font-medium text-gray-300 mb-1">
+              Setting:
+            </label>
+            <select
+              id="keyframeKey"
+              value={keyframeKey}
+              onChange={(e) => setKeyframeKey(e.target.value as AnimatableSettingKey)}
+              disabled={commonDisabledState}
+              className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+            >
+              {ANIMATABLE_SETTING_KEYS.map((key) => {
+                const count = settings.keyframes[key]?.length ?? 0;
+                return (
+                  <option key={key} value={key}>
+                    {ANIMATABLE_SETTING_LABELS[key]}{count > 0 ? ` (${count} keyframes)` : ''}
+                  </option>
+                );
+              })}
+            </select>
+
+            {/* Timeline: keyframes of the selected setting and the preview playhead. */}
+            <div className="relative h-6 mb-1 bg-gray-700 rounded" aria-label="Keyframe timeline">
+              <div
+                className="absolute top-0 bottom-0 w-px bg-red-400"
+                style={{ left: `${Math.min(100, (playheadSeconds / (videoDuration as number)) * 100)}%` }}
+                title={`Playhead ${formatKeyframeTime(playheadSeconds)}`}
+              />
+              {selectedTrack.map((k) => (
+                <div
+                  key={k.time}
+                  className="absolute top-1 w-3 h-3 -ml-1.5 rotate-45 bg-indigo-400"
+                  style={{ left: `${Math.min(100, (k.time / (videoDuration as number)) * 100)}%` }}
+                  title={`${formatKeyframeTime(k.time)}: ${k.value}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mb-3">
+              <span>0:00</span>
+              <span>Playhead {formatKeyframeTime(playheadSeconds)}</span>
+              <span>{formatSeconds(videoDuration as number)}</span>
+            </div>
+
+            <div className="flex gap-2 mb-3">
+              <select
+                id="keyframeEasing"
+                value={keyframeEasing}
+                onChange={(e) => setKeyframeEasing(e.target.value as KeyframeEasing)}
+                disabled={commonDisabledState}
+                className="flex-1 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 text-sm disabled:opacity-50"
+                aria-label="Easing for the new keyframe"
+              >
+                {(Object.keys(KEYFRAME_EASING_LABELS) as KeyframeEasing[]).map((easing) => (
+                  <option key={easing} value={easing}>{KEYFRAME_EASING_LABELS[easing]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddKeyframe}
+                disabled={commonDisabledState}
+                className="px-3 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors disabled:opacity-50"
+              >
+                Add at playhead
+              </button>
+            </div>
+
+            {selectedTrack.length > 0 && (
+              <div className="space-y-2 mb-2">
+                {selectedTrack.map((k) => (
+                  <div key={k.time} className="flex items-center gap-2 text-sm text-gray-300">
+                    <span className="w-16">{formatKeyframeTime(k.time)}</span>
+                    <span className="flex-1 font-semibold text-indigo-400">{k.value}</span>
+                    <select
+                      value={k.easing}
+                      onChange={(e) => handleKeyframeEasing(k.time, e.target.value as KeyframeEasing)}
+                      disabled={commonDisabledState}
+                      className="p-1 bg-gray-700 border border-gray-600 rounded-md text-gray-100 text-xs disabled:opacity-50"
+                      aria-label={`Easing after the keyframe at ${formatKeyframeTime(k.time)}`}
+                    >
+                      {(Object.keys(KEYFRAME_EASING_LABELS) as KeyframeEasing[]).map((easing) => (
+                        <option key={easing} value={easing}>{KEYFRAME_EASING_LABELS[easing]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => onSettingsChange({
+                        ...settings,
+                        keyframes: removeKeyframe(settings.keyframes, keyframeKey, k.time),
+                      })}
+                      disabled={commonDisabledState}
+                      className="px-2 py-1 text-xs bg-red-700 hover:bg-red-600 text-white rounded-md transition-colors disabled:opacity-50"
+                      aria-label={`Delete keyframe at ${formatKeyframeTime(k.time)}`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={handleClearKeyframes}
+                  disabled={commonDisabledState}
+                  className="text-xs text-indigo-300 hover:text-indigo-200 underline disabled:opacity-50"
+                >
+                  Remove all {ANIMATABLE_SETTING_LABELS[keyframeKey]} keyframes
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-gray-400">Upload a video to add keyframes.</p>
+        )}
+      </Section>
+
+      <Section title="Crop & Resize">
+        <label htmlFor="outputResolution" className="block text-sm font-medium text-gray-300 mb-1">
+          Resolution:
+        </label>
+        <select
+          id="outputResolution"
+          value={resolutionPresetIndex >= 0 ? String(resolutionPresetIndex) : 'custom'}
+          onChange={(e) => {
+            if (e.target.value === 'custom') return;
+            const preset = OUTPUT_RESOLUTION_PRESETS[Number(e.target.value)];
+            onSettingsChange({ ...settings, outputWidth: preset.width, outputHeight: preset.height });
+          }}
+          disabled={commonDisabledState}
+          className="w-full mb-2 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          {OUTPUT_RESOLUTION_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={String(index)}>{preset.label}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        <div className="grid grid-cols-2 gap-2 mb-1">
+          {(['outputWidth', 'outputHeight'] as const).map((key) => (
+            <label key={key} className="text-xs text-gray-400">
+              {key === 'outputWidth' ? 'Width' : 'Height'} (px)
+              <input
+                type="number"
+                min={SETTINGS_RANGES[key].min}
+                max={SETTINGS_RANGES[key].max}
+                step={2}
+                value={settings[key]}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value) || 0);
+                  updateNumber(key, Math.max(SETTINGS_RANGES[key].min, Math.min(SETTINGS_RANGES[key].max, value)));
+                }}
+                disabled={commonDisabledState}
+                className="w-full mt-1 p-1.5 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mb-3">
+          0 keeps the cropped source size, or follows the other dimension's aspect ratio.
+        </p>
+
+        <label htmlFor="fitMode" className="block text-sm font-medium text-gray-300 mb-1">
+          Fit:
+        </label>
+        <select
+          id="fitMode"
+          value={settings.fitMode}
+          onChange={(e) => onSettingsChange({ ...settings, fitMode: e.target.value as VideoSettings['fitMode'] })}
+          disabled={commonDisabledState}
+          className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          {(Object.keys(OUTPUT_FIT_MODE_LABELS) as Array<VideoSettings['fitMode']>).map((mode) => (
+            <option key={mode} value={mode}>{OUTPUT_FIT_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+
+        <SliderControl
+          label="Crop Left" id="cropLeft" value={settings.cropLeft}
+          min={SETTINGS_RANGES.cropLeft.min} max={SETTINGS_RANGES.cropLeft.max} step={1} unit="%"
+          onChange={(v) => onSettingsChange({ ...settings, cropLeft: v, cropWidth: Math.min(settings.cropWidth, 100 - v) })}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Crop Top" id="cropTop" value={settings.cropTop}
+          min={SETTINGS_RANGES.cropTop.min} max={SETTINGS_RANGES.cropTop.max} step={1} unit="%"
+          onChange={(v) => onSettingsChange({ ...settings, cropTop: v, cropHeight: Math.min(settings.cropHeight, 100 - v) })}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Crop Width" id="cropWidth" value={settings.cropWidth}
+          min={SETTINGS_RANGES.cropWidth.min} max={100 - settings.cropLeft} step={1} unit="%"
+          onChange={(v) => updateNumber('cropWidth', v)}
+          disabled={commonDisabledState}
+        />
+        <SliderControl
+          label="Crop Height" id="cropHeight" value={settings.cropHeight}
+          min={SETTINGS_RANGES.cropHeight.min} max={100 - settings.cropTop} step={1} unit="%"
+          onChange={(v) => updateNumber('cropHeight', v)}
+          disabled={commonDisabledState}
+        />
+        {!isFullFrameCrop && (
+          <button
+            onClick={() => onSettingsChange({ ...settings, cropLeft: 0, cropTop: 0, cropWidth: 100, cropHeight: 100 })}
+            disabled={commonDisabledState}
+            className="text-xs text-indigo-300 hover:text-indigo-200 underline disabled:opacity-50"
+          >
+            Reset crop (use full frame)
+          </button>
+        )}
+      </Section>
+
       <Section title="Output">
         <label htmlFor="outputFormat" className="block text-sm font-medium text-gray-300 mb-1">
           Format:
@@ -474,6 +1489,31 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
             </option>
           ))}
         </select>
+        {audioOnly && (
+          <p className="text-xs text-yellow-300 mb-3">
+            Audio only: trims, speed, volume, fades, EQ, dynamics and music apply; picture settings, frame rate and video bitrate are ignored.
+          </p>
+        )}
+
+        <label htmlFor="outputFrameRate" className="block text-sm font-medium text-gray-300 mb-1">
+          Frame rate:
+        </label>
+        <select
+          id="outputFrameRate"
+          value={String(settings.outputFrameRate)}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            outputFrameRate: e.target.value === 'source' ? 'source' : Number(e.target.value) as VideoSettings['outputFrameRate'],
+          })}
+          disabled={commonDisabledState || audioOnly}
+          className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          {OUTPUT_FRAME_RATE_OPTIONS.map((rate) => (
+            <option key={rate} value={String(rate)}>
+              {OUTPUT_FRAME_RATE_LABELS[rate]}
+            </option>
+          ))}
+        </select>
 
         <SliderControl
           label={`Video bitrate ${settings.outputBitrateKbps === 0 ? '(auto)' : ''}`}
@@ -481,7 +1521,7 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
           value={settings.outputBitrateKbps}
           min={0} max={20000} step={500} unit=" kbps"
           onChange={(v) => updateNumber('outputBitrateKbps', v)}
-          disabled={commonDisabledState}
+          disabled={commonDisabledState || audioOnly}
         />
         <p className="text-xs text-gray-400">
           0 kbps lets the browser pick a default. Higher values produce larger, higher-quality files.
@@ -496,6 +1536,29 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
           onChange={(v) => updateBool('flipHorizontal', v)}
           disabled={commonDisabledState}
         />
+        <ToggleRow
+          id="flipVertical"
+          label="Flip Vertical"
+          checked={settings.flipVertical}
+          onChange={(v) => updateBool('flipVertical', v)}
+          disabled={commonDisabledState}
+        />
+        <label htmlFor="rotation" className="block text-sm font-medium text-gray-300 mb-1">
+          Rotation:
+        </label>
+        <select
+          id="rotation"
+          value={String(settings.rotation)}
+          onChange={(e) => onSettingsChange({ ...settings, rotation: Number(e.target.value) as VideoSettings['rotation'] })}
+          disabled={commonDisabledState}
+          className="w-full mb-3 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 disabled:opacity-50"
+        >
+          {VIDEO_ROTATION_OPTIONS.map((degrees) => (
+            <option key={degrees} value={String(degrees)}>
+              {degrees === 0 ? 'None' : `${degrees}° clockwise`}
+            </option>
+          ))}
+        </select>
         <ToggleRow
           id="enableRotatingLines"
           label="Rotating Lines"
@@ -504,14 +1567,6 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
           onChange={(v) => updateBool('enableRotatingLines', v)}
           disabled={commonDisabledState}
         />
-        <ToggleRow
-          id="enablePixelNoise"
-          label="Pixel Noise"
-          description="Adds subtle random pixel noise. Effect in processed video."
-          checked={settings.enablePixelNoise}
-          onChange={(v) => updateBool('enablePixelNoise', v)}
-          disabled={commonDisabledState}
-        />
         <ToggleRow
           id="audioPreservesPitch"
           label="Preserve Audio Pitch"
@@ -520,6 +1575,16 @@ const ModificationControls: React.FC<ModificationControlsProps> = ({
           onChange={(v) => updateBool('audioPreservesPitch', v)}
           disabled={commonDisabledState}
         />
+        <SliderControl
+          label="Pitch Shift" id="pitchSemitones" value={settings.pitchSemitones}
+          min={SETTINGS_RANGES.pitchSemitones.min} max={SETTINGS_RANGES.pitchSemitones.max} step={1} unit=" st"
+          onChange={(v) => updateNumber('pitchSemitones', v)} disabled={commonDisabledState}
+        />
+        {settings.pitchSemitones !== 0 && (
+          <p className="text-xs text-yellow-400 mt-1">
+            Pitch shifting needs a browser with WebCodecs to export.
+          </p>
+        )}
       </Section>
     </div>
   );
@@ -0,0 +1,110 @@
+import React, { RefObject, useEffect, useState } from 'react';
+
+interface PreviewControlsProps {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** The video's source; listeners are re-attached when it changes. */
+  src: string;
+}
+
+const VIDEO_EVENTS = ['play', 'pause', 'volumechange', 'timeupdate', 'durationchange', 'seeked', 'loadedmetadata'];
+
+function formatTime(seconds: number): string {
+  const whole = isFinite(seconds) ? Math.floor(seconds) : 0;
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Play, seek and mute controls for a preview whose native controls can't be
+ * used: the frame is cropped, rotated or flipped, or covered by the LUT
+ * canvas. VideoPlayer draws them over the bottom of the player, outside the
+ * transformed frame.
+ */
+const PreviewControls: React.FC<PreviewControlsProps> = ({ videoRef, src }) => {
+  const [paused, setPaused] = useState(true);
+  const [muted, setMuted] = useState(true);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const sync = () => {
+      setPaused(video.paused);
+      setMuted(video.muted);
+      setCurrentTime(video.currentTime);
+      setDuration(isFinite(video.duration) ? video.duration : 0);
+    };
+    VIDEO_EVENTS.forEach((type) => video.addEventListener(type, sync));
+    sync();
+    return () => VIDEO_EVENTS.forEach((type) => video.removeEventListener(type, sync));
+  }, [videoRef, src]);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(() => { /* autoplay may be blocked */ });
+    } else {
+      video.pause();
+    }
+  };
+
+  const toggleMute = () => {
+    const video = videoRef.current;
+    if (video) video.muted = !video.muted;
+  };
+
+  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const video = videoRef.current;
+    if (video) video.currentTime = parseFloat(event.target.value);
+  };
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 flex items-center gap-3 px-3 py-2 bg-gradient-to-t from-black/80 to-transparent text-white text-xs">
+      <button
+        type="button"
+        onClick={togglePlay}
+        aria-label={paused ? 'Play' : 'Pause'}
+        className="w-6 h-6 flex items-center justify-center hover:text-indigo-300 transition-colors"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5" aria-hidden="true">
+          {paused ? <path d="M8 5v14l11-7z" /> : <path d="M6 5h4v14H6zM14 5h4v14h-4z" />}
+        </svg>
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step="any"
+        value={Math.min(currentTime, duration)}
+        onChange={handleSeek}
+        disabled={!duration}
+        aria-label="Seek"
+        className="flex-1 h-1 cursor-pointer accent-indigo-500 disabled:cursor-not-allowed"
+      />
+      <span className="tabular-nums">{formatTime(currentTime)} / {formatTime(duration)}</span>
+      <button
+        type="button"
+        onClick={toggleMute}
+        aria-label={muted ? 'Unmute' : 'Mute'}
+        className="w-6 h-6 flex items-center justify-center hover:text-indigo-300 transition-colors"
+      >
+        <svg
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="w-5 h-5"
+          aria-hidden="true"
+        >
+          <path d="M4 9v6h4l5 4V5L8 9H4z" fill="currentColor" />
+          {muted ? <path d="M17 9l5 6M22 9l-5 6" /> : <path d="M16.5 8.5a5 5 0 010 7M19 6a8.5 8.5 0 010 12" />}
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default PreviewControls;
@@ -9,15 +9,17 @@ interface SliderControlProps {
   max: number;
   step: number;
   unit?: string;
+  /** Decimal places shown; defaults to 1 for 'x' values and 0 otherwise. */
+  decimals?: number;
   onChange: (value: number) => void;
   disabled?: boolean;
 }
 
-const SliderControl: React.FC<SliderControlProps> = ({ label, id, value, min, max, step, unit = '', onChange, disabled }) => {
+const SliderControl: React.FC<SliderControlProps> = ({ label, id, value, min, max, step, unit = '', decimals, onChange, disabled }) => {
   return (
     <div className="mb-4">
       <label htmlFor={id} className={`block text-sm font-medium text-gray-300 mb-1 ${disabled ? 'opacity-70' : ''}`}>
-        {label}: <span className="font-semibold text-indigo-400">{value.toFixed(unit === 'x' ? 1: 0)}{unit}</span>
+        {label}: <span className="font-semibold text-indigo-400">{value.toFixed(decimals ?? (unit === 'x' ? 1: 0))}{unit}</span>
       </label>
       <input
         type="range"
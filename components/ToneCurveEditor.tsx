@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { CurveChannel, CurvePoint, ToneCurves } from '../types';
+import { CURVE_CHANNEL_LABELS, DEFAULT_VIDEO_SETTINGS, MAX_CURVE_POINTS, MIN_CURVE_POINT_GAP } from '../constants';
+import { CURVE_CHANNELS, evaluateCurve } from '../services/toneCurves';
+
+interface ToneCurveEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves) => void;
+  disabled?: boolean;
+}
+
+const SIZE = 256;      // viewBox units per axis
+const HIT_RADIUS = 10; // How close (in viewBox units) a press must be to grab a point
+const PATH_STEPS = 128;
+
+const CHANNEL_COLORS: Record<CurveChannel, string> = {
+  master: '#e5e7eb',
+  red: '#f87171',
+  green: '#4ade80',
+  blue: '#60a5fa',
+};
+
+function isIdentity(points: CurvePoint[]): boolean {
+  return points.length === 2 && points.every((p) => p.x === p.y);
+}
+
+/**
+ * Spline editor for settings.toneCurves. Drag a point to move it, press on
+ * the curve area to add one, and double-click a point to remove it. The end
+ * points stay at the left and right edges; inner points can't pass their
+ * neighbours.
+ */
+const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ curves, onChange, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = curves[channel];
+
+  // Pointer position as a 0-1 curve coordinate.
+  const toCurvePoint = (event: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, 1 - (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const updatePoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  const nearestPoint = (target: CurvePoint): number => {
+    let best = -1;
+    let bestDistance = HIT_RADIUS / SIZE;
+    points.forEach((p, i) => {
+      const distance = Math.hypot(p.x - target.x, p.y - target.y);
+      if (distance <= bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled || event.button !== 0) return;
+    const target = toCurvePoint(event);
+    let index = nearestPoint(target);
+    if (index < 0) {
+      const insertAt = points.findIndex((p) => p.x > target.x);
+      if (
+        points.length >= MAX_CURVE_POINTS
+        || insertAt <= 0
+        || target.x - points[insertAt - 1].x < MIN_CURVE_POINT_GAP
+        || points[insertAt].x - target.x < MIN_CURVE_POINT_GAP
+      ) {
+        return;
+      }
+      updatePoints([...points.slice(0, insertAt), target, ...points.slice(insertAt)]);
+      index = insertAt;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const { x, y } = toCurvePoint(event);
+    const last = points.length - 1;
+    const next = [...points];
+    next[dragIndex] = {
+      x: dragIndex === 0 ? 0
+        : dragIndex === last ? 1
+        : Math.min(points[dragIndex + 1].x - MIN_CURVE_POINT_GAP, Math.max(points[dragIndex - 1].x + MIN_CURVE_POINT_GAP, x)),
+      y,
+    };
+    updatePoints(next);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    setDragIndex(null);
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = nearestPoint({
+      x: (event.clientX - rect.left) / rect.width,
+      y: 1 - (event.clientY - rect.top) / rect.height,
+    });
+    if (index > 0 && index < points.length - 1) {
+      updatePoints(points.filter((_, i) => i !== index));
+    }
+  };
+
+  const path = Array.from({ length: PATH_STEPS + 1 }, (_, i) => {
+    const x = i / PATH_STEPS;
+    const y = Math.min(1, Math.max(0, evaluateCurve(points, x)));
+    return `${i === 0 ? 'M' : 'L'}${(x * SIZE).toFixed(1)},${((1 - y) * SIZE).toFixed(1)}`;
+  }).join(' ');
+  const color = CHANNEL_COLORS[channel];
+
+  return (
+    <div className={`mb-4 ${disabled ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-1 mb-2" role="tablist" aria-label="Curve channel">
+        {CURVE_CHANNELS.map((c) => (
+          <button
+            key={c}
+            type="button"
+            role="tab"
+            aria-selected={c === channel}
+            onClick={() => setChannel(c)}
+            disabled={disabled}
+            className={`px-2 py-1 text-xs rounded-md transition-colors ${
+              c === channel ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {CURVE_CHANNEL_LABELS[c]}
+            {!isIdentity(curves[c]) && <span className="ml-1 text-indigo-300">•</span>}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => updatePoints(DEFAULT_VIDEO_SETTINGS.toneCurves[channel])}
+          disabled={disabled || isIdentity(points)}
+          className="ml-auto px-2 py-1 text-xs bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          Reset {CURVE_CHANNEL_LABELS[channel]}
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className={`w-full aspect-square bg-gray-900 rounded-md touch-none select-none ${disabled ? '' : 'cursor-crosshair'}`}
+        role="img"
+        aria-label={`${CURVE_CHANNEL_LABELS[channel]} tone curve`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[0.25, 0.5, 0.75].map((t) => (
+          <g key={t} stroke="#374151" strokeWidth={1}>
+            <line x1={t * SIZE} y1={0} x2={t * SIZE} y2={SIZE} />
+            <line x1={0} y1={t * SIZE} x2={SIZE} y2={t * SIZE} />
+          </g>
+        ))}
+        <line x1={0} y1={SIZE} x2={SIZE} y2={0} stroke="#4b5563" strokeWidth={1} strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={color} strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x * SIZE}
+            cy={(1 - p.y) * SIZE}
+            r={i === dragIndex ? 6 : 4.5}
+            fill={i === dragIndex ? color : '#111827'}
+            stroke={color}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-gray-400 mt-1">
+        Drag points to shape the curve. Click to add a point (up to {MAX_CURVE_POINTS}), double-click one to remove it.
+      </p>
+    </div>
+  );
+};
+
+export default ToneCurveEditor;
@@ -1,13 +1,27 @@
 import React from 'react';
+import { LoudnessMeasurement } from '../services/loudness';
 
 interface VideoInfoProps {
   fileName: string;
   fileSize: number;
   fileType: string;
   duration?: number;
+  /** BS.1770 measurement of the whole audio track; null when there is none (or it's still measuring). */
+  loudness?: LoudnessMeasurement | null;
+  isMeasuringLoudness?: boolean;
+  /** Normalization target, when enabled, to show the gain it needs. */
+  targetLufs?: number;
 }
 
-const VideoInfo: React.FC<VideoInfoProps> = ({ fileName, fileSize, fileType, duration }) => {
+const VideoInfo: React.FC<VideoInfoProps> = ({
+  fileName,
+  fileSize,
+  fileType,
+  duration,
+  loudness,
+  isMeasuringLoudness,
+  targetLufs,
+}) => {
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -23,6 +37,9 @@ const VideoInfo: React.FC<VideoInfoProps> = ({ fileName, fileSize, fileType, dur
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatLevel = (value: number, unit: string): string =>
+    (isFinite(value) ? `${value.toFixed(1)} ${unit}` : 'Silent');
+
   const getFileExtension = (filename: string, mimeType: string): string => {
     const ext = filename.split('.').pop()?.toUpperCase();
     if (ext) return ext;
@@ -72,6 +89,34 @@ const VideoInfo: React.FC<VideoInfoProps> = ({ fileName, fileSize, fileType, dur
             <span className="text-indigo-400 font-semibold">{formatDuration(duration)}</span>
           </div>
         )}
+
+        {isMeasuringLoudness && (
+          <div className="flex justify-between items-center">
+            <span className="text-gray-400">Loudness:</span>
+            <span className="text-gray-500 text-xs">Measuring...</span>
+          </div>
+        )}
+
+        {!isMeasuringLoudness && loudness && (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-400">Loudness:</span>
+              <span className="text-indigo-400 font-semibold">{formatLevel(loudness.integratedLufs, 'LUFS')}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-400">True Peak:</span>
+              <span className="text-indigo-400 font-semibold">{formatLevel(loudness.truePeakDb, 'dBTP')}</span>
+            </div>
+            {targetLufs !== undefined && isFinite(loudness.integratedLufs) && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400" title="For the untrimmed source; the export measures its own mix">Gain to {targetLufs} LUFS:</span>
+                <span className="text-indigo-400 font-semibold">
+                  {targetLufs - loudness.integratedLufs >= 0 ? '+' : ''}{(targetLufs - loudness.integratedLufs).toFixed(1)} dB
+                </span>
+              </div>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,43 +1,247 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import { VideoSettings } from '../types';
+import { BLUR_BACKGROUND_DIM, WHITE_BALANCE_SAMPLE_SIZE } from '../constants';
+import { hasKeyframes, peakSettingValue, resolveSettingsAtTime } from '../services/keyframes';
+import { OutputGeometry, Rect, resolveOutputGeometry } from '../services/outputGeometry';
+import { speedAtSourceTime } from '../services/speedRamp';
+import { hasToneAdjustments, toneTables } from '../services/toneCurves';
+import { hasWhiteBalance, whiteBalanceMatrix } from '../services/whiteBalance';
+import { usePreviewAudioGraph } from '../hooks/usePreviewAudioGraph';
+import { usePreviewLut } from '../hooks/usePreviewLut';
+import PreviewControls from './PreviewControls';
 
 interface VideoPlayerProps {
   src: string | null;
   settings: VideoSettings;
   isOriginal?: boolean;
+  /** Called with the playhead position (source seconds) as the preview plays or seeks. */
+  onTimeUpdate?: (seconds: number) => void;
+  /** Called with the compressor's current gain reduction (dB, 0 or negative) while it is enabled. */
+  onGainReduction?: (db: number) => void;
+  /**
+   * While set, clicking the video samples the source colour under the pointer
+   * (0-1 RGB, before any effect) and passes it here instead of using the controls.
+   */
+  onPickColor?: (rgb: [number, number, number]) => void;
 }
 
-export function buildCssFilterString(settings: VideoSettings): string {
-  const parts: string[] = [
+/**
+ * The preview's CSS filter for `settings`. `svgFilterPrefix` names the SVG
+ * filters for the stages CSS lacks, as rendered by VideoPlayer: white balance
+ * before brightness, then the levels, curves and unsharp mask after
+ * hue-rotate, as in export.
+ */
+export function buildCssFilterString(settings: VideoSettings, svgFilterPrefix?: string): string {
+  const parts: string[] = [];
+  if (svgFilterPrefix && hasWhiteBalance(settings)) parts.push(`url(#${svgFilterPrefix}-white-balance)`);
+  parts.push(
     `brightness(${settings.brightness}%)`,
     `contrast(${settings.contrast}%)`,
     `saturate(${settings.saturation}%)`,
-  ];
+  );
   if (settings.hueRotate !== 0) parts.push(`hue-rotate(${settings.hueRotate}deg)`);
+  if (svgFilterPrefix && hasToneAdjustments(settings)) parts.push(`url(#${svgFilterPrefix}-tone)`);
+  if (svgFilterPrefix && settings.sharpenAmount > 0) parts.push(`url(#${svgFilterPrefix}-sharpen)`);
   if (settings.blur > 0) parts.push(`blur(${settings.blur}px)`);
   if (settings.sepia > 0) parts.push(`sepia(${settings.sepia}%)`);
   if (settings.grayscale > 0) parts.push(`grayscale(${settings.grayscale}%)`);
   return parts.join(' ');
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, settings, isOriginal = false }) => {
+// Places `rect` (in a `width` x `height` space) as percentages of its container.
+function percentRect(rect: Rect, width: number, height: number): React.CSSProperties {
+  return {
+    left: `${(rect.x / width) * 100}%`,
+    top: `${(rect.y / height) * 100}%`,
+    width: `${(rect.width / width) * 100}%`,
+    height: `${(rect.height / height) * 100}%`,
+  };
+}
+
+// Sizes the rotated source frame inside its container so that `sourceRect`
+// exactly fills the container.
+function sourceRectStyle(geometry: OutputGeometry, sourceRect: Rect): React.CSSProperties {
+  const { frameWidth, frameHeight } = geometry;
+  return {
+    left: `${(-sourceRect.x / sourceRect.width) * 100}%`,
+    top: `${(-sourceRect.y / sourceRect.height) * 100}%`,
+    width: `${(frameWidth / sourceRect.width) * 100}%`,
+    height: `${(frameHeight / sourceRect.height) * 100}%`,
+  };
+}
+
+// feComponentTransfer table that zeroes detail below the unsharp mask's
+// threshold. Detail is stored as 0.5 + (original - blurred) / 2.
+function sharpenThresholdTable(threshold: number): string {
+  return Array.from({ length: 256 }, (_, i) => {
+    const value = i / 255;
+    return Math.abs(value - 0.5) * 2 * 255 < threshold ? 0.5 : value.toFixed(4);
+  }).join(' ');
+}
+
+// Averages the source pixels around (x, y), in video pixels, as 0-1 RGB.
+function sampleVideoColor(video: HTMLVideoElement, x: number, y: number): [number, number, number] | null {
+  const size = WHITE_BALANCE_SAMPLE_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  const left = Math.min(video.videoWidth - size, Math.max(0, Math.round(x - size / 2)));
+  const top = Math.min(video.videoHeight - size, Math.max(0, Math.round(y - size / 2)));
+  ctx.drawImage(video, left, top, size, size, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const count = size * size * 255;
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+}
+
+// Rotates the video element to fill its (rotated frame) container.
+function rotatedVideoStyle(geometry: OutputGeometry): React.CSSProperties {
+  const { rotation, sourceWidth, sourceHeight, frameWidth, frameHeight } = geometry;
+  return {
+    left: '50%',
+    top: '50%',
+    width: `${(sourceWidth / frameWidth) * 100}%`,
+    height: `${(sourceHeight / frameHeight) * 100}%`,
+    transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+    objectFit: 'fill',
+  };
+}
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, settings, isOriginal = false, onTimeUpdate, onGainReduction, onPickColor }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const backgroundRef = useRef<HTMLVideoElement>(null);
+  const vignetteRef = useRef<HTMLDivElement>(null);
+  const lutCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  usePreviewAudioGraph(videoRef, src, settings, !isOriginal, onGainReduction);
+  const lutActive = usePreviewLut(videoRef, lutCanvasRef, src, settings, !isOriginal);
+  // useId's colons aren't valid in a url(#...) reference.
+  const svgFilterPrefix = `filter-${useId().replace(/:/g, '')}`;
+  const toneTableValues = useMemo(
+    () => hasToneAdjustments(settings)
+      ? toneTables(settings).map((table) => Array.from(table, (v) => v.toFixed(4)).join(' '))
+      : null,
+    [settings]
+  );
+  let whiteBalanceValues: string | null = null;
+  if (hasWhiteBalance(settings)) {
+    const [r, , , , g, , , , b] = whiteBalanceMatrix(settings.temperature, settings.tint);
+    whiteBalanceValues = `${r} 0 0 0 0  0 ${g} 0 0 0  0 0 ${b} 0 0  0 0 0 1 0`;
+  }
+  const thresholdTable = settings.sharpenAmount > 0 && settings.sharpenThreshold > 0
+    ? sharpenThresholdTable(settings.sharpenThreshold)
+    : null;
+
+  // Applies the (possibly keyframe-resolved) animatable settings to the preview elements.
+  const applyAnimatedSettings = (frameSettings: VideoSettings) => {
+    if (videoRef.current) {
+      videoRef.current.style.filter = buildCssFilterString(frameSettings, svgFilterPrefix);
+      videoRef.current.volume = frameSettings.volume / 100;
+    }
+    if (lutCanvasRef.current) {
+      lutCanvasRef.current.style.filter = buildCssFilterString(frameSettings, svgFilterPrefix);
+    }
+    if (backgroundRef.current) {
+      backgroundRef.current.style.filter =
+        `${buildCssFilterString(frameSettings, svgFilterPrefix)} blur(12px) brightness(${BLUR_BACKGROUND_DIM * 100}%)`;
+    }
+    if (vignetteRef.current) {
+      vignetteRef.current.style.opacity = String(frameSettings.vignette / 100);
+    }
+  };
 
   useEffect(() => {
     if (videoRef.current && src) {
       if (isOriginal) {
         videoRef.current.style.filter = 'none';
-        videoRef.current.style.transform = 'none';
         videoRef.current.playbackRate = 1.0;
         videoRef.current.volume = 1.0;
       } else {
-        videoRef.current.style.filter = buildCssFilterString(settings);
-        videoRef.current.style.transform = settings.flipHorizontal ? 'scaleX(-1)' : 'none';
         videoRef.current.playbackRate = settings.playbackSpeed;
-        videoRef.current.volume = settings.volume / 100;
       }
     }
-  }, [src, settings, isOriginal]);
+    if (backgroundRef.current) {
+      backgroundRef.current.playbackRate = settings.playbackSpeed;
+    }
+    if (isOriginal || !src) return;
+
+    const animated = hasKeyframes(settings);
+    const variableSpeed = (settings.speedRanges?.length ?? 0) > 0;
+    if (!animated) applyAnimatedSettings(settings);
+    if (!animated && !variableSpeed) return;
+    // Keyframed settings and speed ranges follow the playhead on every animation frame.
+    let frameId = 0;
+    const tick = () => {
+      const time = videoRef.current?.currentTime ?? 0;
+      if (animated) applyAnimatedSettings(resolveSettingsAtTime(settings, time));
+      if (variableSpeed) {
+        const speed = speedAtSourceTime(settings, time);
+        if (videoRef.current) videoRef.current.playbackRate = speed;
+        if (backgroundRef.current) backgroundRef.current.playbackRate = speed;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frameId);
+  }, [src, settings, isOriginal, sourceSize]);
+
+  // Output framing (crop, target aspect ratio, fit mode) for the modified preview.
+  const geometry = !isOriginal && sourceSize
+    ? resolveOutputGeometry(settings, sourceSize.width, sourceSize.height)
+    : null;
+  // Native controls would be clipped, turned or mirrored with the frame, or hidden
+  // under the LUT canvas; PreviewControls stand in for them outside the frame.
+  const showsFullSource = !geometry
+    || (geometry.rotation === 0
+      && geometry.sourceRect.width >= geometry.frameWidth && geometry.sourceRect.height >= geometry.frameHeight);
+  const nativeControls = showsFullSource
+    && !onPickColor
+    && (isOriginal || (!settings.flipHorizontal && !settings.flipVertical && !settings.lut));
+
+  // Keeps the blurred backdrop roughly in step with the main preview.
+  const syncBackground = () => {
+    const video = videoRef.current;
+    if (video) onTimeUpdate?.(video.currentTime);
+    const background = backgroundRef.current;
+    if (!video || !background) return;
+    if (Math.abs(background.currentTime - video.currentTime) > 0.25) {
+      background.currentTime = video.currentTime;
+    }
+    if (video.paused !== background.paused) {
+      if (video.paused) background.pause();
+      else background.play().catch(() => { /* autoplay may be blocked */ });
+    }
+  };
+
+  // Maps the click to source pixels. offsetX/Y are in the video element's own
+  // (unrotated, unflipped) box; without an output geometry the frame is
+  // letterboxed inside it by object-contain.
+  const handlePickClick = (event: React.MouseEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    if (!onPickColor || !video.videoWidth || !video.videoHeight) return;
+    const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+    let { offsetX, offsetY } = event.nativeEvent;
+    let scaleX = videoWidth / clientWidth;
+    let scaleY = videoHeight / clientHeight;
+    if (!geometry) {
+      const scale = Math.max(scaleX, scaleY);
+      offsetX -= (clientWidth - videoWidth / scale) / 2;
+      offsetY -= (clientHeight - videoHeight / scale) / 2;
+      scaleX = scaleY = scale;
+    }
+    const x = offsetX * scaleX;
+    const y = offsetY * scaleY;
+    if (x < 0 || y < 0 || x >= videoWidth || y >= videoHeight) return;
+    const color = sampleVideoColor(video, x, y);
+    if (color) onPickColor(color);
+  };
 
   if (!src) {
     return (
@@ -48,28 +252,137 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, settings, isOriginal = f
   }
 
   // Vignette is rendered as an overlay since CSS filter doesn't include it.
-  const vignetteOpacity = !isOriginal && settings.vignette > 0 ? settings.vignette / 100 : 0;
+  // Its opacity is set by applyAnimatedSettings.
+  const showVignette = !isOriginal && peakSettingValue(settings, 'vignette') > 0;
+
+  const outputAspect = geometry ? geometry.width / geometry.height : 16 / 9;
+  const frameStyle: React.CSSProperties = geometry
+    ? {
+        aspectRatio: `${geometry.width} / ${geometry.height}`,
+        ...(outputAspect > 16 / 9 ? { width: '100%' } : { height: '100%' }),
+      }
+    : { width: '100%', height: '100%' };
+  if (!isOriginal && (settings.flipHorizontal || settings.flipVertical)) {
+    frameStyle.transform = `scale(${settings.flipHorizontal ? -1 : 1}, ${settings.flipVertical ? -1 : 1})`;
+  }
 
   return (
-    <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden shadow-xl">
-      <video
-        ref={videoRef}
-        src={src}
-        controls
-        className="w-full h-full object-contain"
-        loop
-        autoPlay
-        muted
-      />
-      {vignetteOpacity > 0 && (
-        <div
-          aria-hidden="true"
-          className="pointer-events-none absolute inset-0"
-          style={{
-            background: `radial-gradient(ellipse at center, rgba(0,0,0,0) 50%, rgba(0,0,0,${vignetteOpacity}) 100%)`,
-          }}
-        />
+    <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden shadow-xl flex items-center justify-center">
+      {/* White balance, levels, curves and sharpening, referenced from the CSS
+          filter. feComponentTransfer interpolates between table entries like
+          the export's texture lookup. */}
+      {!isOriginal && (whiteBalanceValues || toneTableValues || settings.sharpenAmount > 0) && (
+        <svg aria-hidden="true" width="0" height="0" className="absolute">
+          {whiteBalanceValues && (
+            <filter id={`${svgFilterPrefix}-white-balance`} colorInterpolationFilters="sRGB">
+              <feColorMatrix type="matrix" values={whiteBalanceValues} />
+            </filter>
+          )}
+          {toneTableValues && (
+            <filter id={`${svgFilterPrefix}-tone`} colorInterpolationFilters="sRGB">
+              <feComponentTransfer>
+                <feFuncR type="table" tableValues={toneTableValues[0]} />
+                <feFuncG type="table" tableValues={toneTableValues[1]} />
+                <feFuncB type="table" tableValues={toneTableValues[2]} />
+              </feComponentTransfer>
+            </filter>
+          )}
+          {/* Unsharp mask. Composited results can't go negative or drop their
+              alpha, so the detail is kept around 0.5 by mixing the original
+              with the inverted blur, then scaled back up. */}
+          {settings.sharpenAmount > 0 && (
+            <filter id={`${svgFilterPrefix}-sharpen`} colorInterpolationFilters="sRGB" x="0" y="0" width="1" height="1">
+              <feGaussianBlur in="SourceGraphic" stdDeviation={settings.sharpenRadius} edgeMode="duplicate" />
+              <feComponentTransfer result="inverted">
+                <feFuncR type="linear" slope={-1} intercept={1} />
+                <feFuncG type="linear" slope={-1} intercept={1} />
+                <feFuncB type="linear" slope={-1} intercept={1} />
+              </feComponentTransfer>
+              <feComposite in="SourceGraphic" in2="inverted" operator="arithmetic" k2={0.5} k3={0.5} result="detail" />
+              {thresholdTable && (
+                <feComponentTransfer in="detail" result="detail">
+                  <feFuncR type="table" tableValues={thresholdTable} />
+                  <feFuncG type="table" tableValues={thresholdTable} />
+                  <feFuncB type="table" tableValues={thresholdTable} />
+                </feComponentTransfer>
+              )}
+              <feComposite
+                in="SourceGraphic"
+                in2="detail"
+                operator="arithmetic"
+                k2={1}
+                k3={(2 * settings.sharpenAmount) / 100}
+                k4={-settings.sharpenAmount / 100}
+              />
+            </filter>
+          )}
+        </svg>
       )}
+      <div className="relative overflow-hidden bg-black" style={frameStyle}>
+        {geometry?.backgroundSourceRect && (
+          <div aria-hidden="true" className="absolute inset-0 overflow-hidden">
+            <div className="absolute" style={sourceRectStyle(geometry, geometry.backgroundSourceRect)}>
+              <video
+                ref={backgroundRef}
+                src={src}
+                className="absolute max-w-none"
+                style={rotatedVideoStyle(geometry)}
+                loop
+                autoPlay
+                muted
+              />
+            </div>
+          </div>
+        )}
+        <div
+          className="absolute overflow-hidden"
+          style={geometry ? percentRect(geometry.contentRect, geometry.width, geometry.height) : { inset: 0 }}
+        >
+          <div className="absolute" style={geometry ? sourceRectStyle(geometry, geometry.sourceRect) : { inset: 0 }}>
+            <video
+              ref={videoRef}
+              src={src}
+              controls={nativeControls}
+              className={`${geometry ? 'absolute max-w-none' : 'w-full h-full object-contain'} ${onPickColor ? 'cursor-crosshair' : ''}`}
+              style={geometry ? rotatedVideoStyle(geometry) : undefined}
+              onClick={onPickColor ? handlePickClick : undefined}
+              loop
+              autoPlay
+              muted
+              onLoadedMetadata={(e) => {
+                const { videoWidth, videoHeight } = e.currentTarget;
+                setSourceSize(videoWidth && videoHeight ? { width: videoWidth, height: videoHeight } : null);
+              }}
+              onPlay={syncBackground}
+              onPause={syncBackground}
+              onSeeked={syncBackground}
+              onTimeUpdate={syncBackground}
+            />
+            {/* The LUT-graded copy of the video, under the same CSS filters. It
+                lets clicks through to the video for the eyedropper. */}
+            {!isOriginal && settings.lut && (
+              <canvas
+                ref={lutCanvasRef}
+                aria-hidden="true"
+                className={`pointer-events-none ${geometry ? 'absolute max-w-none' : 'absolute inset-0 w-full h-full object-contain'}`}
+                style={{ ...(geometry ? rotatedVideoStyle(geometry) : undefined), visibility: lutActive ? 'visible' : 'hidden' }}
+              />
+            )}
+          </div>
+        </div>
+        {showVignette && (
+          <div
+            ref={vignetteRef}
+            aria-hidden="true"
+            className="pointer-events-none absolute inset-0"
+            style={{
+              background: 'radial-gradient(ellipse at center, rgba(0,0,0,0) 50%, rgba(0,0,0,1) 100%)',
+              opacity: settings.vignette / 100,
+            }}
+          />
+        )}
+      </div>
+      {!nativeControls && <PreviewControls videoRef={videoRef} src={src} />}
     </div>
   );
 };
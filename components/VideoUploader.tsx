@@ -10,7 +10,8 @@ interface VideoUploaderProps {
   enableClipboardPaste?: boolean;
 }
 
-function validateFile(file: File): string | null {
+/** Size and type checks shared by the uploader and the clip list; returns an error message or null. */
+export function validateVideoFile(file: File): string | null {
   if (file.size > MAX_FILE_SIZE) {
     const sizeMB = (file.size / (1024 * 1024)).toFixed(2);
     return `File is too large (${sizeMB}MB). Maximum allowed size is ${MAX_FILE_SIZE_MB}MB. Please choose a smaller video file.`;
@@ -31,7 +32,7 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({
   const [isDragOver, setIsDragOver] = useState(false);
 
   const acceptFile = useCallback((file: File) => {
-    const error = validateFile(file);
+    const error = validateVideoFile(file);
     if (error) {
       onFileError(error);
       return;
@@ -1,26 +1,106 @@
-import { VideoSettings } from './types';
+import {
+  AnimatableSettingKey,
+  AudioOutputFormat,
+  CurveChannel,
+  EqBandCount,
+  EqGainKey,
+  KeyframeEasing,
+  LutInterpolation,
+  OutputFitMode,
+  OutputFrameRate,
+  PlaybackDirection,
+  VideoOutputFormat,
+  VideoRotation,
+  VideoSettings,
+} from './types';
 
 export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
   brightness: 100,
   contrast: 100,
   saturation: 100,
   hueRotate: 0,
+  lut: null,
+  lutIntensity: 100,
+  lutInterpolation: 'tetrahedral',
+  temperature: 0,
+  tint: 0,
+  levelsInputBlack: 0,
+  levelsInputWhite: 255,
+  levelsGamma: 1,
+  levelsOutputBlack: 0,
+  levelsOutputWhite: 255,
+  toneCurves: {
+    master: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+    red: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+    green: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+    blue: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+  },
+  sharpenAmount: 0,
+  sharpenRadius: 1,
+  sharpenThreshold: 0,
   blur: 0,
   sepia: 0,
   grayscale: 0,
   vignette: 0,
   playbackSpeed: 1.0,
+  speedRanges: [],
+  speedRampSeconds: 0,
+  playbackDirection: 'forward',
   volume: 100,
   audioPreservesPitch: true,
+  pitchSemitones: 0,
   audioFadeInSeconds: 0,
   audioFadeOutSeconds: 0,
+  eqBandCount: 3,
+  eqLowGain: 0,
+  eqLowMidGain: 0,
+  eqMidGain: 0,
+  eqHighMidGain: 0,
+  eqHighGain: 0,
+  lowCutHz: 0,
+  highCutHz: 0,
+  compressorEnabled: false,
+  compressorThresholdDb: -24,
+  compressorRatio: 4,
+  compressorAttackMs: 5,
+  compressorReleaseMs: 250,
+  compressorMakeupDb: 0,
+  limiterEnabled: false,
+  limiterCeilingDb: -1,
+  normalizeLoudness: false,
+  targetLufs: -14,
+  truePeakCeilingDb: -1,
+  musicVolume: 30,
+  musicLoop: true,
+  musicTrimStartSeconds: null,
+  musicTrimEndSeconds: null,
+  musicDucking: true,
+  duckingThresholdDb: -35,
+  duckingAmountDb: 12,
   flipHorizontal: false,
+  flipVertical: false,
+  rotation: 0,
   enableRotatingLines: false,
-  enablePixelNoise: false,
+  grainAmount: 0,
+  grainSize: 1.5,
+  grainColor: false,
+  grainLuminanceResponse: 50,
+  seed: 1,
+  outputWidth: 0,
+  outputHeight: 0,
+  cropLeft: 0,
+  cropTop: 0,
+  cropWidth: 100,
+  cropHeight: 100,
+  fitMode: 'letterbox',
   trimStartSeconds: null,
   trimEndSeconds: null,
+  keepRanges: [],
+  spliceFadeSeconds: 0,
   outputFormat: 'webm-vp8',
   outputBitrateKbps: 0,
+  outputFrameRate: 'source',
+  keyframes: {},
 };
 
 export const APP_TITLE = "Video Stealth Modifier";
@@ -46,15 +126,55 @@ export const SETTINGS_RANGES = {
   contrast: { min: 0, max: 200 },
   saturation: { min: 0, max: 200 },
   hueRotate: { min: -180, max: 180 },
+  lutIntensity: { min: 0, max: 100 },
+  temperature: { min: -100, max: 100 },
+  tint: { min: -100, max: 100 },
+  levelsInputBlack: { min: 0, max: 254 },
+  levelsInputWhite: { min: 1, max: 255 },
+  levelsGamma: { min: 0.1, max: 5 },
+  levelsOutputBlack: { min: 0, max: 255 },
+  levelsOutputWhite: { min: 0, max: 255 },
+  sharpenAmount: { min: 0, max: 300 },
+  sharpenRadius: { min: 0.5, max: 5 },
+  sharpenThreshold: { min: 0, max: 255 },
   blur: { min: 0, max: 10 },
   sepia: { min: 0, max: 100 },
   grayscale: { min: 0, max: 100 },
   vignette: { min: 0, max: 100 },
   playbackSpeed: { min: 0.5, max: 2.0 },
+  speedRangeSpeed: { min: 0.25, max: 4.0 },
+  speedRampSeconds: { min: 0, max: 5 },
   volume: { min: 0, max: 100 },
+  pitchSemitones: { min: -12, max: 12 },
   audioFadeInSeconds: { min: 0, max: 10 },
   audioFadeOutSeconds: { min: 0, max: 10 },
+  eqGain: { min: -12, max: 12 }, // Every eqXxxGain setting
+  lowCutHz: { min: 0, max: 500 },
+  highCutHz: { min: 0, max: 20000 },
+  compressorThresholdDb: { min: -60, max: 0 },
+  compressorRatio: { min: 1, max: 20 },
+  compressorAttackMs: { min: 0, max: 1000 },
+  compressorReleaseMs: { min: 0, max: 1000 },
+  compressorMakeupDb: { min: 0, max: 24 },
+  limiterCeilingDb: { min: -12, max: 0 },
+  targetLufs: { min: -30, max: -5 },
+  truePeakCeilingDb: { min: -6, max: 0 },
+  musicVolume: { min: 0, max: 100 },
+  duckingThresholdDb: { min: -60, max: 0 },
+  duckingAmountDb: { min: 0, max: 30 },
+  spliceFadeSeconds: { min: 0, max: 2 },
+  grainAmount: { min: 0, max: 100 },
+  grainSize: { min: 1, max: 5 },
+  grainLuminanceResponse: { min: 0, max: 100 },
+  seed: { min: 0, max: 2147483647 },
   outputBitrateKbps: { min: 0, max: 50000 },
+  rotation: { min: 0, max: 270 }, // Snapped to a multiple of 90
+  outputWidth: { min: 0, max: 7680 },
+  outputHeight: { min: 0, max: 4320 },
+  cropLeft: { min: 0, max: 99 },
+  cropTop: { min: 0, max: 99 },
+  cropWidth: { min: 1, max: 100 },
+  cropHeight: { min: 1, max: 100 },
 } as const;
 
 // Settings presets for quick application
@@ -65,7 +185,8 @@ export const SETTINGS_PRESETS: Record<string, VideoSettings> = {
     brightness: 105,
     contrast: 102,
     saturation: 98,
-    enablePixelNoise: true,
+    grainAmount: 10,
+    grainSize: 1,
   },
   vintage: {
     ...DEFAULT_VIDEO_SETTINGS,
@@ -75,7 +196,9 @@ export const SETTINGS_PRESETS: Record<string, VideoSettings> = {
     sepia: 35,
     playbackSpeed: 0.95,
     volume: 95,
-    enablePixelNoise: true,
+    grainAmount: 40,
+    grainSize: 2,
+    grainLuminanceResponse: 70,
     vignette: 25,
   },
   dramatic: {
@@ -102,7 +225,8 @@ export const SETTINGS_PRESETS: Record<string, VideoSettings> = {
     saturation: 115,
     playbackSpeed: 1.2,
     enableRotatingLines: true,
-    enablePixelNoise: true,
+    grainAmount: 20,
+    grainColor: true,
     audioPreservesPitch: false,
   },
   noir: {
@@ -122,17 +246,38 @@ export const SETTINGS_PRESETS: Record<string, VideoSettings> = {
     audioFadeInSeconds: 1,
     audioFadeOutSeconds: 1.5,
   },
+  crisp: {
+    ...DEFAULT_VIDEO_SETTINGS,
+    contrast: 105,
+    sharpenAmount: 80,
+    sharpenRadius: 1.2,
+    sharpenThreshold: 3,
+  },
+  dialogue: {
+    ...DEFAULT_VIDEO_SETTINGS,
+    lowCutHz: 80,
+    compressorEnabled: true,
+    compressorThresholdDb: -28,
+    compressorRatio: 4,
+    compressorAttackMs: 5,
+    compressorReleaseMs: 200,
+    compressorMakeupDb: 8,
+    limiterEnabled: true,
+    limiterCeilingDb: -1,
+  },
 } as const;
 
 export const PRESET_DESCRIPTIONS: Record<string, string> = {
   default: 'Original settings with no modifications',
-  subtle: 'Barely noticeable changes with minimal pixel noise',
-  vintage: 'Old film look: sepia, lower saturation, slight vignette',
+  subtle: 'Barely noticeable changes with fine, light film grain',
+  vintage: 'Old film look: sepia, lower saturation, coarse film grain, slight vignette',
   dramatic: 'High contrast and brightness with rotating lines',
   cinematic: 'Film-like quality with reduced saturation, slow pace, vignette',
   energetic: 'Vibrant colors, faster speed, and dynamic effects',
   noir: 'Black & white, high contrast, heavy vignette',
   dreamy: 'Soft blur, warm tone, gentle audio fades',
+  crisp: 'Unsharp mask to restore detail in soft, downscaled or re-encoded footage',
+  dialogue: 'Evens out speech: rumble cut, compression and a limiter; picture unchanged',
 };
 
 // Custom (user-defined) preset storage
@@ -145,20 +290,214 @@ export const OUTPUT_FORMAT_MIME_TYPES: Record<VideoSettings['outputFormat'], str
   'webm-vp8': ['video/webm;codecs=vp8,opus', 'video/webm'],
   'webm-vp9': ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp9', 'video/webm'],
   'mp4-h264': ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=h264,aac', 'video/mp4'],
+  'webm-opus': ['audio/webm;codecs=opus', 'audio/webm'],
+  'ogg-opus': ['audio/ogg;codecs=opus', 'audio/ogg'],
+  'wav': ['audio/wav'], // Always written by encodeWav, never by MediaRecorder
 };
 
 export const OUTPUT_FORMAT_LABELS: Record<VideoSettings['outputFormat'], string> = {
   'webm-vp8': 'WEBM (VP8 + Opus)',
   'webm-vp9': 'WEBM (VP9 + Opus)',
   'mp4-h264': 'MP4 (H.264 + AAC)',
+  'webm-opus': 'WEBM audio only (Opus)',
+  'ogg-opus': 'OGG audio only (Opus)',
+  'wav': 'WAV audio only (16-bit PCM)',
 };
 
 export const OUTPUT_FORMAT_EXTENSIONS: Record<VideoSettings['outputFormat'], string> = {
   'webm-vp8': 'webm',
   'webm-vp9': 'webm',
   'mp4-h264': 'mp4',
+  'webm-opus': 'webm',
+  'ogg-opus': 'ogg',
+  'wav': 'wav',
+};
+
+// Formats without a video track, in the order shown in the selector.
+export const AUDIO_OUTPUT_FORMATS: AudioOutputFormat[] = ['webm-opus', 'ogg-opus', 'wav'];
+
+// Output frame rate choices, in the order shown in the selector.
+export const OUTPUT_FRAME_RATE_OPTIONS: OutputFrameRate[] = ['source', 24, 25, 30, 50, 60];
+
+export const OUTPUT_FRAME_RATE_LABELS: Record<OutputFrameRate, string> = {
+  source: 'Match source',
+  24: '24 fps (film)',
+  25: '25 fps (PAL)',
+  30: '30 fps',
+  50: '50 fps',
+  60: '60 fps',
+};
+
+export const VIDEO_ROTATION_OPTIONS: VideoRotation[] = [0, 90, 180, 270];
+
+// Target resolution shortcuts. 0 x 0 keeps the (cropped) source size.
+export const OUTPUT_RESOLUTION_PRESETS: Array<{ label: string; width: number; height: number }> = [
+  { label: 'Source size', width: 0, height: 0 },
+  { label: '1920 × 1080 (1080p)', width: 1920, height: 1080 },
+  { label: '1280 × 720 (720p)', width: 1280, height: 720 },
+  { label: '1080 × 1920 (vertical)', width: 1080, height: 1920 },
+  { label: '1080 × 1080 (square)', width: 1080, height: 1080 },
+  { label: '1080 × 1350 (4:5)', width: 1080, height: 1350 },
+];
+
+export const LUT_INTERPOLATION_LABELS: Record<LutInterpolation, string> = {
+  tetrahedral: 'Tetrahedral (smoother)',
+  trilinear: 'Trilinear',
+};
+
+// Largest .cube grid accepted. A 65-point LUT takes about 2 MB of base64.
+export const LUT_MAX_SIZE = 65;
+// Longest LUT data (base64 characters) saved to localStorage with the settings
+// and presets: up to 33 points. Larger LUTs would use up the ~5 MB quota, so
+// they only last for the session.
+export const LUT_MAX_STORED_DATA_LENGTH = 512 * 1024;
+
+// White balance gains at the ends of the sliders, in stops (powers of two):
+// temperature ±100 scales red and blue by 2^±0.5 in opposite directions,
+// tint ±100 scales green by 2^∓0.35.
+export const WHITE_BALANCE_TEMPERATURE_STOPS = 0.5;
+export const WHITE_BALANCE_TINT_STOPS = 0.35;
+// The eyedropper averages this many source pixels square around the click,
+// and ignores samples with a channel darker than the minimum (0-1).
+export const WHITE_BALANCE_SAMPLE_SIZE = 5;
+export const WHITE_BALANCE_MIN_SAMPLE = 0.02;
+
+// Largest grain deviation, on a 0-1 scale, at grainAmount 100.
+export const FILM_GRAIN_STRENGTH = 0.2;
+// grainAmount given to settings saved with the old pixel-noise toggle on.
+export const LEGACY_PIXEL_NOISE_GRAIN_AMOUNT = 10;
+
+export const CURVE_CHANNEL_LABELS: Record<CurveChannel, string> = {
+  master: 'RGB',
+  red: 'Red',
+  green: 'Green',
+  blue: 'Blue',
 };
 
+export const TONE_TABLE_SIZE = 256;       // Entries per channel in the levels + curves lookup table
+export const MIN_CURVE_POINT_GAP = 0.02;  // Closest two curve points may sit, in input units
+export const MAX_CURVE_POINTS = 16;       // Per channel, including both ends
+
+export const OUTPUT_FIT_MODE_LABELS: Record<OutputFitMode, string> = {
+  letterbox: 'Letterbox (black bars)',
+  fill: 'Fill (crop to fit)',
+  blur: 'Blurred background',
+};
+
+export const PLAYBACK_DIRECTION_LABELS: Record<PlaybackDirection, string> = {
+  forward: 'Forward',
+  reverse: 'Reverse',
+  pingpong: 'Ping-pong (forward, then reverse)',
+};
+
+// Blurred-background fit: the backdrop is rendered from a copy this many
+// pixels wide, then scaled up, and dimmed by BLUR_BACKGROUND_DIM.
+export const BLUR_BACKGROUND_SAMPLES = 32;
+export const BLUR_BACKGROUND_DIM = 0.6;
+
+// Keyframe animation
+export const ANIMATABLE_SETTING_LABELS: Record<AnimatableSettingKey, string> = {
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  saturation: 'Saturation',
+  hueRotate: 'Hue Rotate',
+  blur: 'Blur',
+  sepia: 'Sepia',
+  grayscale: 'Grayscale',
+  vignette: 'Vignette',
+  volume: 'Volume',
+};
+
+export const KEYFRAME_EASING_LABELS: Record<KeyframeEasing, string> = {
+  linear: 'Linear',
+  ease: 'Ease in/out',
+};
+
+export const KEYFRAME_TIME_TOLERANCE_SECONDS = 0.05; // Keyframes closer than this are treated as the same one
+export const AUDIO_AUTOMATION_RATE = 100; // Gain curve points per second for animated volume
+
+// Equalizer bands, lowest first: shelves at both ends, peaking filters in between.
+export const EQ_BANDS: Record<EqBandCount, Array<{ key: EqGainKey; label: string; type: BiquadFilterType; frequency: number }>> = {
+  3: [
+    { key: 'eqLowGain', label: 'Low (200 Hz)', type: 'lowshelf', frequency: 200 },
+    { key: 'eqMidGain', label: 'Mid (1 kHz)', type: 'peaking', frequency: 1000 },
+    { key: 'eqHighGain', label: 'High (5 kHz)', type: 'highshelf', frequency: 5000 },
+  ],
+  5: [
+    { key: 'eqLowGain', label: 'Low (80 Hz)', type: 'lowshelf', frequency: 80 },
+    { key: 'eqLowMidGain', label: 'Low-mid (300 Hz)', type: 'peaking', frequency: 300 },
+    { key: 'eqMidGain', label: 'Mid (1 kHz)', type: 'peaking', frequency: 1000 },
+    { key: 'eqHighMidGain', label: 'High-mid (3.5 kHz)', type: 'peaking', frequency: 3500 },
+    { key: 'eqHighGain', label: 'High (10 kHz)', type: 'highshelf', frequency: 10000 },
+  ],
+};
+export const EQ_PEAKING_Q = 1; // About 1.4 octaves wide
+export const AUDIO_CUT_FILTER_Q = Math.SQRT1_2; // Butterworth: flat passband, no resonance
+
+// Loudness measurement (ITU-R BS.1770-4) and the normalization limiter
+export const LOUDNESS_BLOCK_SECONDS = 0.4; // Gating block length
+export const LOUDNESS_BLOCK_STEP_SECONDS = 0.1; // Blocks overlap by 75%
+export const LOUDNESS_ABSOLUTE_GATE_LUFS = -70;
+export const LOUDNESS_RELATIVE_GATE_LU = 10; // Below the absolute-gated loudness
+export const TRUE_PEAK_OVERSAMPLING = 4;
+export const TRUE_PEAK_CHUNK_SECONDS = 10; // Audio oversampled at a time while measuring the true peak
+export const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+export const LIMITER_RELEASE_SECONDS = 0.05;
+export const COMPRESSOR_KNEE_DB = 6; // Soft knee around the threshold
+export const GAIN_REDUCTION_METER_INTERVAL_MS = 100; // How often the preview reports compressor gain reduction
+export const GAIN_REDUCTION_METER_RANGE_DB = 24; // Full scale of the gain-reduction meter
+
+// Pitch shifter (AudioWorklet). The pitch moves by reading a delay line faster
+// or slower; whenever the read position drifts out of range it jumps back or
+// ahead by about a crossfade plus the search window, at the offset within
+// ±PITCH_SHIFTER_SEARCH_SECONDS that best matches the waveform (WSOLA), and
+// crossfades over.
+export const PITCH_SHIFTER_PROCESSOR_NAME = 'pitch-shifter';
+export const PITCH_SHIFTER_CROSSFADE_SECONDS = 0.02; // Shortened at ratios above 1 so jumps keep up
+export const PITCH_SHIFTER_SEARCH_SECONDS = 0.008;   // Covers one period down to about 125 Hz
+// Average delay through the shifter; the read position stays within about ±26 ms of it.
+export const PITCH_SHIFTER_LATENCY_SECONDS = 1.5 * PITCH_SHIFTER_CROSSFADE_SECONDS + 2 * PITCH_SHIFTER_SEARCH_SECONDS;
+export const PITCH_SHIFTER_RATIO_RANGE = { min: 0.125, max: 8 }; // Semitones and compensated speed combined
+
+// Background music ducking. The follower's level is sampled AUDIO_AUTOMATION_RATE times a second.
+export const DUCKING_DETECTOR_SECONDS = 0.05; // Time constant of the source level follower
+export const DUCKING_ATTACK_SECONDS = 0.08;   // Time constant of the music dipping once speech starts
+export const DUCKING_HOLD_SECONDS = 0.4;      // Music stays down this long after the level drops, bridging pauses between words
+export const DUCKING_RELEASE_SECONDS = 0.6;   // Time constant of the music coming back up
+
+// Cut list
+export const MIN_KEEP_RANGE_SECONDS = 0.05; // Shorter keep-ranges are dropped
+export const DEFAULT_KEEP_RANGE_SECONDS = 5; // Length of a keep-range added from the controls
+export const DEFAULT_SPEED_RANGE_SECONDS = 3; // Length of a speed range added from the controls
+export const DEFAULT_SPEED_RANGE_SPEED = 0.5; // Slow motion by default
+
+// Used when the source frame rate can't be detected (e.g. unreadable container).
+export const DEFAULT_FRAME_RATE = 30;
+
+// WebCodecs encoder configuration per output format, used by the offline
+// (faster-than-real-time) export. `videoCodecString`/`audioCodecString` are the
+// full WebCodecs codec strings; `videoCodec`/`audioCodec` name the codec for the muxer.
+export const OUTPUT_FORMAT_WEBCODECS: Record<VideoOutputFormat, {
+  container: 'webm' | 'mp4';
+  videoCodec: 'vp8' | 'vp9' | 'avc';
+  videoCodecString: string;
+  audioCodec: 'opus' | 'aac';
+  audioCodecString: string;
+}> = {
+  'webm-vp8': { container: 'webm', videoCodec: 'vp8', videoCodecString: 'vp8', audioCodec: 'opus', audioCodecString: 'opus' },
+  'webm-vp9': { container: 'webm', videoCodec: 'vp9', videoCodecString: 'vp09.00.41.08', audioCodec: 'opus', audioCodecString: 'opus' },
+  'mp4-h264': { container: 'mp4', videoCodec: 'avc', videoCodecString: 'avc1.640033', audioCodec: 'aac', audioCodecString: 'mp4a.40.2' },
+};
+
+// Offline export tuning
+export const WEBCODECS_MAX_QUEUE_SIZE = 8; // Max frames queued in the decoder/encoder before waiting
+export const WEBCODECS_KEYFRAME_INTERVAL_SECONDS = 2; // Force a key frame this often in the output
+export const WEBCODECS_AUDIO_SAMPLE_RATE = 48000; // Opus only accepts 48 kHz; AAC is fine with it too
+export const WEBCODECS_AUDIO_CHUNK_FRAMES = 4096; // Audio frames per AudioData handed to the encoder
+export const WEBCODECS_AUDIO_BITRATE = 128000; // Opus and AAC, in bits per second
+export const WEBCODECS_MAX_DECODED_AUDIO_BYTES = 1024 ** 3; // Decoded PCM plus the largest source file the offline audio render may hold (about 45 min of 48 kHz stereo)
+export const WEBCODECS_REVERSE_MAX_BUFFERED_FRAMES = 30; // Composited frames held while reversing one key-frame interval
+
 // Watermark detection constants
 export const WATERMARK_DETECTION_SAMPLE_COUNT = 5; // Minimum frames to sample
 export const WATERMARK_DETECTION_SAMPLE_INTERVAL_SECONDS = 2; // Sample every 2 seconds
@@ -0,0 +1,180 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { BatchJob, VideoSettings } from '../types';
+import { OUTPUT_FORMAT_EXTENSIONS } from '../constants';
+import { useVideoProcessor } from './useVideoProcessor';
+import { createZip } from '../services/zipWriter';
+
+function outputNameFor(file: File, mimeType: string, settings: VideoSettings): string {
+  const ext = mimeType.includes('mp4') ? 'mp4' : OUTPUT_FORMAT_EXTENSIONS[settings.outputFormat] || 'webm';
+  return `modified_${file.name.replace(/\.[^.]+$/, '') || 'video'}.${ext}`;
+}
+
+/**
+ * Renders many files one after another with a shared settings profile,
+ * through the same pipeline as a single export (useVideoProcessor).
+ */
+export function useBatchQueue() {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+
+  const processor = useVideoProcessor();
+  // The run loop outlives renders; read the latest processor callbacks and jobs through refs.
+  const processorRef = useRef(processor);
+  processorRef.current = processor;
+  const jobsRef = useRef<BatchJob[]>(jobs);
+  const stopRequestedRef = useRef(false);
+  const runningRef = useRef(false);
+
+  // Updates are computed from jobsRef so the run loop sees them immediately.
+  const commitJobs = useCallback((next: BatchJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  }, []);
+
+  const updateJob = useCallback((id: string, patch: Partial<BatchJob>) => {
+    commitJobs(jobsRef.current.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+  }, [commitJobs]);
+
+  // Revoke every result URL on unmount.
+  useEffect(() => {
+    return () => {
+      jobsRef.current.forEach((job) => job.resultUrl && URL.revokeObjectURL(job.resultUrl));
+    };
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added: BatchJob[] = files.map((file) => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file,
+      status: 'queued',
+      progress: 0,
+      error: null,
+      settings: null,
+      result: null,
+      resultUrl: null,
+      outputName: null,
+    }));
+    commitJobs([...jobsRef.current, ...added]);
+  }, [commitJobs]);
+
+  const removeJob = useCallback((id: string) => {
+    const job = jobsRef.current.find((j) => j.id === id);
+    if (!job || job.status === 'processing') return;
+    if (job.resultUrl) URL.revokeObjectURL(job.resultUrl);
+    commitJobs(jobsRef.current.filter((j) => j.id !== id));
+  }, [commitJobs]);
+
+  const clearFinished = useCallback(() => {
+    jobsRef.current.forEach((job) => job.status === 'done' && job.resultUrl && URL.revokeObjectURL(job.resultUrl));
+    commitJobs(jobsRef.current.filter((job) => job.status !== 'done'));
+  }, [commitJobs]);
+
+  const runQueue = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    stopRequestedRef.current = false;
+    setIsRunning(true);
+
+    try {
+      for (;;) {
+        const job = jobsRef.current.find((j) => j.status === 'queued' && j.settings);
+        if (!job || stopRequestedRef.current) break;
+        const settings = job.settings as VideoSettings;
+
+        setActiveJobId(job.id);
+        updateJob(job.id, { status: 'processing', progress: 0, error: null });
+        try {
+          const url = await processorRef.current.processVideo(
+            [{ id: job.id, file: job.file, trimStartSeconds: null, trimEndSeconds: null }],
+            settings
+          );
+          if (stopRequestedRef.current || !url) {
+            updateJob(job.id, { status: 'queued', progress: 0 });
+            break;
+          }
+          // Keep our own copy: the processor revokes its URL on the next run.
+          const result = await (await fetch(url)).blob();
+          processorRef.current.setProcessedVideoUrl(null);
+          updateJob(job.id, {
+            status: 'done',
+            progress: 100,
+            result,
+            resultUrl: URL.createObjectURL(result),
+            outputName: outputNameFor(job.file, result.type, settings),
+          });
+        } catch (e: any) {
+          if (stopRequestedRef.current) {
+            updateJob(job.id, { status: 'queued', progress: 0 });
+            break;
+          }
+          updateJob(job.id, { status: 'failed', progress: 0, error: e?.message || 'Unknown error' });
+        }
+      }
+    } finally {
+      runningRef.current = false;
+      setActiveJobId(null);
+      setIsRunning(false);
+    }
+  }, [updateJob]);
+
+  /** Assigns `settings` to every queued job and starts rendering them in order. */
+  const startQueue = useCallback((settings: VideoSettings) => {
+    commitJobs(jobsRef.current.map((job) => (job.status === 'queued' ? { ...job, settings: { ...settings } } : job)));
+    runQueue();
+  }, [commitJobs, runQueue]);
+
+  /** Re-queues failed jobs (all, or just `id`) with the settings they were started with. */
+  const retryFailed = useCallback((id?: string) => {
+    commitJobs(jobsRef.current.map((job) => (job.status === 'failed' && (!id || job.id === id)
+      ? { ...job, status: 'queued' as const, error: null, progress: 0 }
+      : job)));
+    runQueue();
+  }, [commitJobs, runQueue]);
+
+  /** Stops after cancelling the running job, which goes back to the queue. */
+  const stopQueue = useCallback(async () => {
+    if (!runningRef.current) return;
+    stopRequestedRef.current = true;
+    await processorRef.current.cancelProcessing();
+  }, []);
+
+  const downloadAll = useCallback(async (): Promise<Blob | null> => {
+    const finished = jobsRef.current.filter((job) => job.status === 'done' && job.result);
+    if (finished.length === 0) return null;
+    setZipError(null);
+    setIsZipping(true);
+    try {
+      return await createZip(finished.map((job) => ({
+        name: job.outputName || job.file.name,
+        data: job.result as Blob,
+      })));
+    } catch (e: any) {
+      const err = `Could not create ZIP: ${e?.message || 'Unknown error'}`;
+      console.error(err, e);
+      setZipError(err);
+      return null;
+    } finally {
+      setIsZipping(false);
+    }
+  }, []);
+
+  return {
+    jobs,
+    isRunning,
+    activeJobId,
+    activeProgress: processor.progress,
+    isCancelling: processor.isCancelling,
+    isZipping,
+    zipError,
+    addFiles,
+    removeJob,
+    clearFinished,
+    startQueue,
+    retryFailed,
+    stopQueue,
+    downloadAll,
+  };
+}
@@ -0,0 +1,151 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { VideoSettings } from '../types';
+import { GAIN_REDUCTION_METER_INTERVAL_MS } from '../constants';
+import {
+  connectInSeries,
+  createCompressorNodes,
+  createEqualizerFilters,
+  createRealtimeLimiter,
+  hasEqualizer,
+} from '../services/audioGraph';
+import { createPitchShifter, loadPitchShifter, needsPitchShifter, pitchRatio, pitchRatioParam } from '../services/pitchShift';
+
+interface PreviewAudioGraph {
+  context: AudioContext;
+  element: HTMLVideoElement;
+  source: MediaElementAudioSourceNode;
+  nodes: AudioNode[];
+}
+
+function usesAudioGraph(settings: VideoSettings): boolean {
+  return hasEqualizer(settings) || settings.compressorEnabled || settings.limiterEnabled || needsPitchShifter(settings);
+}
+
+/**
+ * Routes the preview video's sound through the same pitch shifter, equalizer,
+ * compressor and limiter the export uses (see connectAudioChain). Volume stays
+ * on the element itself. The shifter follows the element's playbackRate, and
+ * is added once its worklet has loaded. While the compressor is on, its gain reduction (dB, 0 or negative)
+ * is reported through `onGainReduction` every GAIN_REDUCTION_METER_INTERVAL_MS.
+ *
+ * The element is only handed to Web Audio once one of those stages is first
+ * used: a media element can be captured just once, so from then on it stays
+ * routed through the graph and disabled stages simply pass the sound through.
+ */
+export function usePreviewAudioGraph(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  src: string | null,
+  settings: VideoSettings,
+  enabled: boolean,
+  onGainReduction?: (db: number) => void
+): void {
+  const graphRef = useRef<PreviewAudioGraph | null>(null);
+  // Context the pitch shifter worklet has been loaded into.
+  const [shifterContext, setShifterContext] = useState<BaseAudioContext | null>(null);
+  const onGainReductionRef = useRef(onGainReduction);
+  onGainReductionRef.current = onGainReduction;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    let graph = graphRef.current;
+    // The element is replaced while the player shows its loading state.
+    if (graph && graph.element !== video) {
+      graph.context.close().catch(() => { /* already closed */ });
+      graph = graphRef.current = null;
+    }
+    if (!video) return;
+
+    if (!graph) {
+      if (!enabled || !usesAudioGraph(settings)) return;
+      try {
+        const context = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+        graph = { context, element: video, source: context.createMediaElementSource(video), nodes: [] };
+      } catch (e) {
+        console.warn('Could not route the preview audio through the export audio chain:', e);
+        return;
+      }
+      graphRef.current = graph;
+      // Contexts created outside a user gesture start suspended.
+      const context = graph.context;
+      video.addEventListener('play', () => context.resume().catch(() => { /* autoplay may be blocked */ }));
+      if (!video.paused) context.resume().catch(() => { /* autoplay may be blocked */ });
+    }
+
+    const { context } = graph;
+    graph.source.disconnect();
+    graph.nodes.forEach((node) => node.disconnect());
+    let shifter: AudioWorkletNode | null = null;
+    if (enabled && needsPitchShifter(settings)) {
+      if (shifterContext === context) {
+        shifter = createPitchShifter(context, 2, pitchRatio(settings, video.playbackRate));
+      } else {
+        loadPitchShifter(context)
+          .then(() => setShifterContext(context))
+          .catch((e) => console.warn('Could not load the pitch shifter for the preview:', e));
+      }
+    }
+    video.preservesPitch = shifter ? false : settings.audioPreservesPitch;
+    const compressorNodes = enabled ? createCompressorNodes(context, settings) : [];
+    graph.nodes = enabled
+      ? [
+          ...(shifter ? [shifter] : []),
+          ...createEqualizerFilters(context, settings),
+          ...compressorNodes,
+          ...(settings.limiterEnabled ? [createRealtimeLimiter(context, settings.limiterCeilingDb)] : []),
+        ]
+      : [];
+    connectInSeries(graph.source, graph.nodes, context.destination);
+
+    const updatePitch = () => {
+      if (shifter) pitchRatioParam(shifter).setValueAtTime(pitchRatio(settings, video.playbackRate), context.currentTime);
+    };
+    video.addEventListener('ratechange', updatePitch);
+    const compressor = compressorNodes[0] as DynamicsCompressorNode | undefined;
+    if (!compressor) {
+      onGainReductionRef.current?.(0);
+      return () => video.removeEventListener('ratechange', updatePitch);
+    }
+    let reported = 0;
+    const timer = setInterval(() => {
+      const reduction = video.paused ? 0 : compressor.reduction;
+      if (Math.abs(reduction - reported) >= 0.1 || (reduction === 0 && reported !== 0)) {
+        reported = reduction;
+        onGainReductionRef.current?.(reduction);
+      }
+    }, GAIN_REDUCTION_METER_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      video.removeEventListener('ratechange', updatePitch);
+    };
+    // Only the audio settings matter here; rebuilding on every other change would click.
+  }, [
+    src,
+    enabled,
+    shifterContext,
+    settings.audioPreservesPitch,
+    settings.pitchSemitones,
+    settings.playbackSpeed,
+    settings.speedRanges,
+    settings.eqBandCount,
+    settings.eqLowGain,
+    settings.eqLowMidGain,
+    settings.eqMidGain,
+    settings.eqHighMidGain,
+    settings.eqHighGain,
+    settings.lowCutHz,
+    settings.highCutHz,
+    settings.compressorEnabled,
+    settings.compressorThresholdDb,
+    settings.compressorRatio,
+    settings.compressorAttackMs,
+    settings.compressorReleaseMs,
+    settings.compressorMakeupDb,
+    settings.limiterEnabled,
+    settings.limiterCeilingDb,
+  ]);
+
+  useEffect(() => () => {
+    graphRef.current?.context.close().catch(() => { /* already closed */ });
+    graphRef.current = null;
+  }, []);
+}
@@ -0,0 +1,60 @@
+import { RefObject, useEffect, useState } from 'react';
+import { VideoSettings } from '../types';
+import { createLutPreviewRenderer } from '../services/glFrameRenderer';
+
+/**
+ * Mirrors the preview video onto `canvasRef` through settings.lut, redrawing
+ * on every frame the video presents. Returns true while the canvas holds the
+ * graded picture; it should only be shown then. Without WebGL2 the preview
+ * goes on without the LUT.
+ */
+export function usePreviewLut(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  src: string | null,
+  settings: VideoSettings,
+  enabled: boolean
+): boolean {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!enabled || !settings.lut || !video || !canvas) {
+      setActive(false);
+      return;
+    }
+    // The canvas keeps its last frame while the renderer is rebuilt, so it stays shown.
+    const renderer = createLutPreviewRenderer(canvas, settings);
+    if (!renderer) {
+      setActive(false);
+      console.warn('WebGL2 is unavailable; the preview is shown without the LUT.');
+      return;
+    }
+
+    const draw = () => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+      renderer.drawFrame(video, video.videoWidth, video.videoHeight);
+      setActive(true);
+    };
+    // requestVideoFrameCallback also fires for frames shown after a seek.
+    const byVideoFrame = typeof video.requestVideoFrameCallback === 'function';
+    let handle = 0;
+    const loop = () => {
+      draw();
+      handle = byVideoFrame ? video.requestVideoFrameCallback(loop) : requestAnimationFrame(loop);
+    };
+    loop();
+    video.addEventListener('loadeddata', draw);
+
+    return () => {
+      if (byVideoFrame) video.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+      video.removeEventListener('loadeddata', draw);
+      renderer.dispose();
+    };
+    // The picture only depends on the LUT settings.
+  }, [src, enabled, settings.lut, settings.lutIntensity, settings.lutInterpolation]);
+
+  return active;
+}
@@ -1,10 +1,29 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { VideoSettings } from '../types';
+import { SourceClip, VideoSettings } from '../types';
 import { OUTPUT_FORMAT_MIME_TYPES } from '../constants';
-
-// Constants for rotating lines effect configuration
-const FPS = 30; // Should match canvas.captureStream frame rate
-const ROTATION_DURATION_SECONDS = 30; // Duration for one full 360-degree rotation
+import { FrameCompositor, canCompositeInWorker, createFrameCompositor } from '../services/frameCompositor';
+import { FrameRenderer } from '../services/frameRenderer';
+import { createCanvasFrameRenderer } from '../services/glFrameRenderer';
+import {
+  connectAudioChain,
+  connectLoudnessStage,
+  createRealtimeLimiter,
+  scheduleAudioFades,
+  scheduleSpliceFades,
+} from '../services/audioGraph';
+import { exportAudioOnly, isAudioOutputFormat } from '../services/audioExporter';
+import { connectMusicBed, decodeMusic, duckingEnvelope } from '../services/backgroundMusic';
+import { measureLoudness, normalizationGainDb } from '../services/loudness';
+import { detectSourceFrameRate } from '../services/mediaProbe';
+import { resolveClipGeometry, resolveOutputGeometry } from '../services/outputGeometry';
+import { editTimeToOutputTime, resolveTimeMap, speedAtEditTime } from '../services/speedRamp';
+import { resolveClipSegments, resolveOutputFrameRate } from '../services/timeline';
+import {
+  WebCodecsUnsupportedError,
+  exportWithWebCodecs,
+  isWebCodecsExportSupported,
+  renderExportAudio,
+} from '../services/webCodecsExporter';
 
 /**
  * Picks the first MediaRecorder MIME type supported by this browser for the
@@ -20,21 +39,34 @@ function pickSupportedMimeType(format: VideoSettings['outputFormat']): string |
   return null;
 }
 
+interface FrameCallbackHandle {
+  video: HTMLVideoElement;
+  id: number;
+  viaVideoFrameCallback: boolean;
+}
+
 /**
- * Builds a canvas 2D filter string from VideoSettings. Mirrors the CSS filter
- * preview but is applied per-frame inside processVideo.
+ * Schedules `callback` for the next frame the video presents. Falls back to
+ * requestAnimationFrame where requestVideoFrameCallback is unavailable, in
+ * which case no frame metadata is passed.
  */
-function buildCanvasFilter(settings: VideoSettings): string {
-  const parts: string[] = [
-    `brightness(${settings.brightness}%)`,
-    `contrast(${settings.contrast}%)`,
-    `saturate(${settings.saturation}%)`,
-  ];
-  if (settings.hueRotate !== 0) parts.push(`hue-rotate(${settings.hueRotate}deg)`);
-  if (settings.blur > 0) parts.push(`blur(${settings.blur}px)`);
-  if (settings.sepia > 0) parts.push(`sepia(${settings.sepia}%)`);
-  if (settings.grayscale > 0) parts.push(`grayscale(${settings.grayscale}%)`);
-  return parts.join(' ');
+function requestNextFrame(
+  video: HTMLVideoElement,
+  callback: (now: number, metadata?: VideoFrameCallbackMetadata) => void
+): FrameCallbackHandle {
+  if (typeof video.requestVideoFrameCallback === 'function') {
+    return { video, id: video.requestVideoFrameCallback(callback), viaVideoFrameCallback: true };
+  }
+  return { video, id: requestAnimationFrame(callback), viaVideoFrameCallback: false };
+}
+
+function cancelNextFrame(handle: FrameCallbackHandle | null): void {
+  if (!handle) return;
+  if (handle.viaVideoFrameCallback) {
+    handle.video.cancelVideoFrameCallback(handle.id);
+  } else {
+    cancelAnimationFrame(handle.id);
+  }
 }
 
 export function useVideoProcessor() {
@@ -46,33 +78,40 @@ export function useVideoProcessor() {
   const [isCancelling, setIsCancelling] = useState(false);
 
   const sourceVideoRef = useRef<HTMLVideoElement | null>(null);
+  const clipVideosRef = useRef<HTMLVideoElement[]>([]);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const animationFrameIdRef = useRef<number>(0);
-
-  // Refs for rotating lines effect state
-  const rotationAngle1Ref = useRef<number>(0);
-  const rotationAngle2Ref = useRef<number>(Math.PI / 2);
+  const frameCallbackRef = useRef<FrameCallbackHandle | null>(null);
+  const offlineExportAbortRef = useRef<AbortController | null>(null);
+  const compositorRef = useRef<FrameCompositor | null>(null);
 
   const cleanup = useCallback(async () => {
-    if (animationFrameIdRef.current) {
-      cancelAnimationFrame(animationFrameIdRef.current);
-      animationFrameIdRef.current = 0;
+    if (offlineExportAbortRef.current) {
+      offlineExportAbortRef.current.abort();
+      offlineExportAbortRef.current = null;
     }
+    cancelNextFrame(frameCallbackRef.current);
+    frameCallbackRef.current = null;
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       try { mediaRecorderRef.current.stop(); } catch { /* ignore */ }
     }
+    compositorRef.current?.dispose();
+    compositorRef.current = null;
     mediaRecorderRef.current = null;
     recordedChunksRef.current = [];
 
-    if (sourceVideoRef.current) {
-      sourceVideoRef.current.pause();
-      sourceVideoRef.current.removeAttribute('src');
-      sourceVideoRef.current.load();
-      sourceVideoRef.current = null;
+    // The clip elements play object URLs of the source files.
+    for (const video of clipVideosRef.current) {
+      const src = video.getAttribute('src');
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      if (src) URL.revokeObjectURL(src);
     }
+    clipVideosRef.current = [];
+    sourceVideoRef.current = null;
     if (canvasRef.current) {
       canvasRef.current = null;
     }
@@ -116,7 +155,11 @@ export function useVideoProcessor() {
     setIsCancelling(false);
   }, [isProcessing, cleanup]);
 
-  const processVideo = useCallback(async (videoFile: File, settings: VideoSettings): Promise<string | null> => {
+  const processVideo = useCallback(async (
+    clips: SourceClip[],
+    settings: VideoSettings,
+    musicFile: File | null = null
+  ): Promise<string | null> => {
     setIsProcessing(true);
 
     if (internalProcessedVideoUrl) {
@@ -129,26 +172,109 @@ export function useVideoProcessor() {
     setProgress(0);
     await cleanup();
 
-    rotationAngle1Ref.current = 0;
-    rotationAngle2Ref.current = Math.PI / 2;
+    // Audio-only formats skip the canvas and MediaRecorder capture of the video entirely.
+    if (isAudioOutputFormat(settings.outputFormat)) {
+      const abortController = new AbortController();
+      offlineExportAbortRef.current = abortController;
+      try {
+        const { blob, mimeType } = await exportAudioOnly(clips, settings, {
+          musicFile,
+          signal: abortController.signal,
+          onProgress: (value) => {
+            if (!abortController.signal.aborted) setProgress(value);
+          },
+        });
+        const url = URL.createObjectURL(blob);
+        setProcessedVideoUrl(url);
+        setProcessedMimeType(mimeType);
+        setIsProcessing(false);
+        setProgress(100);
+        return url;
+      } catch (e: any) {
+        if (abortController.signal.aborted) {
+          return null;
+        }
+        const err = `Audio export failed: ${e?.message || 'Unknown error'}`;
+        console.error(err, e);
+        setProcessingError(err);
+        setIsProcessing(false);
+        throw e instanceof Error ? e : new Error(err);
+      } finally {
+        if (offlineExportAbortRef.current === abortController) {
+          offlineExportAbortRef.current = null;
+        }
+      }
+    }
+
+    // Prefer the offline WebCodecs export, which renders as fast as the CPU allows.
+    // Anything it can't handle falls through to real-time MediaRecorder capture.
+    let offlineUnsupportedReason = 'WebCodecs is not available in this browser.';
+    if (isWebCodecsExportSupported()) {
+      const abortController = new AbortController();
+      offlineExportAbortRef.current = abortController;
+      try {
+        const { blob, mimeType } = await exportWithWebCodecs(clips, settings, {
+          musicFile,
+          signal: abortController.signal,
+          onProgress: (value) => {
+            if (!abortController.signal.aborted) setProgress(value);
+          },
+        });
+        const url = URL.createObjectURL(blob);
+        setProcessedVideoUrl(url);
+        setProcessedMimeType(mimeType);
+        setIsProcessing(false);
+        setProgress(100);
+        return url;
+      } catch (e: any) {
+        if (abortController.signal.aborted) {
+          return null;
+        }
+        if (!(e instanceof WebCodecsUnsupportedError)) {
+          const err = `Offline export failed: ${e?.message || 'Unknown error'}`;
+          console.error(err, e);
+          setProcessingError(err);
+          setIsProcessing(false);
+          throw e instanceof Error ? e : new Error(err);
+        }
+        offlineUnsupportedReason = e.message;
+        console.info('Falling back to real-time export:', e.message);
+      } finally {
+        if (offlineExportAbortRef.current === abortController) {
+          offlineExportAbortRef.current = null;
+        }
+      }
+    }
+
+    // Media elements only play forward.
+    if (settings.playbackDirection !== 'forward') {
+      const err = `Reverse and ping-pong playback need the offline export, which can't handle this video: ${offlineUnsupportedReason}`;
+      setProcessingError(err);
+      setIsProcessing(false);
+      throw new Error(err);
+    }
+
+    // The shifter's latency would put the live-captured sound behind the frames,
+    // so speed changes rely on the elements' preservesPitch instead.
+    if ((settings.pitchSemitones || 0) !== 0) {
+      const err = `Pitch shifting needs the offline export, which can't handle this video: ${offlineUnsupportedReason}`;
+      setProcessingError(err);
+      setIsProcessing(false);
+      throw new Error(err);
+    }
+
+    const sourceFrameRate = await detectSourceFrameRate(clips[0].file);
+    const outputFrameRate = resolveOutputFrameRate(settings, sourceFrameRate);
 
     return new Promise<string | null>((resolve, reject) => {
-      const video = document.createElement('video');
-      sourceVideoRef.current = video;
+      // One media element per clip; sourceVideoRef always points at the one playing.
+      const videos = clips.map(() => document.createElement('video'));
+      clipVideosRef.current = videos;
+      sourceVideoRef.current = videos[0];
 
       const canvas = document.createElement('canvas');
       canvasRef.current = canvas;
 
-      const ctx = canvas.getContext('2d', { alpha: false });
-      if (!ctx) {
-        const err = 'Could not get canvas context.';
-        setProcessingError(err);
-        setIsProcessing(false);
-        cleanup().catch(console.error);
-        reject(new Error(err));
-        return;
-      }
-
       try {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       } catch (e) {
@@ -161,8 +287,8 @@ export function useVideoProcessor() {
       }
       const audioContext = audioContextRef.current;
 
-      video.onloadedmetadata = async () => {
-        if (!video.videoWidth || !video.videoHeight) {
+      const startRecording = async () => {
+        if (videos.some((video) => !video.videoWidth || !video.videoHeight)) {
           const err = 'Invalid video: Video has no dimensions (width or height is 0). The file may be corrupted or audio-only.';
           setProcessingError(err);
           setIsProcessing(false);
@@ -171,59 +297,197 @@ export function useVideoProcessor() {
           return;
         }
 
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-
-        // Resolve trim window against the actual video duration.
-        const sourceDuration = isFinite(video.duration) ? video.duration : 0;
-        const trimStart = Math.max(0, Math.min(settings.trimStartSeconds ?? 0, Math.max(0, sourceDuration - 0.05)));
-        const rawEnd = settings.trimEndSeconds ?? sourceDuration;
-        const trimEnd = sourceDuration > 0
-          ? Math.min(sourceDuration, Math.max(trimStart + 0.05, rawEnd))
-          : rawEnd;
-        const segmentDuration = Math.max(0, trimEnd - trimStart);
-
-        video.preservesPitch = settings.audioPreservesPitch;
-        video.playbackRate = settings.playbackSpeed;
-        video.muted = true;
-
-        // Seek to trim start before starting playback so we don't record leading frames.
-        if (trimStart > 0) {
-          await new Promise<void>((resolveSeek) => {
-            const onSeeked = () => {
-              video.removeEventListener('seeked', onSeeked);
-              resolveSeek();
-            };
-            video.addEventListener('seeked', onSeeked);
-            try { video.currentTime = trimStart; } catch { resolveSeek(); }
-          });
+        // The first clip sets the canvas size; later clips are fitted onto it.
+        const geometry = resolveOutputGeometry(settings, videos[0].videoWidth, videos[0].videoHeight);
+        canvas.width = geometry.width;
+        canvas.height = geometry.height;
+        const geometries = videos.map((video, index) => (index === 0
+          ? geometry
+          : resolveClipGeometry(settings, geometry.width, geometry.height, video.videoWidth, video.videoHeight)));
+
+        // Resolve the cut list (or per-clip trims) against the actual video durations.
+        const durations = videos.map((video) => (isFinite(video.duration) ? video.duration : 0));
+        const segments = resolveClipSegments(settings, clips, durations);
+        if (segments.length === 0) {
+          const err = 'Nothing to export: every clip is trimmed to zero length.';
+          setProcessingError(err);
+          setIsProcessing(false);
+          cleanup().catch(console.error);
+          reject(new Error(err));
+          return;
+        }
+        const timeMap = resolveTimeMap(settings, segments);
+        const outputDuration = timeMap.outputDuration;
+        let segmentIndex = 0;
+        sourceVideoRef.current = videos[segments[0].clip];
+
+        // Composite in the worker when the canvas can hand its drawing off; the
+        // captured (placeholder) canvas still feeds MediaRecorder either way.
+        let drawSourceFrame: (source: HTMLVideoElement, mediaTime: number, outputTime: number) => void;
+        let setClipGeometry: (clipGeometry: typeof geometry) => void;
+        if (canCompositeInWorker()) {
+          let compositor: FrameCompositor;
+          try {
+            compositor = await createFrameCompositor(canvas, settings, geometries[segments[0].clip], {
+              outputDuration,
+              onProgress: setProgress,
+              onError: (e) => {
+                console.error(e);
+                setProcessingError(e.message);
+                setIsProcessing(false);
+                cleanup().catch(console.error);
+                reject(e);
+              },
+            });
+          } catch (e: any) {
+            const err = e?.message || 'Could not create the frame compositor.';
+            setProcessingError(err);
+            setIsProcessing(false);
+            cleanup().catch(console.error);
+            reject(new Error(err));
+            return;
+          }
+          compositorRef.current = compositor;
+          drawSourceFrame = (source, mediaTime, outputTime) => {
+            compositor.drawFrame(new VideoFrame(source, { timestamp: Math.round(mediaTime * 1e6) }), outputTime, mediaTime);
+          };
+          setClipGeometry = compositor.setGeometry;
+        } else {
+          let renderer: FrameRenderer;
+          try {
+            renderer = createCanvasFrameRenderer(canvas, settings, geometries[segments[0].clip]);
+          } catch (e: any) {
+            const err = e?.message || 'Could not get canvas context.';
+            setProcessingError(err);
+            setIsProcessing(false);
+            cleanup().catch(console.error);
+            reject(new Error(err));
+            return;
+          }
+          drawSourceFrame = (source, mediaTime, outputTime) => {
+            renderer.drawFrame(source, outputTime, mediaTime);
+            if (outputDuration > 0) {
+              const progressValue = (outputTime / outputDuration) * 100;
+              if (isFinite(progressValue)) {
+                setProgress(Math.min(100, Math.max(0, Math.round(progressValue))));
+              }
+            }
+          };
+          setClipGeometry = (clipGeometry) => {
+            renderer.dispose();
+            renderer = createCanvasFrameRenderer(canvas, settings, clipGeometry);
+          };
+        }
+
+        for (const video of videos) {
+          video.playbackRate = speedAtEditTime(timeMap, segments[0].offset);
+          video.muted = true;
+        }
+
+        const seekTo = (video: HTMLVideoElement, time: number) => new Promise<void>((resolveSeek) => {
+          const onSeeked = () => {
+            video.removeEventListener('seeked', onSeeked);
+            resolveSeek();
+          };
+          video.addEventListener('seeked', onSeeked);
+          try { video.currentTime = time; } catch { resolveSeek(); }
+        });
+
+        // Seek to the first segment before starting playback so we don't record leading frames.
+        if (segments[0].start > 0) {
+          await seekTo(videos[segments[0].clip], segments[0].start);
+        }
+
+        let music: AudioBuffer | null = null;
+        if (musicFile) {
+          try {
+            music = await decodeMusic(musicFile, audioContext.sampleRate);
+          } catch (e: any) {
+            setProcessingError(e.message);
+            setIsProcessing(false);
+            cleanup().catch(console.error);
+            reject(e);
+            return;
+          }
         }
 
         let audioTrack: MediaStreamTrack | undefined;
         let gainNode: GainNode | null = null;
-        const hasAudioTracks = (video as any).audioTracks && (video as any).audioTracks.length > 0;
-        const hasMozAudio = (video as any).mozHasAudio;
-        const hasWebkitAudio = (video as any).webkitAudioDecodedByteCount !== undefined && (video as any).webkitAudioDecodedByteCount > 0;
+        let spliceGain: GainNode | null = null;
+        let startMusic: (() => void) | null = null;
+        const hasAudio = (video: HTMLVideoElement) => {
+          const hasAudioTracks = (video as any).audioTracks && (video as any).audioTracks.length > 0;
+          const hasMozAudio = (video as any).mozHasAudio;
+          const hasWebkitAudio = (video as any).webkitAudioDecodedByteCount !== undefined && (video as any).webkitAudioDecodedByteCount > 0;
+          return hasAudioTracks || hasMozAudio || hasWebkitAudio;
+        };
 
-        if (hasAudioTracks || hasMozAudio || hasWebkitAudio) {
+        if (videos.some(hasAudio) || music) {
           try {
-            const sourceNode = audioContext.createMediaElementSource(video);
-            const node = audioContext.createGain();
-            const targetGain = settings.volume / 100;
-            const fadeIn = Math.max(0, settings.audioFadeInSeconds || 0);
-            node.gain.value = fadeIn > 0 ? 0 : targetGain;
-            sourceNode.connect(node);
-
             const audioDestinationNode = audioContext.createMediaStreamDestination();
-            node.connect(audioDestinationNode);
+            const sourceGain = audioContext.createGain();
+            spliceGain = sourceGain;
+            for (const video of videos) {
+              if (hasAudio(video)) audioContext.createMediaElementSource(video).connect(sourceGain);
+            }
+            let mixDestination: AudioNode = audioDestinationNode;
+            if (settings.limiterEnabled) {
+              const limiter = createRealtimeLimiter(audioContext, settings.limiterCeilingDb);
+              limiter.connect(audioDestinationNode);
+              mixDestination = limiter;
+            }
+            if (settings.normalizeLoudness) {
+              // The live graph can't look ahead, so measure an offline render of the same mix first.
+              try {
+                const mix = await renderExportAudio(
+                  clips.map((clip) => clip.file),
+                  { ...settings, normalizeLoudness: false },
+                  timeMap,
+                  musicFile
+                );
+                if (mix) {
+                  const gainDb = normalizationGainDb(await measureLoudness(mix), settings);
+                  mixDestination = connectLoudnessStage(audioContext, mixDestination, gainDb, settings.truePeakCeilingDb);
+                }
+              } catch (loudnessErr) {
+                console.warn('Could not measure loudness; exporting without normalization:', loudnessErr);
+              }
+            }
+            gainNode = connectAudioChain(audioContext, sourceGain, mixDestination, settings);
+            if (music) {
+              const musicBuffer = music;
+              // Ducking follows an offline render of the source mix, laid out on the output timeline.
+              let ducking: Float32Array | null = null;
+              if (settings.musicDucking) {
+                try {
+                  const sourceMix = await renderExportAudio(
+                    clips.map((clip) => clip.file),
+                    { ...settings, normalizeLoudness: false, limiterEnabled: false },
+                    timeMap
+                  );
+                  if (sourceMix) ducking = duckingEnvelope(sourceMix, settings);
+                } catch (duckingErr) {
+                  console.warn('Could not analyse the source audio; exporting without ducking:', duckingErr);
+                }
+              }
+              const musicDestination = mixDestination;
+              startMusic = () => {
+                connectMusicBed(audioContext, musicBuffer, musicDestination, settings, audioContext.currentTime, outputDuration, ducking);
+              };
+            }
             audioTrack = audioDestinationNode.stream.getAudioTracks()[0];
-            gainNode = node;
           } catch (audioErr) {
             console.warn('Could not process audio track:', audioErr);
           }
         }
+        for (const video of videos) {
+          video.preservesPitch = settings.audioPreservesPitch;
+        }
+        const setPlaybackSpeed = (video: HTMLVideoElement, speed: number) => {
+          video.playbackRate = speed;
+        };
 
-        const canvasStream = canvas.captureStream(FPS);
+        const canvasStream = canvas.captureStream(outputFrameRate);
         const videoTrack = canvasStream.getVideoTracks()[0];
 
         const tracks: MediaStreamTrack[] = [videoTrack];
@@ -276,8 +540,10 @@ export function useVideoProcessor() {
           resolve(url);
 
           if (mediaRecorderRef.current) mediaRecorderRef.current = null;
-          if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
-          animationFrameIdRef.current = 0;
+          cancelNextFrame(frameCallbackRef.current);
+          frameCallbackRef.current = null;
+          compositorRef.current?.dispose();
+          compositorRef.current = null;
         };
 
         mediaRecorder.onerror = (event: Event) => {
@@ -303,164 +569,117 @@ export function useVideoProcessor() {
           reject(errorToReject);
         };
 
-        const rotationIncrementPerFrame = (2 * Math.PI) / (ROTATION_DURATION_SECONDS * FPS);
-
-        const numNoisePixels = settings.enablePixelNoise
-          ? Math.floor((canvas.width * canvas.height) * 0.001)
-          : 0;
-
-        const baseFilter = buildCanvasFilter(settings);
-
-        // Pre-build a vignette gradient (cheaper than rebuilding each frame).
-        let vignetteFill: CanvasGradient | null = null;
-        if (settings.vignette > 0) {
-          const cx = canvas.width / 2;
-          const cy = canvas.height / 2;
-          const outerRadius = Math.hypot(cx, cy);
-          vignetteFill = ctx.createRadialGradient(cx, cy, outerRadius * 0.5, cx, cy, outerRadius);
-          vignetteFill.addColorStop(0, 'rgba(0,0,0,0)');
-          vignetteFill.addColorStop(1, `rgba(0,0,0,${settings.vignette / 100})`);
-        }
+        // Jumps to the next segment (keep-range or clip) without recording the
+        // gap: the recorder is paused and the AudioContext suspended (freezing
+        // scheduled fades) while seeking or switching clips.
+        let switchingSegment = false;
+        const jumpToSegment = async (index: number) => {
+          if (switchingSegment) return;
+          switchingSegment = true;
+          segmentIndex = index;
+          const segment = segments[index];
+          const nextVideo = videos[segment.clip];
+          mediaRecorderRef.current?.pause();
+          sourceVideoRef.current?.pause();
+          await audioContext.suspend().catch(console.error);
+          if (nextVideo !== sourceVideoRef.current) {
+            setClipGeometry(geometries[segment.clip]);
+            sourceVideoRef.current = nextVideo;
+          }
+          setPlaybackSpeed(nextVideo, speedAtEditTime(timeMap, segment.offset));
+          await seekTo(nextVideo, segment.start);
+          switchingSegment = false;
+          if (!sourceVideoRef.current || !mediaRecorderRef.current) return; // Cancelled while seeking
+          await audioContext.resume().catch(console.error);
+          mediaRecorderRef.current.resume();
+          nextVideo.play().catch((err) => {
+            console.error('Could not resume playback after seeking:', err);
+            if (mediaRecorderRef.current?.state !== 'inactive') mediaRecorderRef.current?.stop();
+          });
+        };
 
-        const drawFrame = () => {
-          if (!sourceVideoRef.current || sourceVideoRef.current.paused || sourceVideoRef.current.ended || !canvasRef.current || !ctx) {
+        // Driven by requestVideoFrameCallback so every decoded source frame is
+        // drawn exactly once, whatever the source frame rate.
+        const drawFrame = (_now: number, metadata?: VideoFrameCallbackMetadata) => {
+          if (switchingSegment) return;
+          if (!sourceVideoRef.current || (sourceVideoRef.current.paused && !sourceVideoRef.current.ended) || !canvasRef.current) {
             if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
               mediaRecorderRef.current.stop();
             }
-            if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
-            animationFrameIdRef.current = 0;
+            cancelNextFrame(frameCallbackRef.current);
+            frameCallbackRef.current = null;
             return;
           }
 
-          // Stop early if we've reached the trim end.
-          if (segmentDuration > 0 && sourceVideoRef.current.currentTime >= trimEnd) {
+          const mediaTime = metadata?.mediaTime ?? sourceVideoRef.current.currentTime;
+
+          // At the end of a segment, move on to the next one or stop.
+          const segment = segments[segmentIndex];
+          if (sourceVideoRef.current.ended || (segment.duration > 0 && mediaTime >= segment.end)) {
+            cancelNextFrame(frameCallbackRef.current);
+            frameCallbackRef.current = null;
+            if (segmentIndex + 1 < segments.length) {
+              jumpToSegment(segmentIndex + 1).catch(console.error);
+              return;
+            }
             if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
               mediaRecorderRef.current.stop();
             }
             sourceVideoRef.current.pause();
-            if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
-            animationFrameIdRef.current = 0;
             return;
           }
 
-          ctx.save();
-          if (settings.flipHorizontal) {
-            ctx.translate(canvasRef.current.width, 0);
-            ctx.scale(-1, 1);
-          }
-          ctx.filter = baseFilter;
-          ctx.drawImage(sourceVideoRef.current, 0, 0, canvasRef.current.width, canvasRef.current.height);
-          ctx.restore();
-
-          // Reset filter for overlays that should not be filtered.
-          ctx.filter = 'none';
-
-          if (settings.enablePixelNoise && canvasRef.current) {
-            const currentCanvas = canvasRef.current;
-            for (let i = 0; i < numNoisePixels; i++) {
-              const x = Math.random() * currentCanvas.width;
-              const y = Math.random() * currentCanvas.height;
-              const intensity = Math.random() > 0.5 ? 220 : 30;
-              const alpha = Math.random() * 0.05 + 0.02;
-              ctx.fillStyle = `rgba(${intensity}, ${intensity}, ${intensity}, ${alpha})`;
-              ctx.fillRect(x, y, 1, 1);
-            }
-          }
-
-          if (settings.enableRotatingLines && canvasRef.current) {
-            const currentCanvas = canvasRef.current;
-            const centerX = currentCanvas.width / 2;
-            const centerY = currentCanvas.height / 2;
-            const lineLength = Math.hypot(currentCanvas.width, currentCanvas.height);
-            const lineWidth = 1.5;
-
-            rotationAngle1Ref.current += rotationIncrementPerFrame;
-            rotationAngle2Ref.current -= rotationIncrementPerFrame;
-            rotationAngle1Ref.current %= (2 * Math.PI);
-            rotationAngle2Ref.current = (rotationAngle2Ref.current % (2 * Math.PI) + (2 * Math.PI)) % (2 * Math.PI);
-
-            ctx.save();
-            ctx.translate(centerX, centerY);
-            ctx.rotate(rotationAngle1Ref.current);
-            ctx.beginPath();
-            ctx.moveTo(-lineLength / 2, 0);
-            ctx.lineTo(lineLength / 2, 0);
-            ctx.strokeStyle = 'rgba(255, 255, 255, 0.75)';
-            ctx.lineWidth = lineWidth;
-            ctx.stroke();
-            ctx.restore();
-
-            ctx.save();
-            ctx.translate(centerX, centerY);
-            ctx.rotate(rotationAngle2Ref.current);
-            ctx.beginPath();
-            ctx.moveTo(0, -lineLength / 2);
-            ctx.lineTo(0, lineLength / 2);
-            ctx.strokeStyle = 'rgba(255, 255, 255, 0.75)';
-            ctx.lineWidth = lineWidth;
-            ctx.stroke();
-            ctx.restore();
-          }
-
-          if (vignetteFill) {
-            ctx.save();
-            ctx.fillStyle = vignetteFill;
-            ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-            ctx.restore();
-          }
-
-          if (segmentDuration > 0) {
-            const elapsed = Math.max(0, sourceVideoRef.current.currentTime - trimStart);
-            const progressValue = (elapsed / segmentDuration) * 100;
-            if (isFinite(progressValue)) {
-              setProgress(Math.min(100, Math.round(progressValue)));
-            }
+          const elapsed = segment.offset + Math.max(0, mediaTime - segment.start);
+          // Speed ranges: the element's playback rate follows the ramp frame by frame.
+          if (timeMap.constantSpeed === null) {
+            setPlaybackSpeed(sourceVideoRef.current, speedAtEditTime(timeMap, elapsed));
           }
-          animationFrameIdRef.current = requestAnimationFrame(drawFrame);
+          drawSourceFrame(sourceVideoRef.current, mediaTime, editTimeToOutputTime(timeMap, elapsed));
+          frameCallbackRef.current = requestNextFrame(sourceVideoRef.current, drawFrame);
         };
 
-        video.onplay = () => {
+        let fadesScheduled = false;
+        const handlePlay = (video: HTMLVideoElement) => {
           if (audioContext.state === 'suspended') {
             audioContext.resume().catch(console.error);
           }
 
-          // Schedule audio fades using audioContext.currentTime (real-time, not video time).
+          // Schedule audio fades once, using audioContext.currentTime (real-time,
+          // not video time). The context is suspended across seeks between
+          // segments, so its clock keeps tracking the output timeline.
           const localGainNode = gainNode;
-          if (localGainNode) {
-            const targetGain = settings.volume / 100;
-            const fadeIn = Math.max(0, settings.audioFadeInSeconds || 0);
-            const fadeOut = Math.max(0, settings.audioFadeOutSeconds || 0);
-            const speed = Math.max(0.0001, settings.playbackSpeed);
-            const realDuration = segmentDuration > 0 ? segmentDuration / speed : 0;
-
-            const t0 = audioContext.currentTime;
-            localGainNode.gain.cancelScheduledValues(t0);
-            if (fadeIn > 0) {
-              localGainNode.gain.setValueAtTime(0, t0);
-              localGainNode.gain.linearRampToValueAtTime(targetGain, t0 + Math.min(fadeIn, realDuration || fadeIn));
-            } else {
-              localGainNode.gain.setValueAtTime(targetGain, t0);
-            }
-            if (fadeOut > 0 && realDuration > 0) {
-              const fadeStart = Math.max(t0, t0 + realDuration - fadeOut);
-              localGainNode.gain.setValueAtTime(targetGain, fadeStart);
-              localGainNode.gain.linearRampToValueAtTime(0, t0 + realDuration);
-            }
+          if (localGainNode && spliceGain && !fadesScheduled) {
+            scheduleAudioFades(localGainNode, audioContext.currentTime, settings, timeMap);
+            scheduleSpliceFades(spliceGain, audioContext.currentTime, timeMap, settings);
+            startMusic?.();
           }
+          fadesScheduled = true;
 
-          animationFrameIdRef.current = requestAnimationFrame(drawFrame);
+          frameCallbackRef.current = requestNextFrame(video, drawFrame);
         };
 
-        video.onended = () => {
+        // A clip can end before its last frame reaches the segment end (or its
+        // duration is unknown); carry on with the next segment if there is one.
+        const handleEnded = () => {
+          if (switchingSegment) return;
+          cancelNextFrame(frameCallbackRef.current);
+          frameCallbackRef.current = null;
+          if (segmentIndex + 1 < segments.length) {
+            jumpToSegment(segmentIndex + 1).catch(console.error);
+            return;
+          }
           if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
             mediaRecorderRef.current.stop();
           }
-          if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current);
-          animationFrameIdRef.current = 0;
         };
 
+        for (const video of videos) {
+          video.onplay = () => handlePlay(video);
+          video.onended = handleEnded;
+        }
+
         mediaRecorder.start();
-        video.play().catch(err => {
+        videos[segments[0].clip].play().catch(err => {
           const errorMsg = `Could not start video playback: ${err.message}`;
           console.error(errorMsg, err);
           setProcessingError(errorMsg);
@@ -471,17 +690,27 @@ export function useVideoProcessor() {
         });
       };
 
-      video.onerror = (e) => {
-        const errorMsg = (video.error?.message || 'Failed to load video file.');
-        const err = `Error loading video: ${errorMsg}`;
-        console.error(err, e);
-        setProcessingError(err);
-        setIsProcessing(false);
-        cleanup().catch(console.error);
-        reject(new Error(err));
-      };
+      // Start once every clip's metadata (dimensions, duration) is known.
+      let pendingMetadata = videos.length;
+      videos.forEach((video, index) => {
+        video.onloadedmetadata = () => {
+          video.onloadedmetadata = null;
+          pendingMetadata -= 1;
+          if (pendingMetadata === 0) startRecording();
+        };
+
+        video.onerror = (e) => {
+          const errorMsg = (video.error?.message || 'Failed to load video file.');
+          const err = `Error loading video${videos.length > 1 ? ` (clip ${index + 1})` : ''}: ${errorMsg}`;
+          console.error(err, e);
+          setProcessingError(err);
+          setIsProcessing(false);
+          cleanup().catch(console.error);
+          reject(new Error(err));
+        };
 
-      video.src = URL.createObjectURL(videoFile);
+        video.src = URL.createObjectURL(clips[index].file);
+      });
     });
   }, [cleanup, internalProcessedVideoUrl]);
 
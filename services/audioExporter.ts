@@ -0,0 +1,259 @@
+import {
+  ALL_FORMATS,
+  BlobSource,
+  BufferTarget,
+  EncodedAudioPacketSource,
+  EncodedPacket,
+  Input,
+  OggOutputFormat,
+  Output,
+  WebMOutputFormat,
+} from 'mediabunny';
+import { AudioOutputFormat, SourceClip, VideoSettings } from '../types';
+import { AUDIO_OUTPUT_FORMATS, OUTPUT_FORMAT_MIME_TYPES, WEBCODECS_AUDIO_BITRATE } from '../constants';
+import { resolveTimeMap } from './speedRamp';
+import { editDuration, resolveClipSegments } from './timeline';
+import { encodeWav } from './wavEncoder';
+import {
+  WebCodecsExportOptions,
+  WebCodecsExportResult,
+  WebCodecsUnsupportedError,
+  createAudioChunk,
+  renderExportAudio,
+  throwIfAborted,
+  waitForQueueSpace,
+} from './webCodecsExporter';
+
+/**
+ * Audio-only export. The clips' sound runs through the same timeline and
+ * audio chain as a video export (trim, cuts, speed, pitch, volume, fades,
+ * EQ, dynamics, music, loudness) in an OfflineAudioContext; no frame is
+ * decoded or drawn. WAV is written by encodeWav; Opus is encoded with
+ * WebCodecs, or recorded in real time with MediaRecorder where WebCodecs
+ * can't.
+ */
+
+// Share of the progress bar taken by rendering the mix; encoding fills the rest.
+const RENDER_PROGRESS = 50;
+
+export function isAudioOutputFormat(format: VideoSettings['outputFormat']): format is AudioOutputFormat {
+  return (AUDIO_OUTPUT_FORMATS as string[]).includes(format);
+}
+
+function pickRecorderMimeType(format: AudioOutputFormat): string | null {
+  if (format === 'wav' || typeof MediaRecorder === 'undefined') return null;
+  return OUTPUT_FORMAT_MIME_TYPES[format].find((mime) => MediaRecorder.isTypeSupported(mime)) ?? null;
+}
+
+/** True when this browser can export `format`. */
+export function isAudioOutputFormatSupported(format: AudioOutputFormat): boolean {
+  if (typeof OfflineAudioContext === 'undefined') return false;
+  return format === 'wav' || typeof AudioEncoder !== 'undefined' || pickRecorderMimeType(format) !== null;
+}
+
+// Renders the export's audio track on its own.
+async function renderAudioOnly(
+  clips: SourceClip[],
+  settings: VideoSettings,
+  musicFile: File | null
+): Promise<AudioBuffer> {
+  const inputs = clips.map((clip) => new Input({ source: new BlobSource(clip.file), formats: ALL_FORMATS }));
+  try {
+    const durations: number[] = [];
+    const hasAudio: boolean[] = [];
+    for (const [index, input] of inputs.entries()) {
+      if (!(await input.canRead())) {
+        throw new Error(`Could not read "${clips[index].file.name}".`);
+      }
+      durations.push(await input.computeDuration());
+      hasAudio.push(!!(await input.getPrimaryAudioTrack()));
+    }
+
+    const segments = resolveClipSegments(settings, clips, durations);
+    if (editDuration(segments) <= 0) {
+      throw new Error('Nothing to export: every clip is trimmed to zero length.');
+    }
+    const rendered = await renderExportAudio(
+      clips.map((clip, index) => (hasAudio[index] ? clip.file : null)),
+      settings,
+      resolveTimeMap(settings, segments),
+      musicFile
+    );
+    if (!rendered) {
+      throw new Error('Nothing to export: the clips have no audio track.');
+    }
+    return rendered;
+  } finally {
+    inputs.forEach((input) => input.dispose());
+  }
+}
+
+// Encodes `buffer` as Opus with WebCodecs and muxes it into WebM or Ogg.
+async function encodeOpus(
+  buffer: AudioBuffer,
+  format: AudioOutputFormat,
+  { onProgress, signal }: WebCodecsExportOptions
+): Promise<WebCodecsExportResult> {
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: buffer.numberOfChannels,
+    bitrate: WEBCODECS_AUDIO_BITRATE,
+  };
+  if (typeof AudioEncoder === 'undefined' || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new WebCodecsUnsupportedError('Encoding Opus audio is not supported by WebCodecs in this browser.');
+  }
+
+  const output = new Output({
+    format: format === 'ogg-opus' ? new OggOutputFormat() : new WebMOutputFormat(),
+    target: new BufferTarget(),
+  });
+  const audioSource = new EncodedAudioPacketSource('opus');
+  output.addAudioTrack(audioSource);
+
+  let fail: (error: unknown) => void = () => {};
+  const failed = new Promise<never>((_, reject) => { fail = reject; });
+  failed.catch(() => { /* surfaced through the races below */ });
+  let muxChain: Promise<void> = Promise.resolve();
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      muxChain = muxChain.then(() => audioSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)).catch((e) => fail(e));
+    },
+    error: (e) => fail(e),
+  });
+
+  try {
+    await output.start();
+    encoder.configure(config);
+    for (let offset = 0; offset < buffer.length;) {
+      throwIfAborted(signal);
+      const audioData = createAudioChunk(buffer, offset);
+      encoder.encode(audioData);
+      audioData.close();
+      offset += audioData.numberOfFrames;
+      await Promise.race([waitForQueueSpace(encoder, () => encoder.encodeQueueSize), failed]);
+      onProgress?.(Math.round(RENDER_PROGRESS + ((100 - RENDER_PROGRESS) * offset) / buffer.length));
+    }
+    await Promise.race([encoder.flush(), failed]);
+    await Promise.race([muxChain, failed]);
+    throwIfAborted(signal);
+
+    await output.finalize();
+    const bytes = (output.target as BufferTarget).buffer;
+    if (!bytes) {
+      throw new Error('Audio export produced no output.');
+    }
+    const mimeType = await output.getMimeType();
+    return { blob: new Blob([bytes], { type: mimeType }), mimeType };
+  } catch (error) {
+    if (output.state !== 'finalized' && output.state !== 'canceled') {
+      await output.cancel().catch(() => { /* already failing */ });
+    }
+    throw error;
+  } finally {
+    if (encoder.state !== 'closed') {
+      try { encoder.close(); } catch { /* ignore */ }
+    }
+  }
+}
+
+// Fallback for Opus without WebCodecs: plays `buffer` into MediaRecorder in real time.
+async function recordOpus(
+  buffer: AudioBuffer,
+  format: AudioOutputFormat,
+  { onProgress, signal }: WebCodecsExportOptions
+): Promise<WebCodecsExportResult> {
+  const mimeType = pickRecorderMimeType(format);
+  if (!mimeType) {
+    throw new Error(`Selected output format (${format}) is not supported by this browser. Try WAV instead.`);
+  }
+  throwIfAborted(signal);
+
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+  const destination = context.createMediaStreamDestination();
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(destination);
+  const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: WEBCODECS_AUDIO_BITRATE });
+  const chunks: Blob[] = [];
+  let progressTimer: ReturnType<typeof setInterval> | undefined;
+
+  try {
+    return await new Promise<WebCodecsExportResult>((resolve, reject) => {
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        if (signal?.aborted) {
+          reject(new DOMException('Export cancelled', 'AbortError'));
+          return;
+        }
+        const type = recorder.mimeType || mimeType;
+        resolve({ blob: new Blob(chunks, { type }), mimeType: type });
+      };
+      recorder.onerror = (event: Event) => {
+        reject((event as any).error instanceof Error ? (event as any).error : new Error('MediaRecorder unspecified error'));
+      };
+      source.onended = () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+      signal?.addEventListener('abort', () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      }, { once: true });
+
+      context.resume()
+        .then(() => {
+          recorder.start();
+          const startTime = context.currentTime;
+          source.start();
+          progressTimer = setInterval(() => {
+            const elapsed = (context.currentTime - startTime) / buffer.duration;
+            onProgress?.(Math.round(RENDER_PROGRESS + (100 - RENDER_PROGRESS) * Math.min(1, elapsed)));
+          }, 250);
+        })
+        .catch(reject);
+    });
+  } finally {
+    clearInterval(progressTimer);
+    await context.close().catch(() => { /* already closed */ });
+  }
+}
+
+/**
+ * Exports the audio of `clips` alone in the audio-only settings.outputFormat.
+ * Throws an AbortError DOMException when `signal` is aborted.
+ */
+export async function exportAudioOnly(
+  clips: SourceClip[],
+  settings: VideoSettings,
+  options: WebCodecsExportOptions = {}
+): Promise<WebCodecsExportResult> {
+  const { onProgress, signal, musicFile = null } = options;
+  const format = settings.outputFormat;
+  if (!isAudioOutputFormat(format)) {
+    throw new Error(`${format} is not an audio-only format.`);
+  }
+  if (clips.length === 0) {
+    throw new Error('No clips to export.');
+  }
+
+  const rendered = await renderAudioOnly(clips, settings, musicFile);
+  throwIfAborted(signal);
+  onProgress?.(RENDER_PROGRESS);
+
+  if (format === 'wav') {
+    const blob = encodeWav(rendered);
+    onProgress?.(100);
+    return { blob, mimeType: blob.type };
+  }
+  let result: WebCodecsExportResult;
+  try {
+    result = await encodeOpus(rendered, format, options);
+  } catch (e) {
+    if (!(e instanceof WebCodecsUnsupportedError)) throw e;
+    console.info('Recording Opus in real time:', e.message);
+    result = await recordOpus(rendered, format, options);
+  }
+  onProgress?.(100);
+  return result;
+}
@@ -0,0 +1,249 @@
+import { VideoSettings } from '../types';
+import {
+  AUDIO_AUTOMATION_RATE,
+  AUDIO_CUT_FILTER_Q,
+  COMPRESSOR_KNEE_DB,
+  EQ_BANDS,
+  EQ_PEAKING_Q,
+  LIMITER_LOOKAHEAD_SECONDS,
+  LIMITER_RELEASE_SECONDS,
+} from '../constants';
+import { evaluateKeyframes } from './keyframes';
+import { decibelsToGain } from './loudness';
+import { TimePiece, TimeMap, outputTimeToEditTime, segmentOutputWindow } from './speedRamp';
+import { editTimeToSourceTime } from './timeline';
+
+/** True when the EQ bands or cut filters change the sound at all. */
+export function hasEqualizer(settings: VideoSettings): boolean {
+  return settings.lowCutHz > 0
+    || settings.highCutHz > 0
+    || EQ_BANDS[settings.eqBandCount === 5 ? 5 : 3].some((band) => settings[band.key] !== 0);
+}
+
+/**
+ * Builds the equalizer as BiquadFilterNodes to be connected in series: low
+ * cut, the EQ bands from low to high, then high cut. Flat bands and disabled
+ * cuts are left out, so a flat EQ returns no nodes.
+ */
+export function createEqualizerFilters(context: BaseAudioContext, settings: VideoSettings): BiquadFilterNode[] {
+  const nyquist = context.sampleRate / 2;
+  const filters: BiquadFilterNode[] = [];
+  const addFilter = (type: BiquadFilterType, frequency: number, q: number, gain = 0) => {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = Math.min(frequency, nyquist);
+    filter.Q.value = q;
+    filter.gain.value = gain;
+    filters.push(filter);
+  };
+
+  if (settings.lowCutHz > 0) addFilter('highpass', settings.lowCutHz, AUDIO_CUT_FILTER_Q);
+  for (const band of EQ_BANDS[settings.eqBandCount === 5 ? 5 : 3]) {
+    const gain = settings[band.key];
+    // Q is ignored by shelving filters.
+    if (gain !== 0) addFilter(band.type, band.frequency, EQ_PEAKING_Q, gain);
+  }
+  if (settings.highCutHz > 0) addFilter('lowpass', settings.highCutHz, AUDIO_CUT_FILTER_Q);
+  return filters;
+}
+
+/**
+ * The compressor stage: a DynamicsCompressorNode and its makeup gain, to be
+ * connected in series. No nodes when the compressor is off.
+ */
+export function createCompressorNodes(context: BaseAudioContext, settings: VideoSettings): AudioNode[] {
+  if (!settings.compressorEnabled) return [];
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = settings.compressorThresholdDb;
+  compressor.knee.value = COMPRESSOR_KNEE_DB;
+  compressor.ratio.value = settings.compressorRatio;
+  compressor.attack.value = settings.compressorAttackMs / 1000;
+  compressor.release.value = settings.compressorReleaseMs / 1000;
+  const makeup = context.createGain();
+  makeup.gain.value = decibelsToGain(settings.compressorMakeupDb);
+  return [compressor, makeup];
+}
+
+/**
+ * Limiter for live graphs: a hard-knee DynamicsCompressorNode at `ceilingDb`.
+ * Without lookahead it can let the start of a transient through; offline
+ * renders use applyBrickwallLimiter instead.
+ */
+export function createRealtimeLimiter(context: BaseAudioContext, ceilingDb: number): DynamicsCompressorNode {
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = ceilingDb;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = LIMITER_LOOKAHEAD_SECONDS;
+  limiter.release.value = LIMITER_RELEASE_SECONDS;
+  return limiter;
+}
+
+/** Connects `source` through `nodes` in order and on to `destination`. */
+export function connectInSeries(source: AudioNode, nodes: AudioNode[], destination: AudioNode): void {
+  let previous = source;
+  for (const node of nodes) {
+    previous.connect(node);
+    previous = node;
+  }
+  previous.connect(destination);
+}
+
+/**
+ * Connects `source` to `destination` through the export equalizer, compressor
+ * and gain stage. Used by both the live AudioContext (real-time export) and
+ * OfflineAudioContext (WebCodecs export) so the two paths sound the same.
+ */
+export function connectAudioChain(
+  context: BaseAudioContext,
+  source: AudioNode,
+  destination: AudioNode,
+  settings: VideoSettings
+): GainNode {
+  const gainNode = context.createGain();
+  const targetGain = settings.volume / 100;
+  const fadeIn = Math.max(0, settings.audioFadeInSeconds || 0);
+  gainNode.gain.value = fadeIn > 0 ? 0 : targetGain;
+  connectInSeries(source, [...createEqualizerFilters(context, settings), ...createCompressorNodes(context, settings)], gainNode);
+  gainNode.connect(destination);
+  return gainNode;
+}
+
+/**
+ * Real-time stand-in for loudness normalization: a fixed gain of `gainDb`
+ * followed by createRealtimeLimiter at the ceiling. Returns the node to
+ * connect the mix into.
+ */
+export function connectLoudnessStage(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  gainDb: number,
+  ceilingDb: number
+): AudioNode {
+  const gain = context.createGain();
+  gain.gain.value = decibelsToGain(gainDb);
+  const limiter = createRealtimeLimiter(context, ceilingDb);
+  gain.connect(limiter);
+  limiter.connect(destination);
+  return gain;
+}
+
+/**
+ * Schedules the fade-in/fade-out envelope on `gainNode`, starting at context
+ * time `startTime`, over the output duration of `timeMap`. The time map also
+ * maps output time back to source time, used to follow volume keyframes.
+ */
+export function scheduleAudioFades(
+  gainNode: GainNode,
+  startTime: number,
+  settings: VideoSettings,
+  timeMap: TimeMap
+): void {
+  const outputDuration = timeMap.outputDuration;
+  const targetGain = settings.volume / 100;
+  const fadeIn = Math.max(0, settings.audioFadeInSeconds || 0);
+  const fadeOut = Math.max(0, settings.audioFadeOutSeconds || 0);
+
+  gainNode.gain.cancelScheduledValues(startTime);
+
+  // Keyframed volume: sample the whole envelope, fades included, into one curve.
+  const volumeTrack = settings.keyframes?.volume;
+  if (volumeTrack?.length && outputDuration > 0) {
+    const points = Math.max(2, Math.ceil(outputDuration * AUDIO_AUTOMATION_RATE) + 1);
+    const curve = new Float32Array(points);
+    for (let i = 0; i < points; i++) {
+      const t = (outputDuration * i) / (points - 1);
+      const fade = Math.min(
+        1,
+        fadeIn > 0 ? t / fadeIn : 1,
+        fadeOut > 0 ? (outputDuration - t) / fadeOut : 1
+      );
+      const sourceTime = editTimeToSourceTime(timeMap.segments, outputTimeToEditTime(timeMap, t));
+      curve[i] = (evaluateKeyframes(volumeTrack, sourceTime) / 100) * Math.max(0, fade);
+    }
+    gainNode.gain.setValueCurveAtTime(curve, startTime, outputDuration);
+    return;
+  }
+
+  if (fadeIn > 0) {
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(targetGain, startTime + Math.min(fadeIn, outputDuration || fadeIn));
+  } else {
+    gainNode.gain.setValueAtTime(targetGain, startTime);
+  }
+  if (fadeOut > 0 && outputDuration > 0) {
+    const fadeStart = Math.max(startTime, startTime + outputDuration - fadeOut);
+    gainNode.gain.setValueAtTime(targetGain, fadeStart);
+    gainNode.gain.linearRampToValueAtTime(0, startTime + outputDuration);
+  }
+}
+
+/**
+ * Applies the fade-in/fade-out envelope to an already rendered buffer, in
+ * place. Used when the audio is rearranged after rendering (reverse and
+ * ping-pong playback), so the fades still follow the output timeline.
+ */
+export function applyBufferFades(buffer: AudioBuffer, settings: VideoSettings): void {
+  const fadeIn = Math.max(0, settings.audioFadeInSeconds || 0);
+  const fadeOut = Math.max(0, settings.audioFadeOutSeconds || 0);
+  if (fadeIn <= 0 && fadeOut <= 0) return;
+  const { sampleRate, length } = buffer;
+  const duration = length / sampleRate;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      const fade = Math.min(
+        1,
+        fadeIn > 0 ? t / fadeIn : 1,
+        fadeOut > 0 ? (duration - t) / fadeOut : 1
+      );
+      if (fade < 1) data[i] *= Math.max(0, fade);
+    }
+  }
+}
+
+/**
+ * Schedules a dip to silence on `gainNode` around every cut between
+ * consecutive edit segments: spliceFadeSeconds out before the cut and back in
+ * after it. Fades are shortened to half of very short segments.
+ */
+export function scheduleSpliceFades(
+  gainNode: GainNode,
+  startTime: number,
+  timeMap: TimeMap,
+  settings: VideoSettings
+): void {
+  const fade = Math.max(0, settings.spliceFadeSeconds || 0);
+
+  gainNode.gain.cancelScheduledValues(startTime);
+  gainNode.gain.setValueAtTime(1, startTime);
+  if (fade <= 0) return;
+  for (let i = 1; i < timeMap.segments.length; i++) {
+    const previous = segmentOutputWindow(timeMap, i - 1);
+    const current = segmentOutputWindow(timeMap, i);
+    const cut = startTime + current.start;
+    const fadeOut = Math.min(fade, (previous.end - previous.start) / 2);
+    const fadeIn = Math.min(fade, (current.end - current.start) / 2);
+    gainNode.gain.setValueAtTime(1, cut - fadeOut);
+    gainNode.gain.linearRampToValueAtTime(0, cut);
+    gainNode.gain.linearRampToValueAtTime(1, cut + fadeIn);
+  }
+}
+
+/**
+ * Automates a buffer source's playbackRate through `pieces` (one segment of
+ * the time map), with the segment's first piece starting at context time
+ * `startTime`. Ramps are linear in time, matching the video.
+ */
+export function scheduleSpeedRamp(playbackRate: AudioParam, startTime: number, pieces: TimePiece[]): void {
+  if (pieces.length === 0) return;
+  const origin = startTime - pieces[0].outputStart;
+  playbackRate.setValueAtTime(pieces[0].startSpeed, startTime);
+  for (const piece of pieces) {
+    playbackRate.setValueAtTime(piece.startSpeed, origin + piece.outputStart);
+    if (piece.endSpeed !== piece.startSpeed) {
+      playbackRate.linearRampToValueAtTime(piece.endSpeed, origin + piece.outputEnd);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { VideoSettings } from '../types';
+import {
+  AUDIO_AUTOMATION_RATE,
+  DUCKING_ATTACK_SECONDS,
+  DUCKING_DETECTOR_SECONDS,
+  DUCKING_HOLD_SECONDS,
+  DUCKING_RELEASE_SECONDS,
+} from '../constants';
+import { decibelsToGain } from './loudness';
+
+/**
+ * Background music: a separate audio file mixed under the edit's own sound,
+ * trimmed and optionally looped to the output length, faded with the export
+ * and ducked while the source audio carries speech.
+ */
+
+/** Decodes `file` at `sampleRate`. Throws when the browser can't decode it. */
+export async function decodeMusic(file: File, sampleRate: number): Promise<AudioBuffer> {
+  try {
+    return await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await file.arrayBuffer());
+  } catch (e: any) {
+    throw new Error(`Could not decode the background music "${file.name}": ${e?.message || 'unsupported format'}`);
+  }
+}
+
+/** Part of the music file that plays (and loops), in seconds. */
+export function resolveMusicWindow(settings: VideoSettings, musicDuration: number): { start: number; end: number } {
+  const start = Math.min(musicDuration, Math.max(0, settings.musicTrimStartSeconds ?? 0));
+  const end = Math.min(musicDuration, Math.max(start, settings.musicTrimEndSeconds ?? musicDuration));
+  return { start, end };
+}
+
+/**
+ * Envelope follower over `source` (the edit's own rendered sound): the music
+ * gain at AUDIO_AUTOMATION_RATE points per second, starting at 0 s and
+ * covering the whole buffer. The source's mean-square level is followed with
+ * a DUCKING_DETECTOR_SECONDS time constant; while it is above
+ * duckingThresholdDb, and for DUCKING_HOLD_SECONDS after, the gain heads for
+ * -duckingAmountDb, dipping and recovering with the attack and release times.
+ */
+export function duckingEnvelope(source: AudioBuffer, settings: VideoSettings): Float32Array {
+  const { sampleRate, length, numberOfChannels } = source;
+  const hop = sampleRate / AUDIO_AUTOMATION_RATE;
+  const points = Math.max(2, Math.ceil(length / hop) + 1);
+  const gains = new Float32Array(points);
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => source.getChannelData(channel));
+
+  const detector = Math.exp(-1 / (DUCKING_DETECTOR_SECONDS * sampleRate));
+  const attack = Math.exp(-1 / (DUCKING_ATTACK_SECONDS * AUDIO_AUTOMATION_RATE));
+  const release = Math.exp(-1 / (DUCKING_RELEASE_SECONDS * AUDIO_AUTOMATION_RATE));
+  const holdPoints = Math.round(DUCKING_HOLD_SECONDS * AUDIO_AUTOMATION_RATE);
+  const threshold = decibelsToGain(settings.duckingThresholdDb) ** 2; // Compared with the mean square
+  const ducked = decibelsToGain(-Math.max(0, settings.duckingAmountDb));
+
+  let meanSquare = 0;
+  let sinceSpeech = Infinity; // Points since the level was last above the threshold
+  let gain = 1;
+  let i = 0;
+  for (let point = 0; point < points; point++) {
+    const end = Math.min(length, Math.round(point * hop));
+    for (; i < end; i++) {
+      let square = 0;
+      for (const data of channels) square += data[i] * data[i];
+      square /= numberOfChannels;
+      meanSquare = square + (meanSquare - square) * detector;
+    }
+    sinceSpeech = meanSquare > threshold ? 0 : sinceSpeech + 1;
+    const target = sinceSpeech <= holdPoints ? ducked : 1;
+    gain = target + (gain - target) * (target < gain ? attack : release);
+    gains[point] = gain;
+  }
+  return gains;
+}
+
+/**
+ * Plays `music` into `destination` from context time `startTime` for
+ * `duration` seconds: the trimmed window, looped when musicLoop is on, at
+ * musicVolume with the export's audio fade-in and fade-out. `ducking` (from
+ * duckingEnvelope, aligned with `startTime`) lowers it under the source
+ * audio. Used by both the live AudioContext (real-time export) and
+ * OfflineAudioContext (WebCodecs export). Returns null when the trimmed
+ * window is empty.
+ */
+export function connectMusicBed(
+  context: BaseAudioContext,
+  music: AudioBuffer,
+  destination: AudioNode,
+  settings: VideoSettings,
+  startTime: number,
+  duration: number,
+  ducking: Float32Array | null
+): AudioBufferSourceNode | null {
+  const musicWindow = resolveMusicWindow(settings, music.duration);
+  if (musicWindow.end <= musicWindow.start || duration <= 0) return null;
+
+  const source = context.createBufferSource();
+  source.buffer = music;
+  const duck = context.createGain();
+  const level = context.createGain();
+  source.connect(duck);
+  duck.connect(level);
+  level.connect(destination);
+
+  if (ducking && ducking.length >= 2) {
+    duck.gain.setValueCurveAtTime(ducking, startTime, (ducking.length - 1) / AUDIO_AUTOMATION_RATE);
+  }
+
+  // The same envelope scheduleAudioFades gives the source, without its keyframes.
+  const volume = Math.max(0, settings.musicVolume) / 100;
+  const fadeIn = Math.min(duration, Math.max(0, settings.audioFadeInSeconds || 0));
+  const fadeOut = Math.min(duration, Math.max(0, settings.audioFadeOutSeconds || 0));
+  level.gain.setValueAtTime(fadeIn > 0 ? 0 : volume, startTime);
+  if (fadeIn > 0) level.gain.linearRampToValueAtTime(volume, startTime + fadeIn);
+  if (fadeOut > 0) {
+    level.gain.setValueAtTime(volume, Math.max(startTime + fadeIn, startTime + duration - fadeOut));
+    level.gain.linearRampToValueAtTime(0, startTime + duration);
+  }
+
+  if (settings.musicLoop) {
+    source.loop = true;
+    source.loopStart = musicWindow.start;
+    source.loopEnd = musicWindow.end;
+    source.start(startTime, musicWindow.start);
+    source.stop(startTime + duration);
+  } else {
+    source.start(startTime, musicWindow.start, Math.min(musicWindow.end - musicWindow.start, duration));
+  }
+  return source;
+}
+
+/**
+ * Mixes `music` under `mix` (a rendered export, output timeline) and returns
+ * the result, ducked by `mix`'s own envelope when musicDucking is on. A mono
+ * mix comes back stereo when the music is.
+ */
+export async function mixMusicBed(mix: AudioBuffer, music: AudioBuffer, settings: VideoSettings): Promise<AudioBuffer> {
+  const numberOfChannels = Math.min(2, Math.max(mix.numberOfChannels, music.numberOfChannels));
+  const context = new OfflineAudioContext(numberOfChannels, mix.length, mix.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = mix;
+  source.connect(context.destination);
+  source.start();
+  const ducking = settings.musicDucking ? duckingEnvelope(mix, settings) : null;
+  connectMusicBed(context, music, context.destination, settings, 0, mix.duration, ducking);
+  return context.startRendering();
+}
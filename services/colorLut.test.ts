@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { LutInterpolation } from '../types';
+import { DEFAULT_VIDEO_SETTINGS, LUT_MAX_SIZE } from '../constants';
+import { parseCubeLut, storableSettings } from './colorLut';
+import { PixelBuffer, applyColorLut } from './imageFilters';
+
+// A .cube file for the identity LUT of `size` points per axis, red fastest.
+function identityCube(size: number, header = ''): string {
+  const rows: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        rows.push([r, g, b].map((v) => (v / (size - 1)).toFixed(6)).join(' '));
+      }
+    }
+  }
+  return `${header}LUT_3D_SIZE ${size}\n${rows.join('\n')}\n`;
+}
+
+describe('parseCubeLut', () => {
+  it('reads the title, size and domain', () => {
+    const lut = parseCubeLut(identityCube(2, 'TITLE "Neutral"\nDOMAIN_MIN 0 0 0\nDOMAIN_MAX 1 1 2\n'), 'neutral.cube');
+    expect(lut.name).toBe('Neutral');
+    expect(lut.size).toBe(2);
+    expect(lut.domainMax).toEqual([1, 1, 2]);
+  });
+
+  it('falls back to the file name without a TITLE', () => {
+    expect(parseCubeLut(identityCube(2), 'Film Look.CUBE').name).toBe('Film Look');
+  });
+
+  it('rejects sizes out of range', () => {
+    expect(() => parseCubeLut('LUT_3D_SIZE 1\n0 0 0\n', 'a.cube')).toThrow(/LUT_3D_SIZE must be a whole number/);
+    expect(() => parseCubeLut(`LUT_3D_SIZE ${LUT_MAX_SIZE + 1}\n`, 'a.cube')).toThrow(/LUT_3D_SIZE must be a whole number/);
+    expect(() => parseCubeLut('LUT_3D_SIZE 2.5\n', 'a.cube')).toThrow(/LUT_3D_SIZE must be a whole number/);
+  });
+
+  it('rejects too few or too many entries', () => {
+    const full = identityCube(2);
+    const short = full.split('\n').slice(0, -2).join('\n');
+    expect(() => parseCubeLut(short, 'a.cube')).toThrow('Expected 8 table entries, found 7.');
+    expect(() => parseCubeLut(`${full}1 1 1\n`, 'a.cube')).toThrow(/more entries than LUT_3D_SIZE allows/);
+  });
+
+  it('rejects a DOMAIN_MAX that is not above DOMAIN_MIN', () => {
+    const cube = identityCube(2, 'DOMAIN_MIN 0 0.5 0\nDOMAIN_MAX 1 0.5 1\n');
+    expect(() => parseCubeLut(cube, 'a.cube')).toThrow(/DOMAIN_MAX must be above DOMAIN_MIN/);
+  });
+
+  it('rejects 1D LUTs', () => {
+    expect(() => parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1\n', 'a.cube')).toThrow(/1D LUTs are not supported/);
+  });
+
+  it('rejects table rows before LUT_3D_SIZE', () => {
+    expect(() => parseCubeLut('0 0 0\nLUT_3D_SIZE 2\n', 'a.cube')).toThrow('Line 1: LUT_3D_SIZE must come before the table.');
+  });
+
+  it('rejects a file without LUT_3D_SIZE', () => {
+    expect(() => parseCubeLut('TITLE "Empty"\n', 'a.cube')).toThrow(/LUT_3D_SIZE is missing/);
+  });
+
+  it('rejects malformed rows', () => {
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0\n', 'a.cube')).toThrow('Line 2: expected three numbers.');
+  });
+});
+
+describe('applyColorLut', () => {
+  it.each<LutInterpolation>(['trilinear', 'tetrahedral'])('leaves pixels unchanged through an identity LUT (%s)', (interpolation) => {
+    const lut = parseCubeLut(identityCube(5), 'identity.cube');
+    const levels = [0, 1, 37, 64, 128, 200, 254, 255];
+    const data: number[] = [];
+    for (const r of levels) {
+      for (const g of levels) {
+        for (const b of levels) data.push(r, g, b, 255);
+      }
+    }
+    const image: PixelBuffer = { data: Uint8ClampedArray.from(data), width: data.length / 4, height: 1 };
+    applyColorLut(image, lut, 100, interpolation);
+    expect(Array.from(image.data)).toEqual(data);
+  });
+});
+
+describe('storableSettings', () => {
+  it('keeps a 33-point LUT and leaves out a 65-point one', () => {
+    const small = parseCubeLut(identityCube(33), 'small.cube');
+    expect(storableSettings({ ...DEFAULT_VIDEO_SETTINGS, lut: small }).lut).toBe(small);
+    const large = parseCubeLut(identityCube(65), 'large.cube');
+    const stored = storableSettings({ ...DEFAULT_VIDEO_SETTINGS, lut: large, lutIntensity: 40 });
+    expect(stored.lut).toBeNull();
+    expect(stored.lutIntensity).toBe(40);
+  });
+});
@@ -0,0 +1,226 @@
+import { ColorLut } from '../types';
+import { LUT_MAX_SIZE, LUT_MAX_STORED_DATA_LENGTH } from '../constants';
+
+/**
+ * 3D colour lookup tables from Adobe/Resolve `.cube` files. A LUT is kept in
+ * VideoSettings in a compact, JSON-safe form (see ColorLut) and decoded into
+ * a Float32Array of RGB triples, red fastest, for the renderers.
+ */
+
+const MIN_LUT_SIZE = 2;
+const UINT16_MAX = 65535;
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // fromCharCode takes its arguments on the stack, so go in chunks.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function parseTriple(tokens: string[], lineNumber: number): [number, number, number] {
+  const values = tokens.map(Number);
+  if (values.length !== 3 || values.some((v) => !isFinite(v))) {
+    throw new Error(`Line ${lineNumber}: expected three numbers.`);
+  }
+  return values as [number, number, number];
+}
+
+/**
+ * Parses the text of a `.cube` file. Output values are clamped to 0-1, since
+ * the rest of the pipeline works on 8-bit colour. Throws an Error describing
+ * the problem for 1D LUTs, sizes above LUT_MAX_SIZE and malformed files.
+ */
+export function parseCubeLut(text: string, fileName: string): ColorLut {
+  let title = '';
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let values: Uint16Array | null = null;
+  let count = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line || line.startsWith('#')) continue;
+    const lineNumber = index + 1;
+
+    if (/^[-+.\d]/.test(line)) {
+      if (!values) throw new Error(`Line ${lineNumber}: LUT_3D_SIZE must come before the table.`);
+      if (count >= values.length) throw new Error(`Line ${lineNumber}: more entries than LUT_3D_SIZE allows.`);
+      for (const value of parseTriple(line.split(/\s+/), lineNumber)) {
+        values[count++] = Math.round(Math.min(1, Math.max(0, value)) * UINT16_MAX);
+      }
+      continue;
+    }
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+        break;
+      case 'LUT_3D_SIZE':
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > LUT_MAX_SIZE) {
+          throw new Error(`Line ${lineNumber}: LUT_3D_SIZE must be a whole number from ${MIN_LUT_SIZE} to ${LUT_MAX_SIZE}.`);
+        }
+        values = new Uint16Array(size * size * size * 3);
+        break;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, lineNumber);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, lineNumber);
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('1D LUTs are not supported; export a 3D LUT instead.');
+      default:
+        // Vendor keywords (e.g. LUT_3D_INPUT_RANGE) don't change the table.
+        break;
+    }
+  }
+
+  if (!values) throw new Error('Not a 3D LUT: LUT_3D_SIZE is missing.');
+  if (count !== values.length) {
+    throw new Error(`Expected ${values.length / 3} table entries, found ${Math.floor(count / 3)}.`);
+  }
+  if (domainMax.some((max, channel) => max <= domainMin[channel])) {
+    throw new Error('DOMAIN_MAX must be above DOMAIN_MIN on every channel.');
+  }
+
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint16(i * 2, value, true));
+  return {
+    name: title || fileName.replace(/\.cube$/i, ''),
+    size,
+    domainMin,
+    domainMax,
+    data: encodeBase64(bytes),
+  };
+}
+
+/**
+ * Validates a LUT read back from storage. Returns null for anything that
+ * isn't a well-formed ColorLut.
+ */
+export function sanitizeLut(value: unknown): ColorLut | null {
+  if (!value || typeof value !== 'object') return null;
+  const lut = value as ColorLut;
+  const isTriple = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every((n) => typeof n === 'number' && isFinite(n));
+  if (
+    typeof lut.name !== 'string'
+    || !Number.isInteger(lut.size) || lut.size < MIN_LUT_SIZE || lut.size > LUT_MAX_SIZE
+    || !isTriple(lut.domainMin) || !isTriple(lut.domainMax)
+    || typeof lut.data !== 'string'
+  ) {
+    return null;
+  }
+  // Base64 length of size³ RGB uint16 entries.
+  if (lut.data.length !== Math.ceil((lut.size ** 3 * 6) / 3) * 4) return null;
+  return {
+    name: lut.name,
+    size: lut.size,
+    domainMin: [...lut.domainMin],
+    domainMax: [...lut.domainMax],
+    data: lut.data,
+  };
+}
+
+/** True when `lut` is small enough to save to localStorage (see LUT_MAX_STORED_DATA_LENGTH). */
+export function isLutStorable(lut: ColorLut): boolean {
+  return lut.data.length <= LUT_MAX_STORED_DATA_LENGTH;
+}
+
+/** Settings as saved to localStorage: a LUT too large to store is left out. */
+export function storableSettings<T extends { lut: ColorLut | null }>(settings: T): T {
+  return settings.lut && !isLutStorable(settings.lut) ? { ...settings, lut: null } : settings;
+}
+
+// Decoding is repeated for every renderer, so keep the last table.
+let lastDecoded: { data: string; table: Float32Array } | null = null;
+
+/** The LUT's outputs as 0-1 RGB triples, red fastest, then green, then blue. */
+export function decodeLut(lut: ColorLut): Float32Array {
+  if (lastDecoded?.data === lut.data) return lastDecoded.table;
+  const bytes = decodeBase64(lut.data);
+  const view = new DataView(bytes.buffer);
+  const table = new Float32Array(bytes.length / 2);
+  for (let i = 0; i < table.length; i++) table[i] = view.getUint16(i * 2, true) / UINT16_MAX;
+  lastDecoded = { data: lut.data, table };
+  return table;
+}
+
+/**
+ * Looks up the 0-1 colour (r, g, b) in `table` (decodeLut) and writes the
+ * result to `out`. Tetrahedral interpolation splits each grid cell into six
+ * tetrahedra along its grey diagonal and uses four corners; trilinear blends
+ * all eight. Inputs are mapped through the LUT's domain and clamped first.
+ */
+export function sampleLut(
+  lut: ColorLut,
+  table: Float32Array,
+  r: number,
+  g: number,
+  b: number,
+  tetrahedral: boolean,
+  out: Float32Array
+): void {
+  const { size, domainMin, domainMax } = lut;
+  const last = size - 1;
+  const scale = (value: number, channel: number) =>
+    Math.min(1, Math.max(0, (value - domainMin[channel]) / (domainMax[channel] - domainMin[channel]))) * last;
+  const x = scale(r, 0);
+  const y = scale(g, 1);
+  const z = scale(b, 2);
+  const x0 = Math.min(last - 1, Math.floor(x));
+  const y0 = Math.min(last - 1, Math.floor(y));
+  const z0 = Math.min(last - 1, Math.floor(z));
+  const fx = x - x0;
+  const fy = y - y0;
+  const fz = z - z0;
+  // Offsets of the cell's corners, named by their (r, g, b) bits.
+  const base = ((z0 * size + y0) * size + x0) * 3;
+  const dr = 3;
+  const dg = size * 3;
+  const db = size * size * 3;
+  const c000 = base;
+  const c111 = base + dr + dg + db;
+
+  for (let channel = 0; channel < 3; channel++) {
+    const at = (corner: number) => table[corner + channel];
+    let value: number;
+    if (!tetrahedral) {
+      const c00 = at(c000) + (at(c000 + dr) - at(c000)) * fx;
+      const c10 = at(c000 + dg) + (at(c000 + dr + dg) - at(c000 + dg)) * fx;
+      const c01 = at(c000 + db) + (at(c000 + dr + db) - at(c000 + db)) * fx;
+      const c11 = at(c000 + dg + db) + (at(c111) - at(c000 + dg + db)) * fx;
+      const c0 = c00 + (c10 - c00) * fy;
+      const c1 = c01 + (c11 - c01) * fy;
+      value = c0 + (c1 - c0) * fz;
+    } else if (fx >= fy) {
+      if (fy >= fz) {
+        value = (1 - fx) * at(c000) + (fx - fy) * at(c000 + dr) + (fy - fz) * at(c000 + dr + dg) + fz * at(c111);
+      } else if (fx >= fz) {
+        value = (1 - fx) * at(c000) + (fx - fz) * at(c000 + dr) + (fz - fy) * at(c000 + dr + db) + fy * at(c111);
+      } else {
+        value = (1 - fz) * at(c000) + (fz - fx) * at(c000 + db) + (fx - fy) * at(c000 + dr + db) + fy * at(c111);
+      }
+    } else if (fz >= fy) {
+      value = (1 - fz) * at(c000) + (fz - fy) * at(c000 + db) + (fy - fx) * at(c000 + dg + db) + fx * at(c111);
+    } else if (fz >= fx) {
+      value = (1 - fy) * at(c000) + (fy - fz) * at(c000 + dg) + (fz - fx) * at(c000 + dg + db) + fx * at(c111);
+    } else {
+      value = (1 - fy) * at(c000) + (fy - fx) * at(c000 + dg) + (fx - fz) * at(c000 + dr + dg) + fz * at(c111);
+    }
+    out[channel] = value;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS } from '../constants';
+import { applyFilmGrain, grainCells } from './filmGrain';
+import { PixelBuffer } from './imageFilters';
+import { frameSeed, mulberry32 } from './random';
+
+const settings: VideoSettings = { ...DEFAULT_VIDEO_SETTINGS, grainAmount: 80, grainSize: 2, grainColor: true };
+
+function greyImage(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4).fill(128);
+  return { data, width, height };
+}
+
+// A grey frame with grain from `seed` at `outputTime`, as the export draws it.
+function grainFrame(seed: number, outputTime: number): Uint8ClampedArray {
+  const image = greyImage(16, 9);
+  applyFilmGrain(image, settings, frameSeed(seed, outputTime));
+  return image.data;
+}
+
+describe('mulberry32', () => {
+  it('repeats its sequence for a seed', () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42);
+    const first = Array.from({ length: 8 }, () => a());
+    expect(Array.from({ length: 8 }, () => b())).toEqual(first);
+    expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('gives a different sequence for another seed', () => {
+    const a = mulberry32(42);
+    const b = mulberry32(43);
+    expect(Array.from({ length: 8 }, () => b())).not.toEqual(Array.from({ length: 8 }, () => a()));
+  });
+});
+
+describe('frameSeed', () => {
+  it('depends on the seed and the frame time, to the millisecond', () => {
+    expect(frameSeed(7, 1.5)).toBe(frameSeed(7, 1.5));
+    expect(frameSeed(7, 1.5)).toBe(frameSeed(7, 1.5002));
+    expect(frameSeed(7, 1.5)).not.toBe(frameSeed(7, 1.501));
+    expect(frameSeed(7, 1.5)).not.toBe(frameSeed(8, 1.5));
+  });
+});
+
+describe('applyFilmGrain', () => {
+  it('renders identical pixels for the same seed and time', () => {
+    const frame = grainFrame(1234, 2.5);
+    expect(Array.from(grainFrame(1234, 2.5))).toEqual(Array.from(frame));
+    expect(frame.some((value) => value !== 128 && value !== 255)).toBe(true);
+  });
+
+  it('renders different pixels for a different seed or time', () => {
+    const frame = Array.from(grainFrame(1234, 2.5));
+    expect(Array.from(grainFrame(1235, 2.5))).not.toEqual(frame);
+    expect(Array.from(grainFrame(1234, 2.54))).not.toEqual(frame);
+  });
+
+  it('leaves the frame alone with no grain', () => {
+    const image = greyImage(4, 4);
+    applyFilmGrain(image, { ...settings, grainAmount: 0 }, 1);
+    expect(image.data.every((value) => value === 128)).toBe(true);
+  });
+});
+
+describe('grainCells', () => {
+  it('covers the frame with one cell per grainSize pixels plus an edge', () => {
+    const { cells, columns, rows, fields } = grainCells(settings, 16, 9, 5);
+    expect([columns, rows, fields]).toEqual([9, 6, 3]);
+    expect(cells.length).toBe(9 * 6 * 3);
+    expect(Array.from(grainCells(settings, 16, 9, 5).cells)).toEqual(Array.from(cells));
+  });
+});
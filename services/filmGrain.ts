@@ -0,0 +1,105 @@
+import { VideoSettings } from '../types';
+import { FILM_GRAIN_STRENGTH, LEGACY_PIXEL_NOISE_GRAIN_AMOUNT } from '../constants';
+import { PixelBuffer } from './imageFilters';
+import { mulberry32 } from './random';
+
+/**
+ * Film grain for the 2D export path. FINAL_SHADER in glFrameRenderer draws
+ * the same model from the same cell values (grainCells), so both paths give
+ * the same pattern for a seed. Grain is value noise: random values on a grid of
+ * grainSize-pixel cells, smoothly interpolated, so clumps come out about that
+ * size. Each value is the sum of two uniform randoms, which favours small
+ * deviations over large ones. Grain is strongest in the midtones and fades
+ * towards black and white by grainLuminanceResponse.
+ */
+
+// Settings as saved before film grain replaced the pixel-noise toggle.
+type LegacySettings = Partial<VideoSettings> & { enablePixelNoise?: unknown };
+
+/**
+ * Upgrades saved settings from before film grain: the old `enablePixelNoise`
+ * toggle is dropped, and turns into LEGACY_PIXEL_NOISE_GRAIN_AMOUNT of grain
+ * when it was on.
+ */
+export function migratePixelNoise<T extends LegacySettings>(saved: T): Omit<T, 'enablePixelNoise'> {
+  const { enablePixelNoise, ...settings } = saved;
+  if (enablePixelNoise === true && typeof settings.grainAmount !== 'number') {
+    return { ...settings, grainAmount: LEGACY_PIXEL_NOISE_GRAIN_AMOUNT };
+  }
+  return settings;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/** Random grain values for one frame, on a grid covering it. */
+export interface GrainCells {
+  /** Row-major, top row first, `fields` values per cell, each roughly -1 to 1. */
+  cells: Float32Array;
+  columns: number;
+  rows: number;
+  /** 3 for colour grain (one value per channel), else 1. */
+  fields: number;
+}
+
+/**
+ * The grain grid for a width x height frame: one cell per grainSize pixels
+ * plus one more in each direction for the interpolation. `seed` picks the
+ * values; pass a new one per frame (see frameSeed) to animate them.
+ */
+export function grainCells(settings: VideoSettings, width: number, height: number, seed: number): GrainCells {
+  const size = Math.max(1, settings.grainSize);
+  const fields = settings.grainColor ? 3 : 1;
+  const columns = Math.ceil(width / size) + 1;
+  const rows = Math.ceil(height / size) + 1;
+  const random = mulberry32(seed);
+  const cells = new Float32Array(columns * rows * fields);
+  for (let i = 0; i < cells.length; i++) cells[i] = random() + random() - 1;
+  return { cells, columns, rows, fields };
+}
+
+/**
+ * Adds grain to `image` in place. `seed` picks the pattern; pass a new one
+ * per frame (see frameSeed) to animate it.
+ */
+export function applyFilmGrain(image: PixelBuffer, settings: VideoSettings, seed: number): void {
+  const strength = (settings.grainAmount / 100) * FILM_GRAIN_STRENGTH * 255;
+  if (strength <= 0) return;
+  const { data, width, height } = image;
+  const size = Math.max(1, settings.grainSize);
+  const { cells, columns, fields } = grainCells(settings, width, height, seed);
+
+  const response = settings.grainLuminanceResponse / 100;
+  const rowStride = columns * fields;
+  const grain = new Float32Array(3);
+  for (let y = 0; y < height; y++) {
+    const gy = y / size;
+    const row = Math.floor(gy);
+    const fy = smoothstep(gy - row);
+    for (let x = 0; x < width; x++) {
+      const gx = x / size;
+      const column = Math.floor(gx);
+      const fx = smoothstep(gx - column);
+      const cell = row * rowStride + column * fields;
+      for (let field = 0; field < fields; field++) {
+        const topLeft = cells[cell + field];
+        const topRight = cells[cell + fields + field];
+        const bottomLeft = cells[cell + rowStride + field];
+        const bottomRight = cells[cell + rowStride + fields + field];
+        const top = topLeft + (topRight - topLeft) * fx;
+        const bottom = bottomLeft + (bottomRight - bottomLeft) * fx;
+        grain[field] = top + (bottom - top) * fy;
+      }
+      if (fields === 1) grain[2] = grain[1] = grain[0];
+
+      const i = (y * width + x) * 4;
+      const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      const distance = 2 * luma - 1;
+      const weight = strength * (1 - response * distance * distance);
+      data[i] += grain[0] * weight;
+      data[i + 1] += grain[1] * weight;
+      data[i + 2] += grain[2] * weight;
+    }
+  }
+}
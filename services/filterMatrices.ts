@@ -0,0 +1,53 @@
+// Colour matrices for the CSS filter functions, as defined by the Filter
+// Effects Module Level 1 spec. Matrices are 3x3, row-major, and operate on
+// sRGB values in the 0-1 range.
+
+export type ColorMatrix3 = [
+  number, number, number,
+  number, number, number,
+  number, number, number,
+];
+
+export const IDENTITY_MATRIX: ColorMatrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/** saturate(amount), where 1 leaves colours unchanged. */
+export function saturateMatrix(amount: number): ColorMatrix3 {
+  const s = amount;
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+}
+
+/** hue-rotate(degrees). */
+export function hueRotateMatrix(degrees: number): ColorMatrix3 {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+}
+
+/** sepia(amount), amount clamped to 0-1. */
+export function sepiaMatrix(amount: number): ColorMatrix3 {
+  const a = 1 - Math.min(1, Math.max(0, amount));
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a,
+  ];
+}
+
+/** grayscale(amount), amount clamped to 0-1. */
+export function grayscaleMatrix(amount: number): ColorMatrix3 {
+  const a = 1 - Math.min(1, Math.max(0, amount));
+  return [
+    0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a,
+  ];
+}
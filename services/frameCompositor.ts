@@ -0,0 +1,221 @@
+import { VideoSettings } from '../types';
+import { createCanvasFrameRenderer } from './glFrameRenderer';
+import { OutputGeometry } from './outputGeometry';
+
+// Messages exchanged with workers/frameCompositor.worker.ts
+export type CompositorRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; settings: VideoSettings; geometry: OutputGeometry; outputDuration: number }
+  | { type: 'geometry'; geometry: OutputGeometry }
+  | { type: 'draw'; frame: VideoFrame; outputTime: number; sourceTime: number }
+  | { type: 'render'; id: number; frame: VideoFrame; outputTime: number; sourceTime: number; duration: number };
+
+export type CompositorResponse =
+  | { type: 'loaded' }
+  | { type: 'ready' }
+  | { type: 'rendered'; id: number; frame: VideoFrame }
+  | { type: 'progress'; progress: number }
+  | { type: 'error'; message: string };
+
+export interface FrameCompositorOptions {
+  /** Output duration in seconds, used to turn frame times into progress. */
+  outputDuration: number;
+  onProgress?: (progress: number) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Composites source frames onto an OffscreenCanvas. Both methods take
+ * ownership of `frame` and close it once drawn. Times are in seconds, as in
+ * FrameRenderer.drawFrame.
+ */
+export interface FrameCompositor {
+  /** Draws a frame onto the canvas (real-time export, where the canvas is captured). */
+  drawFrame: (frame: VideoFrame, outputTime: number, sourceTime: number) => void;
+  /**
+   * Draws a frame and resolves with a snapshot of the composited canvas,
+   * stamped with the given output timestamp/duration (seconds). Snapshots
+   * resolve in submission order.
+   */
+  renderFrame: (frame: VideoFrame, outputTime: number, sourceTime: number, duration: number) => Promise<VideoFrame>;
+  /**
+   * Switches to another source layout on the same canvas (the next clip of a
+   * multi-clip export). Applies to every frame submitted afterwards.
+   */
+  setGeometry: (geometry: OutputGeometry) => void;
+  dispose: () => void;
+}
+
+/**
+ * True when an HTMLCanvasElement can hand its drawing over to the compositor
+ * worker (needed by the real-time export, which captures the placeholder canvas).
+ */
+export function canCompositeInWorker(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof VideoFrame !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+/** Export progress (0-99) for a frame at `outputTime`; 100 is reserved for completion. */
+export function compositorProgress(outputTime: number, outputDuration: number): number {
+  return outputDuration > 0 ? Math.min(99, Math.round((outputTime / outputDuration) * 100)) : 0;
+}
+
+// Resolves once the worker script has loaded and is listening; rejects when
+// the worker can't be created or its script fails to load.
+function loadCompositorWorker(): Promise<Worker> {
+  return new Promise<Worker>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/frameCompositor.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompositorResponse>) => {
+      if (event.data.type === 'loaded') resolve(worker);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Frame compositor worker failed to load: ${event.message || 'unknown error'}`));
+    };
+  });
+}
+
+// Hands `canvas` to a loaded worker and resolves once it has set up its renderer.
+async function createWorkerCompositor(
+  worker: Worker,
+  canvas: OffscreenCanvas,
+  settings: VideoSettings,
+  geometry: OutputGeometry,
+  options: FrameCompositorOptions
+): Promise<FrameCompositor> {
+  let startup: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  const ready = new Promise<void>((resolve, reject) => { startup = { resolve, reject }; });
+  const pending = new Map<number, { resolve: (frame: VideoFrame) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  const failAll = (error: Error) => {
+    if (startup) {
+      startup.reject(error);
+      startup = null;
+      return;
+    }
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+    options.onError?.(error);
+  };
+
+  worker.onmessage = (event: MessageEvent<CompositorResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      startup?.resolve();
+      startup = null;
+    } else if (message.type === 'rendered') {
+      const request = pending.get(message.id);
+      pending.delete(message.id);
+      if (request) {
+        request.resolve(message.frame);
+      } else {
+        message.frame.close();
+      }
+    } else if (message.type === 'progress') {
+      options.onProgress?.(message.progress);
+    } else if (message.type === 'error') {
+      failAll(new Error(`Frame compositor failed: ${message.message}`));
+    }
+  };
+  worker.onerror = (event) => {
+    failAll(new Error(`Frame compositor worker crashed: ${event.message || 'unknown error'}`));
+  };
+
+  const post = (message: CompositorRequest, transfer: Transferable[]) => worker.postMessage(message, transfer);
+  post({ type: 'init', canvas, settings, geometry, outputDuration: options.outputDuration }, [canvas]);
+  try {
+    await ready;
+  } catch (error) {
+    worker.terminate();
+    throw error;
+  }
+
+  return {
+    drawFrame: (frame, outputTime, sourceTime) => {
+      post({ type: 'draw', frame, outputTime, sourceTime }, [frame]);
+    },
+    renderFrame: (frame, outputTime, sourceTime, duration) => new Promise<VideoFrame>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      post({ type: 'render', id, frame, outputTime, sourceTime, duration }, [frame]);
+    }),
+    setGeometry: (geometry) => {
+      post({ type: 'geometry', geometry }, []);
+    },
+    dispose: () => {
+      worker.terminate();
+      pending.forEach(({ reject }) => reject(new Error('Frame compositor disposed')));
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * Main-thread compositor with the same contract as the worker one, for
+ * browsers without module workers.
+ */
+function createInlineCompositor(
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  settings: VideoSettings,
+  geometry: OutputGeometry,
+  options: FrameCompositorOptions
+): FrameCompositor {
+  let renderer = createCanvasFrameRenderer(canvas, settings, geometry);
+  const draw = (frame: VideoFrame, outputTime: number, sourceTime: number) => {
+    try {
+      renderer.drawFrame(frame, outputTime, sourceTime);
+    } finally {
+      frame.close();
+    }
+    options.onProgress?.(compositorProgress(outputTime, options.outputDuration));
+  };
+
+  return {
+    drawFrame: draw,
+    renderFrame: async (frame, outputTime, sourceTime, duration) => {
+      draw(frame, outputTime, sourceTime);
+      return new VideoFrame(canvas, {
+        timestamp: Math.round(outputTime * 1e6),
+        duration: Math.round(duration * 1e6),
+      });
+    },
+    setGeometry: (nextGeometry) => {
+      renderer.dispose();
+      renderer = createCanvasFrameRenderer(canvas, settings, nextGeometry);
+    },
+    dispose: () => renderer.dispose(),
+  };
+}
+
+/**
+ * Creates the frame compositor for an export. `canvas` must already be sized
+ * to the output geometry. Compositing runs in a dedicated
+ * worker so filters and overlays don't compete with the React UI; without
+ * Worker support, or when the worker fails to load, it runs inline on the
+ * main thread. An HTMLCanvasElement is only transferred to the worker once
+ * the worker has loaded. Rejects when the worker can't set up its renderer,
+ * since the canvas belongs to the worker by then.
+ */
+export async function createFrameCompositor(
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  settings: VideoSettings,
+  geometry: OutputGeometry,
+  options: FrameCompositorOptions
+): Promise<FrameCompositor> {
+  if (typeof Worker !== 'undefined') {
+    let worker: Worker | null = null;
+    try {
+      worker = await loadCompositorWorker();
+    } catch (e) {
+      console.warn('Compositing on the main thread:', e);
+    }
+    if (worker) {
+      const offscreen = 'transferControlToOffscreen' in canvas ? canvas.transferControlToOffscreen() : canvas;
+      return createWorkerCompositor(worker, offscreen, settings, geometry, options);
+    }
+  }
+  return createInlineCompositor(canvas, settings, geometry, options);
+}
@@ -0,0 +1,226 @@
+import { VideoSettings } from '../types';
+import { BLUR_BACKGROUND_DIM, BLUR_BACKGROUND_SAMPLES } from '../constants';
+import { applyColorLut, applyFilterChain } from './imageFilters';
+import { hasKeyframes, resolveSettingsAtTime } from './keyframes';
+import { hasToneAdjustments } from './toneCurves';
+import { hasWhiteBalance } from './whiteBalance';
+import { applyFilmGrain } from './filmGrain';
+import { frameSeed } from './random';
+import { OutputGeometry, Rect } from './outputGeometry';
+
+// Constants for rotating lines effect configuration
+const ROTATION_DURATION_SECONDS = 30; // Duration for one full 360-degree rotation
+
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface FrameRenderer {
+  /**
+   * Draws one source frame with every enabled effect onto the target context.
+   * `outputTime` is the frame's position in the exported video, in seconds;
+   * time-based overlays such as the rotating lines are derived from it.
+   * `sourceTime` is the frame's position in the source video, in seconds;
+   * keyframed settings are evaluated at it.
+   */
+  drawFrame: (source: CanvasImageSource, outputTime: number, sourceTime: number) => void;
+  /** Frees the renderer's GPU resources; the canvas keeps its last frame. */
+  dispose: () => void;
+}
+
+/**
+ * Angles (radians) of the two rotating lines at `outputTime`. The lines start
+ * perpendicular and turn in opposite directions.
+ */
+export function rotatingLineAngles(outputTime: number): [number, number] {
+  const rotation = ((2 * Math.PI) * outputTime) / ROTATION_DURATION_SECONDS;
+  return [
+    rotation % (2 * Math.PI),
+    ((Math.PI / 2 - rotation) % (2 * Math.PI) + (2 * Math.PI)) % (2 * Math.PI),
+  ];
+}
+
+/**
+ * Builds a canvas 2D filter string from VideoSettings. Mirrors the CSS filter
+ * preview but is applied per-frame when rendering the export.
+ */
+export function buildCanvasFilter(settings: VideoSettings): string {
+  const parts: string[] = [
+    `brightness(${settings.brightness}%)`,
+    `contrast(${settings.contrast}%)`,
+    `saturate(${settings.saturation}%)`,
+  ];
+  if (settings.hueRotate !== 0) parts.push(`hue-rotate(${settings.hueRotate}deg)`);
+  if (settings.blur > 0) parts.push(`blur(${settings.blur}px)`);
+  if (settings.sepia > 0) parts.push(`sepia(${settings.sepia}%)`);
+  if (settings.grayscale > 0) parts.push(`grayscale(${settings.grayscale}%)`);
+  return parts.join(' ');
+}
+
+function createScratchCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Draws `region` of the rotated source frame into `dest`. Unrotated sources
+ * use a plain cropped drawImage; rotated ones are drawn whole under a clip.
+ */
+function drawSourceRegion(
+  ctx: Canvas2DContext,
+  source: CanvasImageSource,
+  geometry: OutputGeometry,
+  region: Rect,
+  dest: Rect
+): void {
+  if (geometry.rotation === 0) {
+    ctx.drawImage(source, region.x, region.y, region.width, region.height, dest.x, dest.y, dest.width, dest.height);
+    return;
+  }
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(dest.x, dest.y, dest.width, dest.height);
+  ctx.clip();
+  ctx.translate(dest.x, dest.y);
+  ctx.scale(dest.width / region.width, dest.height / region.height);
+  ctx.translate(geometry.frameWidth / 2 - region.x, geometry.frameHeight / 2 - region.y);
+  ctx.rotate((geometry.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -geometry.sourceWidth / 2, -geometry.sourceHeight / 2, geometry.sourceWidth, geometry.sourceHeight);
+  ctx.restore();
+}
+
+/**
+ * Creates the 2D canvas renderer, used by both export paths when WebGL2 is
+ * unavailable (see createCanvasFrameRenderer). The target canvas must already
+ * be sized to `geometry.width` x `geometry.height`.
+ */
+export function createFrameRenderer(ctx: Canvas2DContext, settings: VideoSettings, geometry: OutputGeometry): FrameRenderer {
+  const width = ctx.canvas.width;
+  const height = ctx.canvas.height;
+  const { sourceRect, contentRect, backgroundSourceRect } = geometry;
+  const coversOutput = contentRect.width >= width && contentRect.height >= height;
+
+  const animated = hasKeyframes(settings);
+  const baseFilter = buildCanvasFilter(settings);
+  // Some browsers don't implement ctx.filter; filter the pixels on the CPU there.
+  // The LUT, white balance, levels, curves and unsharp mask have no ctx.filter
+  // equivalent, so they take the CPU path too.
+  const supportsCanvasFilter = typeof (ctx as { filter?: unknown }).filter === 'string'
+    && !settings.lut && !hasWhiteBalance(settings) && !hasToneAdjustments(settings) && settings.sharpenAmount <= 0;
+
+  // The vignette gradient is cached and only rebuilt when its strength changes.
+  let vignetteFill: CanvasGradient | null = null;
+  let vignetteAmount = 0;
+  const vignetteFor = (amount: number): CanvasGradient | null => {
+    if (amount <= 0) return null;
+    if (!vignetteFill || amount !== vignetteAmount) {
+      const cx = width / 2;
+      const cy = height / 2;
+      const outerRadius = Math.hypot(cx, cy);
+      vignetteFill = ctx.createRadialGradient(cx, cy, outerRadius * 0.5, cx, cy, outerRadius);
+      vignetteFill.addColorStop(0, 'rgba(0,0,0,0)');
+      vignetteFill.addColorStop(1, `rgba(0,0,0,${amount / 100})`);
+      vignetteAmount = amount;
+    }
+    return vignetteFill;
+  };
+
+  // Blurred-background fit: the backdrop is drawn into a tiny scratch canvas
+  // and scaled back up, which blurs it without relying on ctx.filter.
+  let backgroundCtx: Canvas2DContext | null = null;
+  if (backgroundSourceRect) {
+    const scratchWidth = BLUR_BACKGROUND_SAMPLES;
+    const scratchHeight = Math.max(1, Math.round((BLUR_BACKGROUND_SAMPLES * height) / width));
+    backgroundCtx = createScratchCanvas(scratchWidth, scratchHeight).getContext('2d') as Canvas2DContext | null;
+  }
+
+  const drawFrame = (source: CanvasImageSource, outputTime: number, sourceTime: number) => {
+    const frameSettings = animated ? resolveSettingsAtTime(settings, sourceTime) : settings;
+    if (!coversOutput) {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    ctx.save();
+    if (settings.flipHorizontal || settings.flipVertical) {
+      ctx.translate(settings.flipHorizontal ? width : 0, settings.flipVertical ? height : 0);
+      ctx.scale(settings.flipHorizontal ? -1 : 1, settings.flipVertical ? -1 : 1);
+    }
+    if (supportsCanvasFilter) ctx.filter = animated ? buildCanvasFilter(frameSettings) : baseFilter;
+    if (backgroundCtx && backgroundSourceRect) {
+      const scratch = backgroundCtx.canvas;
+      drawSourceRegion(backgroundCtx, source, geometry, backgroundSourceRect, {
+        x: 0, y: 0, width: scratch.width, height: scratch.height,
+      });
+      ctx.globalAlpha = BLUR_BACKGROUND_DIM;
+      ctx.drawImage(scratch, 0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+    drawSourceRegion(ctx, source, geometry, sourceRect, contentRect);
+    ctx.restore();
+
+    if (supportsCanvasFilter) {
+      // Reset filter for overlays that should not be filtered.
+      ctx.filter = 'none';
+    } else {
+      // Letterbox bars stay black, as with ctx.filter.
+      const region = backgroundSourceRect ? { x: 0, y: 0, width, height } : contentRect;
+      const x = Math.round(region.x);
+      const y = Math.round(region.y);
+      const image = ctx.getImageData(x, y, Math.round(region.width), Math.round(region.height));
+      if (settings.lut) applyColorLut(image, settings.lut, settings.lutIntensity, settings.lutInterpolation);
+      applyFilterChain(image, frameSettings);
+      ctx.putImageData(image, x, y);
+    }
+
+    if (settings.grainAmount > 0) {
+      const image = ctx.getImageData(0, 0, width, height);
+      applyFilmGrain(image, settings, frameSeed(settings.seed, outputTime));
+      ctx.putImageData(image, 0, 0);
+    }
+
+    if (settings.enableRotatingLines) {
+      const centerX = width / 2;
+      const centerY = height / 2;
+      const lineLength = Math.hypot(width, height);
+      const lineWidth = 1.5;
+
+      const [rotationAngle1, rotationAngle2] = rotatingLineAngles(outputTime);
+
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.rotate(rotationAngle1);
+      ctx.beginPath();
+      ctx.moveTo(-lineLength / 2, 0);
+      ctx.lineTo(lineLength / 2, 0);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.75)';
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+      ctx.restore();
+
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.rotate(rotationAngle2);
+      ctx.beginPath();
+      ctx.moveTo(0, -lineLength / 2);
+      ctx.lineTo(0, lineLength / 2);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.75)';
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    const vignette = vignetteFor(frameSettings.vignette);
+    if (vignette) {
+      ctx.save();
+      ctx.fillStyle = vignette;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+    }
+  };
+
+  return { drawFrame, dispose: () => {} };
+}
@@ -0,0 +1,727 @@
+import { ColorLut, VideoRotation, VideoSettings } from '../types';
+import { BLUR_BACKGROUND_DIM, BLUR_BACKGROUND_SAMPLES, FILM_GRAIN_STRENGTH, TONE_TABLE_SIZE } from '../constants';
+import { decodeLut } from './colorLut';
+import { hasToneAdjustments, toneTables } from './toneCurves';
+import { whiteBalanceMatrix } from './whiteBalance';
+import { Canvas2DContext, FrameRenderer, createFrameRenderer, rotatingLineAngles } from './frameRenderer';
+import { ColorMatrix3, grayscaleMatrix, hueRotateMatrix, saturateMatrix, sepiaMatrix } from './filterMatrices';
+import { hasKeyframes, peakSettingValue, resolveSettingsAtTime } from './keyframes';
+import { OutputGeometry, Rect } from './outputGeometry';
+import { grainCells } from './filmGrain';
+import { frameSeed } from './random';
+
+const LINE_WIDTH = 1.5;
+const LINE_ALPHA = 0.75;
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Separable gaussian blur along u_blurStep, shared by the blur and final passes.
+const BLUR_GLSL = `
+uniform sampler2D u_image;
+uniform vec2 u_blurStep;
+uniform float u_blurSigma;
+vec3 sampleBlurred(vec2 uv) {
+  if (u_blurSigma <= 0.0) return texture(u_image, uv).rgb;
+  int radius = int(ceil(u_blurSigma * 3.0));
+  float twoSigmaSq = 2.0 * u_blurSigma * u_blurSigma;
+  vec3 sum = vec3(0.0);
+  float total = 0.0;
+  for (int i = -radius; i <= radius; i++) {
+    float weight = exp(-float(i * i) / twoSigmaSq);
+    sum += texture(u_image, uv + u_blurStep * float(i)).rgb * weight;
+    total += weight;
+  }
+  return sum / total;
+}`;
+
+// 3D LUT lookup, mirroring sampleLut in services/colorLut.ts. The table is an
+// RGB32F 3D texture (red along x) read with texelFetch, so the interpolation
+// is done here rather than by the sampler.
+const LUT_GLSL = `
+uniform highp sampler3D u_lut;
+uniform bool u_lutEnabled;
+uniform int u_lutSize;
+uniform vec3 u_lutDomainMin;
+uniform vec3 u_lutDomainMax;
+uniform bool u_lutTetrahedral;
+uniform float u_lutIntensity;
+vec3 lutAt(ivec3 p) {
+  return texelFetch(u_lut, p, 0).rgb;
+}
+vec3 applyLut(vec3 color) {
+  if (!u_lutEnabled) return color;
+  float last = float(u_lutSize - 1);
+  vec3 p = clamp((color - u_lutDomainMin) / (u_lutDomainMax - u_lutDomainMin), 0.0, 1.0) * last;
+  vec3 p0 = min(floor(p), vec3(last - 1.0));
+  vec3 f = p - p0;
+  ivec3 i = ivec3(p0);
+  vec3 c000 = lutAt(i);
+  vec3 c111 = lutAt(i + ivec3(1));
+  vec3 graded;
+  if (!u_lutTetrahedral) {
+    vec3 c00 = mix(c000, lutAt(i + ivec3(1, 0, 0)), f.x);
+    vec3 c10 = mix(lutAt(i + ivec3(0, 1, 0)), lutAt(i + ivec3(1, 1, 0)), f.x);
+    vec3 c01 = mix(lutAt(i + ivec3(0, 0, 1)), lutAt(i + ivec3(1, 0, 1)), f.x);
+    vec3 c11 = mix(lutAt(i + ivec3(0, 1, 1)), c111, f.x);
+    graded = mix(mix(c00, c10, f.y), mix(c01, c11, f.y), f.z);
+  } else if (f.x >= f.y) {
+    if (f.y >= f.z) {
+      graded = (1.0 - f.x) * c000 + (f.x - f.y) * lutAt(i + ivec3(1, 0, 0)) + (f.y - f.z) * lutAt(i + ivec3(1, 1, 0)) + f.z * c111;
+    } else if (f.x >= f.z) {
+      graded = (1.0 - f.x) * c000 + (f.x - f.z) * lutAt(i + ivec3(1, 0, 0)) + (f.z - f.y) * lutAt(i + ivec3(1, 0, 1)) + f.y * c111;
+    } else {
+      graded = (1.0 - f.z) * c000 + (f.z - f.x) * lutAt(i + ivec3(0, 0, 1)) + (f.x - f.y) * lutAt(i + ivec3(1, 0, 1)) + f.y * c111;
+    }
+  } else if (f.z >= f.y) {
+    graded = (1.0 - f.z) * c000 + (f.z - f.y) * lutAt(i + ivec3(0, 0, 1)) + (f.y - f.x) * lutAt(i + ivec3(0, 1, 1)) + f.x * c111;
+  } else if (f.z >= f.x) {
+    graded = (1.0 - f.y) * c000 + (f.y - f.z) * lutAt(i + ivec3(0, 1, 0)) + (f.z - f.x) * lutAt(i + ivec3(0, 1, 1)) + f.x * c111;
+  } else {
+    graded = (1.0 - f.y) * c000 + (f.y - f.x) * lutAt(i + ivec3(0, 1, 0)) + (f.x - f.z) * lutAt(i + ivec3(1, 1, 0)) + f.z * c111;
+  }
+  return mix(color, graded, u_lutIntensity);
+}`;
+
+// Pass 1: rotation, crop/fit and flips, the LUT, white balance, then the
+// colour adjustments that precede blur in buildCanvasFilter, and the levels
+// and curves. Rects are normalized with a top-left
+// origin; u_sourceRect and u_backgroundRect are in the rotated frame.
+const COLOR_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 outColor;
+uniform sampler2D u_source;
+uniform bool u_flipHorizontal;
+uniform bool u_flipVertical;
+uniform mat3 u_frameToSource;
+uniform vec4 u_contentRect;
+uniform vec4 u_sourceRect;
+uniform bool u_blurredBackground;
+uniform vec4 u_backgroundRect;
+uniform float u_backgroundLod;
+uniform float u_backgroundDim;
+uniform mat3 u_whiteBalance;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform mat3 u_saturate;
+uniform mat3 u_hueRotate;
+uniform bool u_toneEnabled;
+uniform sampler2D u_tone;
+${LUT_GLSL}
+
+// Maps a point in the rotated frame to texture coordinates. Source textures
+// are uploaded with UNPACK_FLIP_Y, so y is flipped back.
+vec2 toTexture(vec2 p) {
+  vec2 source = (u_frameToSource * vec3(p, 1.0)).xy;
+  return vec2(source.x, 1.0 - source.y);
+}
+
+void main() {
+  vec2 p = vec2(v_uv.x, 1.0 - v_uv.y);
+  if (u_flipHorizontal) p.x = 1.0 - p.x;
+  if (u_flipVertical) p.y = 1.0 - p.y;
+  vec2 local = (p - u_contentRect.xy) / u_contentRect.zw;
+
+  vec3 c;
+  if (all(greaterThanEqual(local, vec2(0.0))) && all(lessThanEqual(local, vec2(1.0)))) {
+    c = texture(u_source, toTexture(u_sourceRect.xy + local * u_sourceRect.zw)).rgb;
+  } else if (u_blurredBackground) {
+    c = textureLod(u_source, toTexture(u_backgroundRect.xy + p * u_backgroundRect.zw), u_backgroundLod).rgb * u_backgroundDim;
+  } else {
+    // Letterbox bars stay black, as in the 2D path.
+    outColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+
+  c = applyLut(c);
+  c = clamp(u_whiteBalance * c, 0.0, 1.0);
+  c = clamp(c * u_brightness, 0.0, 1.0);
+  c = clamp(c * u_contrast + (0.5 - 0.5 * u_contrast), 0.0, 1.0);
+  c = clamp(u_saturate * c, 0.0, 1.0);
+  c = clamp(u_hueRotate * c, 0.0, 1.0);
+  if (u_toneEnabled) {
+    // Linear filtering between table entries, as feComponentTransfer does in the preview.
+    vec3 t = (c * ${TONE_TABLE_SIZE - 1}.0 + 0.5) / ${TONE_TABLE_SIZE}.0;
+    c = vec3(texture(u_tone, vec2(t.r, 0.5)).r, texture(u_tone, vec2(t.g, 0.5)).g, texture(u_tone, vec2(t.b, 0.5)).b);
+  }
+  outColor = vec4(c, 1.0);
+}`;
+
+// Between pass 1 and the blur (only when sharpening): the unsharp mask. The
+// blur shader first blurs pass 1 horizontally by the sharpen radius; this pass
+// does the vertical half, then adds the thresholded detail back onto pass 1's
+// output. Mirrors applyUnsharpMask.
+const SHARPEN_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 outColor;
+${BLUR_GLSL}
+uniform sampler2D u_original;
+uniform float u_sharpenAmount;
+uniform float u_sharpenThreshold;
+void main() {
+  vec3 original = texture(u_original, v_uv).rgb;
+  vec3 detail = original - sampleBlurred(v_uv);
+  vec3 mask = step(vec3(u_sharpenThreshold), abs(detail) * 255.0);
+  outColor = vec4(clamp(original + detail * mask * u_sharpenAmount, 0.0, 1.0), 1.0);
+}`;
+
+// Pass 2 (only when blurring): horizontal half of the gaussian.
+const BLUR_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 outColor;
+${BLUR_GLSL}
+void main() {
+  outColor = vec4(sampleBlurred(v_uv), 1.0);
+}`;
+
+// Final pass: vertical blur, sepia, grayscale, then the overlays. Film grain
+// follows the model in services/filmGrain.ts, reading its cell values from
+// u_grainCells (grainCells), one texel per cell.
+const FINAL_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 outColor;
+${BLUR_GLSL}
+uniform mat3 u_sepia;
+uniform mat3 u_grayscale;
+uniform vec2 u_resolution;
+uniform float u_grainStrength;
+uniform float u_grainSize;
+uniform bool u_grainColor;
+uniform float u_grainResponse;
+uniform highp sampler2D u_grainCells;
+uniform bool u_rotatingLines;
+uniform vec2 u_lineAngles;
+uniform float u_lineWidth;
+uniform float u_lineAlpha;
+uniform float u_vignette;
+
+// Value noise on the grain grid, roughly -1 to 1. Each field is independent.
+float grainCell(ivec2 cell, int field) {
+  return texelFetch(u_grainCells, cell, 0)[field];
+}
+float grain(vec2 px, int field) {
+  // Like applyFilmGrain, the grid is sampled at each pixel's top-left corner.
+  vec2 p = floor(px) / u_grainSize;
+  ivec2 cell = ivec2(floor(p));
+  vec2 f = fract(p);
+  f = f * f * (3.0 - 2.0 * f);
+  float top = mix(grainCell(cell, field), grainCell(cell + ivec2(1, 0), field), f.x);
+  float bottom = mix(grainCell(cell + ivec2(0, 1), field), grainCell(cell + ivec2(1), field), f.x);
+  return mix(top, bottom, f.y);
+}
+
+float lineCoverage(float distance) {
+  return clamp(u_lineWidth * 0.5 + 0.5 - distance, 0.0, 1.0);
+}
+
+void main() {
+  vec3 c = sampleBlurred(v_uv);
+  c = clamp(u_sepia * c, 0.0, 1.0);
+  c = clamp(u_grayscale * c, 0.0, 1.0);
+
+  // Pixel coordinates with a top-left origin, like the 2D canvas.
+  vec2 px = vec2(v_uv.x, 1.0 - v_uv.y) * u_resolution;
+
+  if (u_grainStrength > 0.0) {
+    vec3 n = u_grainColor ? vec3(grain(px, 0), grain(px, 1), grain(px, 2)) : vec3(grain(px, 0));
+    float fromMid = 2.0 * dot(c, vec3(0.2126, 0.7152, 0.0722)) - 1.0;
+    c = clamp(c + n * u_grainStrength * (1.0 - u_grainResponse * fromMid * fromMid), 0.0, 1.0);
+  }
+
+  if (u_rotatingLines) {
+    vec2 d = px - u_resolution * 0.5;
+    float d1 = abs(d.x * sin(u_lineAngles.x) - d.y * cos(u_lineAngles.x));
+    float d2 = abs(d.x * cos(u_lineAngles.y) + d.y * sin(u_lineAngles.y));
+    c = mix(c, vec3(1.0), u_lineAlpha * lineCoverage(d1));
+    c = mix(c, vec3(1.0), u_lineAlpha * lineCoverage(d2));
+  }
+
+  if (u_vignette > 0.0) {
+    float outerRadius = length(u_resolution * 0.5);
+    float t = clamp((length(px - u_resolution * 0.5) / outerRadius - 0.5) / 0.5, 0.0, 1.0);
+    c *= 1.0 - u_vignette * t;
+  }
+
+  outColor = vec4(c, 1.0);
+}`;
+
+// Preview only: the source through the LUT. CSS filters do the rest there.
+const LUT_PREVIEW_SHADER = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+out vec4 outColor;
+uniform sampler2D u_source;
+${LUT_GLSL}
+void main() {
+  outColor = vec4(applyLut(texture(u_source, v_uv).rgb), 1.0);
+}`;
+
+type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Row-major affine maps from normalized rotated-frame coordinates back to
+// normalized source coordinates, per clockwise rotation.
+const FRAME_TO_SOURCE: Record<VideoRotation, ColorMatrix3> = {
+  0: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  90: [0, 1, 0, -1, 0, 1, 0, 0, 1],
+  180: [-1, 0, 1, 0, -1, 1, 0, 0, 1],
+  270: [0, -1, 1, 1, 0, 0, 0, 0, 1],
+};
+
+function compileProgram(gl: WebGL2RenderingContext, fragmentSource: string): WebGLProgram | null {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.warn('WebGL shader compile failed:', gl.getShaderInfoLog(shader));
+      gl.deleteShader(shader);
+      return null;
+    }
+    return shader;
+  };
+
+  const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vertexShader || !fragmentShader || !program) return null;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.bindAttribLocation(program, 0, 'a_position');
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('WebGL program link failed:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+function createTexture(gl: WebGL2RenderingContext, width?: number, height?: number): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  if (width && height) {
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, width, height);
+  }
+  return texture;
+}
+
+/**
+ * Uploads `lut` to texture unit 1 and points `program`'s LUT uniforms at it.
+ * Must run before UNPACK_FLIP_Y_WEBGL is turned on, which WebGL2 doesn't
+ * allow for 3D uploads. Returns false when the texture can't be created.
+ */
+function setUpLut(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  lut: ColorLut | null,
+  settings: VideoSettings
+): WebGLTexture | null | false {
+  gl.useProgram(program);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_lutEnabled'), lut ? 1 : 0);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_lut'), 1);
+  if (!lut) return null;
+
+  const texture = gl.createTexture();
+  if (!texture) return false;
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_3D, texture);
+  gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB32F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, decodeLut(lut));
+  gl.activeTexture(gl.TEXTURE0);
+
+  gl.uniform1i(gl.getUniformLocation(program, 'u_lutSize'), lut.size);
+  gl.uniform3fv(gl.getUniformLocation(program, 'u_lutDomainMin'), lut.domainMin);
+  gl.uniform3fv(gl.getUniformLocation(program, 'u_lutDomainMax'), lut.domainMax);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_lutTetrahedral'), settings.lutInterpolation === 'tetrahedral' ? 1 : 0);
+  gl.uniform1f(gl.getUniformLocation(program, 'u_lutIntensity'), Math.min(1, Math.max(0, settings.lutIntensity / 100)));
+  return texture;
+}
+
+/**
+ * Uploads the levels and curves table (toneTables) to texture unit 2 for the
+ * colour pass. Returns false when the texture can't be created.
+ */
+function setUpToneCurves(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  settings: VideoSettings
+): WebGLTexture | null | false {
+  const enabled = hasToneAdjustments(settings);
+  gl.useProgram(program);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_toneEnabled'), enabled ? 1 : 0);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_tone'), 2);
+  if (!enabled) return null;
+
+  const texture = createTexture(gl);
+  if (!texture) return false;
+  const [red, green, blue] = toneTables(settings);
+  const data = new Float32Array(TONE_TABLE_SIZE * 4);
+  for (let i = 0; i < TONE_TABLE_SIZE; i++) {
+    data.set([red[i], green[i], blue[i], 1], i * 4);
+  }
+  gl.activeTexture(gl.TEXTURE2);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, TONE_TABLE_SIZE, 1, 0, gl.RGBA, gl.FLOAT, data);
+  gl.activeTexture(gl.TEXTURE0);
+  return texture;
+}
+
+/**
+ * Renders every VideoSettings effect with WebGL2 fragment shaders: a colour
+ * pass, optional unsharp mask and horizontal blur passes, and a final pass
+ * for vertical blur, sepia, grayscale, film grain, rotating lines and vignette. Returns null when
+ * WebGL2 is unavailable or the shaders fail to build.
+ */
+export function createWebGLFrameRenderer(
+  canvas: RenderCanvas,
+  settings: VideoSettings,
+  geometry: OutputGeometry
+): FrameRenderer | null {
+  const gl = (canvas as OffscreenCanvas).getContext('webgl2', {
+    alpha: false,
+    antialias: false,
+    depth: false,
+    stencil: false,
+    // Export frames are snapshotted after drawing (VideoFrame / captureStream).
+    preserveDrawingBuffer: true,
+  }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  const { width, height } = canvas;
+  const colorProgram = compileProgram(gl, COLOR_SHADER);
+  const blurProgram = compileProgram(gl, BLUR_SHADER);
+  const finalProgram = compileProgram(gl, FINAL_SHADER);
+  if (!colorProgram || !blurProgram || !finalProgram) return null;
+  // The unsharp mask's horizontal pass is the blur shader with its own sigma.
+  const sharpening = settings.sharpenAmount > 0;
+  const sharpenBlurProgram = sharpening ? compileProgram(gl, BLUR_SHADER) : null;
+  const sharpenProgram = sharpening ? compileProgram(gl, SHARPEN_SHADER) : null;
+  if (sharpening && (!sharpenBlurProgram || !sharpenProgram)) return null;
+
+  // One oversized triangle covers the viewport.
+  const vertexArray = gl.createVertexArray();
+  gl.bindVertexArray(vertexArray);
+  const vertexBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  // Keyframed blur may start at 0, so the blur pass exists if it is ever used.
+  const blurring = peakSettingValue(settings, 'blur') > 0;
+  const sourceTexture = createTexture(gl);
+  const colorTexture = createTexture(gl, width, height);
+  const blurTexture = blurring ? createTexture(gl, width, height) : null;
+  const sharpenBlurTexture = sharpening ? createTexture(gl, width, height) : null;
+  const sharpenedTexture = sharpening ? createTexture(gl, width, height) : null;
+  if (!sourceTexture || !colorTexture || (blurring && !blurTexture)) return null;
+  if (sharpening && (!sharpenBlurTexture || !sharpenedTexture)) return null;
+
+  const createFramebuffer = (texture: WebGLTexture) => {
+    const framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return framebuffer;
+  };
+  const colorFramebuffer = createFramebuffer(colorTexture);
+  const blurFramebuffer = blurTexture ? createFramebuffer(blurTexture) : null;
+  const sharpenBlurFramebuffer = sharpenBlurTexture ? createFramebuffer(sharpenBlurTexture) : null;
+  const sharpenFramebuffer = sharpenedTexture ? createFramebuffer(sharpenedTexture) : null;
+
+  const { frameWidth, frameHeight, backgroundSourceRect } = geometry;
+  const setRect = (program: WebGLProgram, name: string, rect: Rect, rectWidth: number, rectHeight: number) => {
+    gl.uniform4f(
+      gl.getUniformLocation(program, name),
+      rect.x / rectWidth, rect.y / rectHeight, rect.width / rectWidth, rect.height / rectHeight
+    );
+  };
+  const setMatrix = (program: WebGLProgram, name: string, matrix: ColorMatrix3) => {
+    gl.uniformMatrix3fv(gl.getUniformLocation(program, name), true, matrix);
+  };
+
+  // Static uniforms are set once here; setAnimatedUniforms covers the
+  // keyframeable ones and runs per frame when any setting is animated.
+  gl.useProgram(colorProgram);
+  gl.uniform1i(gl.getUniformLocation(colorProgram, 'u_source'), 0);
+  gl.uniform1i(gl.getUniformLocation(colorProgram, 'u_flipHorizontal'), settings.flipHorizontal ? 1 : 0);
+  gl.uniform1i(gl.getUniformLocation(colorProgram, 'u_flipVertical'), settings.flipVertical ? 1 : 0);
+  setMatrix(colorProgram, 'u_frameToSource', FRAME_TO_SOURCE[geometry.rotation]);
+  setRect(colorProgram, 'u_contentRect', geometry.contentRect, width, height);
+  setRect(colorProgram, 'u_sourceRect', geometry.sourceRect, frameWidth, frameHeight);
+  gl.uniform1i(gl.getUniformLocation(colorProgram, 'u_blurredBackground'), backgroundSourceRect ? 1 : 0);
+  if (backgroundSourceRect) {
+    setRect(colorProgram, 'u_backgroundRect', backgroundSourceRect, frameWidth, frameHeight);
+    // Sample from the mip level where the backdrop is about BLUR_BACKGROUND_SAMPLES texels wide.
+    gl.uniform1f(
+      gl.getUniformLocation(colorProgram, 'u_backgroundLod'),
+      Math.max(0, Math.log2(backgroundSourceRect.width / BLUR_BACKGROUND_SAMPLES))
+    );
+    gl.uniform1f(gl.getUniformLocation(colorProgram, 'u_backgroundDim'), BLUR_BACKGROUND_DIM);
+  }
+  setMatrix(colorProgram, 'u_whiteBalance', whiteBalanceMatrix(settings.temperature, settings.tint));
+  const lutTexture = setUpLut(gl, colorProgram, settings.lut, settings);
+  if (lutTexture === false) return null;
+  const toneTexture = setUpToneCurves(gl, colorProgram, settings);
+  if (toneTexture === false) return null;
+
+  if (sharpenBlurProgram && sharpenProgram) {
+    gl.useProgram(sharpenBlurProgram);
+    gl.uniform1i(gl.getUniformLocation(sharpenBlurProgram, 'u_image'), 0);
+    gl.uniform2f(gl.getUniformLocation(sharpenBlurProgram, 'u_blurStep'), 1 / width, 0);
+    gl.uniform1f(gl.getUniformLocation(sharpenBlurProgram, 'u_blurSigma'), settings.sharpenRadius);
+    gl.useProgram(sharpenProgram);
+    gl.uniform1i(gl.getUniformLocation(sharpenProgram, 'u_image'), 0);
+    gl.uniform2f(gl.getUniformLocation(sharpenProgram, 'u_blurStep'), 0, 1 / height);
+    gl.uniform1f(gl.getUniformLocation(sharpenProgram, 'u_blurSigma'), settings.sharpenRadius);
+    gl.uniform1f(gl.getUniformLocation(sharpenProgram, 'u_sharpenAmount'), settings.sharpenAmount / 100);
+    gl.uniform1f(gl.getUniformLocation(sharpenProgram, 'u_sharpenThreshold'), settings.sharpenThreshold);
+    // The unsharped colour pass output stays on unit 3.
+    gl.uniform1i(gl.getUniformLocation(sharpenProgram, 'u_original'), 3);
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, colorTexture);
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  gl.useProgram(blurProgram);
+  gl.uniform1i(gl.getUniformLocation(blurProgram, 'u_image'), 0);
+  gl.uniform2f(gl.getUniformLocation(blurProgram, 'u_blurStep'), 1 / width, 0);
+
+  gl.useProgram(finalProgram);
+  gl.uniform1i(gl.getUniformLocation(finalProgram, 'u_image'), 0);
+  gl.uniform2f(gl.getUniformLocation(finalProgram, 'u_blurStep'), 0, 1 / height);
+  gl.uniform2f(gl.getUniformLocation(finalProgram, 'u_resolution'), width, height);
+  gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_grainStrength'), (settings.grainAmount / 100) * FILM_GRAIN_STRENGTH);
+  gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_grainSize'), Math.max(1, settings.grainSize));
+  gl.uniform1i(gl.getUniformLocation(finalProgram, 'u_grainColor'), settings.grainColor ? 1 : 0);
+  gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_grainResponse'), settings.grainLuminanceResponse / 100);
+  gl.uniform1i(gl.getUniformLocation(finalProgram, 'u_rotatingLines'), settings.enableRotatingLines ? 1 : 0);
+  gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_lineWidth'), LINE_WIDTH);
+  gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_lineAlpha'), LINE_ALPHA);
+  // The grain cells are regenerated per frame on unit 4.
+  gl.uniform1i(gl.getUniformLocation(finalProgram, 'u_grainCells'), 4);
+  const grainTexture = settings.grainAmount > 0 ? gl.createTexture() : null;
+  if (settings.grainAmount > 0 && !grainTexture) return null;
+  if (grainTexture) {
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, grainTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.activeTexture(gl.TEXTURE0);
+  }
+  const lineAnglesLocation = gl.getUniformLocation(finalProgram, 'u_lineAngles');
+
+  const setAnimatedUniforms = (frameSettings: VideoSettings) => {
+    gl.useProgram(colorProgram);
+    gl.uniform1f(gl.getUniformLocation(colorProgram, 'u_brightness'), frameSettings.brightness / 100);
+    gl.uniform1f(gl.getUniformLocation(colorProgram, 'u_contrast'), frameSettings.contrast / 100);
+    setMatrix(colorProgram, 'u_saturate', saturateMatrix(frameSettings.saturation / 100));
+    setMatrix(colorProgram, 'u_hueRotate', hueRotateMatrix(frameSettings.hueRotate));
+
+    gl.useProgram(blurProgram);
+    gl.uniform1f(gl.getUniformLocation(blurProgram, 'u_blurSigma'), frameSettings.blur);
+
+    gl.useProgram(finalProgram);
+    gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_blurSigma'), frameSettings.blur);
+    setMatrix(finalProgram, 'u_sepia', sepiaMatrix(frameSettings.sepia / 100));
+    setMatrix(finalProgram, 'u_grayscale', grayscaleMatrix(frameSettings.grayscale / 100));
+    gl.uniform1f(gl.getUniformLocation(finalProgram, 'u_vignette'), frameSettings.vignette / 100);
+  };
+  const animated = hasKeyframes(settings);
+  setAnimatedUniforms(settings);
+
+  if (backgroundSourceRect) {
+    gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  }
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.viewport(0, 0, width, height);
+  gl.activeTexture(gl.TEXTURE0);
+
+  const drawFrame = (source: CanvasImageSource, outputTime: number, sourceTime: number) => {
+    if (animated) setAnimatedUniforms(resolveSettingsAtTime(settings, sourceTime));
+    gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source as TexImageSource);
+    if (backgroundSourceRect) gl.generateMipmap(gl.TEXTURE_2D);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, colorFramebuffer);
+    gl.useProgram(colorProgram);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    gl.bindTexture(gl.TEXTURE_2D, colorTexture);
+    if (sharpenBlurFramebuffer && sharpenFramebuffer && sharpenBlurProgram && sharpenProgram) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, sharpenBlurFramebuffer);
+      gl.useProgram(sharpenBlurProgram);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindTexture(gl.TEXTURE_2D, sharpenBlurTexture);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, sharpenFramebuffer);
+      gl.useProgram(sharpenProgram);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindTexture(gl.TEXTURE_2D, sharpenedTexture);
+    }
+    if (blurFramebuffer) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, blurFramebuffer);
+      gl.useProgram(blurProgram);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindTexture(gl.TEXTURE_2D, blurTexture);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.useProgram(finalProgram);
+    if (grainTexture) {
+      const { cells, columns, rows, fields } = grainCells(settings, width, height, frameSeed(settings.seed, outputTime));
+      gl.activeTexture(gl.TEXTURE4);
+      gl.bindTexture(gl.TEXTURE_2D, grainTexture);
+      // The cells are stored top row first, as the shader reads them.
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+      gl.texImage2D(
+        gl.TEXTURE_2D, 0, fields === 3 ? gl.RGB32F : gl.R32F, columns, rows, 0,
+        fields === 3 ? gl.RGB : gl.RED, gl.FLOAT, cells
+      );
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.activeTexture(gl.TEXTURE0);
+    }
+    gl.uniform2fv(lineAnglesLocation, rotatingLineAngles(outputTime));
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  const dispose = () => {
+    [colorProgram, blurProgram, finalProgram, sharpenBlurProgram, sharpenProgram]
+      .forEach((program) => gl.deleteProgram(program));
+    [sourceTexture, colorTexture, blurTexture, sharpenBlurTexture, sharpenedTexture, lutTexture, toneTexture, grainTexture]
+      .forEach((texture) => gl.deleteTexture(texture));
+    [colorFramebuffer, blurFramebuffer, sharpenBlurFramebuffer, sharpenFramebuffer]
+      .forEach((framebuffer) => gl.deleteFramebuffer(framebuffer));
+    gl.deleteBuffer(vertexBuffer);
+    gl.deleteVertexArray(vertexArray);
+    // A later renderer on this context uploads its LUT before turning this back on.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  };
+
+  return { drawFrame, dispose };
+}
+
+export interface LutPreviewRenderer {
+  /** Draws `source` through the LUT, resizing the canvas to `width` x `height` first if needed. */
+  drawFrame: (source: TexImageSource, width: number, height: number) => void;
+  /** Frees the GL resources; the canvas keeps its last frame. */
+  dispose: () => void;
+}
+
+/**
+ * Draws video frames through settings.lut for the preview, which shows the
+ * other colour adjustments as CSS filters on top, as the export applies them
+ * after the LUT. Returns null when WebGL2 is unavailable, the shader fails to
+ * build or there is no LUT.
+ */
+export function createLutPreviewRenderer(canvas: HTMLCanvasElement, settings: VideoSettings): LutPreviewRenderer | null {
+  if (!settings.lut) return null;
+  const gl = canvas.getContext('webgl2', { alpha: false, antialias: false, depth: false, stencil: false });
+  if (!gl) return null;
+  const program = compileProgram(gl, LUT_PREVIEW_SHADER);
+  if (!program) return null;
+
+  const vertexArray = gl.createVertexArray();
+  const vertexBuffer = gl.createBuffer();
+  gl.bindVertexArray(vertexArray);
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  const lutTexture = setUpLut(gl, program, settings.lut, settings);
+  const sourceTexture = createTexture(gl);
+  if (!lutTexture || !sourceTexture) {
+    gl.deleteProgram(program);
+    return null;
+  }
+  gl.uniform1i(gl.getUniformLocation(program, 'u_source'), 0);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.activeTexture(gl.TEXTURE0);
+
+  return {
+    drawFrame: (source, width, height) => {
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+      gl.useProgram(program);
+      gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    },
+    dispose: () => {
+      gl.deleteTexture(sourceTexture);
+      gl.deleteTexture(lutTexture);
+      gl.deleteBuffer(vertexBuffer);
+      gl.deleteVertexArray(vertexArray);
+      gl.deleteProgram(program);
+    },
+  };
+}
+
+// Canvases already drawn on by a WebGL renderer; they can't give out a 2D context.
+const webGLCanvases = new WeakSet<RenderCanvas>();
+
+// Builds the WebGL pipeline on a throwaway canvas of the same size. A canvas
+// that once handed out a WebGL2 context can't switch to 2D, so the pipeline
+// has to be known to work before it goes on the export canvas.
+function canRenderWithWebGL(canvas: RenderCanvas, settings: VideoSettings, geometry: OutputGeometry): boolean {
+  let scratch: RenderCanvas;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    scratch = new OffscreenCanvas(canvas.width, canvas.height);
+  } else {
+    scratch = document.createElement('canvas');
+    scratch.width = canvas.width;
+    scratch.height = canvas.height;
+  }
+  const renderer = createWebGLFrameRenderer(scratch, settings, geometry);
+  const gl = (scratch as OffscreenCanvas).getContext('webgl2') as WebGL2RenderingContext | null;
+  gl?.getExtension('WEBGL_lose_context')?.loseContext();
+  return renderer !== null;
+}
+
+/**
+ * Creates the frame renderer for an export canvas: the WebGL2 shader pipeline
+ * where available, otherwise the 2D canvas path.
+ */
+export function createCanvasFrameRenderer(
+  canvas: RenderCanvas,
+  settings: VideoSettings,
+  geometry: OutputGeometry
+): FrameRenderer {
+  if (webGLCanvases.has(canvas) || canRenderWithWebGL(canvas, settings, geometry)) {
+    const glRenderer = createWebGLFrameRenderer(canvas, settings, geometry);
+    if (!glRenderer) {
+      throw new Error('Could not set up the WebGL renderer.');
+    }
+    webGLCanvases.add(canvas);
+    return glRenderer;
+  }
+
+  const ctx = (canvas as OffscreenCanvas).getContext('2d', { alpha: false }) as Canvas2DContext | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context.');
+  }
+  return createFrameRenderer(ctx, settings, geometry);
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS } from '../constants';
+import {
+  PixelBuffer,
+  applyBrightness,
+  applyContrast,
+  applyGaussianBlur,
+  applyGrayscale,
+  applyHueRotate,
+  applySaturate,
+  applySepia,
+  applyVignette,
+  applyVideoSettings,
+} from './imageFilters';
+
+type Rgb = [number, number, number];
+
+const RED: Rgb = [255, 0, 0];
+const GREEN: Rgb = [0, 255, 0];
+const BLUE: Rgb = [0, 0, 255];
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+// A width x height opaque image with each pixel coloured by `color(x, y)`.
+function makeImage(width: number, height: number, color: (x: number, y: number) => Rgb): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function pixel(image: PixelBuffer, x: number, y: number): Rgb {
+  const i = (y * image.width + x) * 4;
+  return [image.data[i], image.data[i + 1], image.data[i + 2]];
+}
+
+function withSettings(overrides: Partial<VideoSettings>): VideoSettings {
+  return { ...DEFAULT_VIDEO_SETTINGS, ...overrides };
+}
+
+// A 1x1 image of `color`, run through `filter`.
+function filtered(color: Rgb, filter: (image: PixelBuffer) => void): Rgb {
+  const image = makeImage(1, 1, () => color);
+  filter(image);
+  return pixel(image, 0, 0);
+}
+
+// Expected values below come from the Filter Effects Module Level 1 formulas,
+// worked out on the 0-255 scale and rounded.
+describe('CSS filter functions', () => {
+  it('brightness scales each channel', () => {
+    // C * 0.5
+    expect(filtered([200, 100, 51], (image) => applyBrightness(image, 50))).toEqual([100, 50, 26]);
+  });
+
+  it('contrast scales each channel about mid-grey', () => {
+    // C * 0.5 + 255 * (0.5 - 0.5 * 0.5)
+    expect(filtered([200, 40, 255], (image) => applyContrast(image, 50))).toEqual([164, 84, 191]);
+  });
+
+  it('saturate follows the spec matrix', () => {
+    // Fully desaturated red: 0.213 * 255 on every channel.
+    expect(filtered([255, 0, 0], (image) => applySaturate(image, 0))).toEqual([54, 54, 54]);
+    // saturate(2): R = 1.787 * 100 - 0.715 * 150 - 0.072 * 200, and so on.
+    expect(filtered([100, 150, 200], (image) => applySaturate(image, 200))).toEqual([57, 157, 255]);
+  });
+
+  it('hue-rotate follows the spec matrix', () => {
+    // At 180 degrees the first column is (0.213 - 0.787, 0.213 + 0.213, 0.213 + 0.213).
+    expect(filtered([255, 0, 0], (image) => applyHueRotate(image, 180))).toEqual([0, 109, 109]);
+    // At 90 degrees the blue column is (0.072 + 0.928, 0.072 - 0.283, 0.072 + 0.072).
+    expect(filtered([0, 0, 255], (image) => applyHueRotate(image, 90))).toEqual([255, 0, 37]);
+  });
+
+  it('sepia follows the spec matrix', () => {
+    // Full sepia of grey: the row sums 1.351, 1.203 and 0.937 times 100.
+    expect(filtered([100, 100, 100], (image) => applySepia(image, 100))).toEqual([135, 120, 94]);
+  });
+
+  it('grayscale follows the spec matrix', () => {
+    expect(filtered([255, 0, 0], (image) => applyGrayscale(image, 100))).toEqual([54, 54, 54]);
+    // Half way: the red column is (0.2126 + 0.7874 * 0.5, 0.2126 - 0.2126 * 0.5, ...).
+    expect(filtered([255, 0, 0], (image) => applyGrayscale(image, 50))).toEqual([155, 27, 27]);
+  });
+
+  it('blur spreads a point with gaussian weights', () => {
+    // sigma 1: the 1D weight at offset k is exp(-k^2 / 2) / 2.50595.
+    const image = makeImage(7, 7, (x, y) => (x === 3 && y === 3 ? [255, 255, 255] : [0, 0, 0]));
+    applyGaussianBlur(image, 1);
+    expect(pixel(image, 3, 3)).toEqual([41, 41, 41]);
+    expect(pixel(image, 4, 3)).toEqual([25, 25, 25]);
+    expect(pixel(image, 2, 4)).toEqual([15, 15, 15]);
+
+    const flat = makeImage(3, 3, () => [90, 90, 90]);
+    applyGaussianBlur(flat, 2);
+    expect(pixel(flat, 0, 0)).toEqual([90, 90, 90]);
+  });
+
+  it('vignette darkens towards the corners only', () => {
+    // In a 10x10 frame the corner pixel is 0.9 of the way to the corner,
+    // so it loses strength * (0.9 - 0.5) / 0.5 of its value.
+    const image = makeImage(10, 10, () => [200, 200, 200]);
+    applyVignette(image, 50);
+    expect(pixel(image, 0, 0)).toEqual([120, 120, 120]);
+    expect(pixel(image, 4, 4)).toEqual([200, 200, 200]);
+  });
+});
+
+// Left half red, right half blue.
+const halves = () => makeImage(4, 2, (x) => (x < 2 ? RED : BLUE));
+
+describe('applyVideoSettings', () => {
+  it('leaves the source unchanged with the default settings', () => {
+    const source = makeImage(4, 2, (x, y) => [x * 60, y * 100, 200]);
+    const output = applyVideoSettings(source, DEFAULT_VIDEO_SETTINGS);
+    expect([output.width, output.height]).toEqual([4, 2]);
+    expect(Array.from(output.data)).toEqual(Array.from(source.data));
+  });
+
+  it('flips horizontally and vertically', () => {
+    const source = makeImage(2, 2, (x, y) => (y === 0 ? (x === 0 ? RED : GREEN) : (x === 0 ? BLUE : WHITE)));
+    const horizontal = applyVideoSettings(source, withSettings({ flipHorizontal: true }));
+    expect(pixel(horizontal, 0, 0)).toEqual(GREEN);
+    expect(pixel(horizontal, 1, 1)).toEqual(BLUE);
+    const vertical = applyVideoSettings(source, withSettings({ flipVertical: true }));
+    expect(pixel(vertical, 0, 0)).toEqual(BLUE);
+    expect(pixel(vertical, 1, 1)).toEqual(GREEN);
+  });
+
+  it('rotates clockwise by quarter turns', () => {
+    const quarter = applyVideoSettings(halves(), withSettings({ rotation: 90 }));
+    expect([quarter.width, quarter.height]).toEqual([2, 4]);
+    expect(pixel(quarter, 0, 0)).toEqual(RED);
+    expect(pixel(quarter, 1, 3)).toEqual(BLUE);
+
+    const threeQuarters = applyVideoSettings(halves(), withSettings({ rotation: 270 }));
+    expect(pixel(threeQuarters, 0, 0)).toEqual(BLUE);
+    expect(pixel(threeQuarters, 1, 3)).toEqual(RED);
+  });
+
+  it('keeps only the cropped region', () => {
+    const quadrants = makeImage(4, 4, (x, y) => (y < 2 ? (x < 2 ? RED : GREEN) : (x < 2 ? BLUE : WHITE)));
+    const output = applyVideoSettings(quadrants, withSettings({ cropLeft: 50, cropTop: 50, cropWidth: 50, cropHeight: 50 }));
+    expect([output.width, output.height]).toEqual([2, 2]);
+    for (let y = 0; y < 2; y++) {
+      for (let x = 0; x < 2; x++) expect(pixel(output, x, y)).toEqual(WHITE);
+    }
+  });
+
+  it('letterboxes into the target size and keeps the bars black', () => {
+    const grey = makeImage(4, 2, () => [128, 128, 128]);
+    const output = applyVideoSettings(grey, withSettings({ outputWidth: 4, outputHeight: 4, brightness: 150 }));
+    expect([output.width, output.height]).toEqual([4, 4]);
+    expect(pixel(output, 0, 0)).toEqual(BLACK);
+    expect(pixel(output, 3, 3)).toEqual(BLACK);
+    expect(pixel(output, 0, 1)).toEqual([192, 192, 192]);
+    expect(pixel(output, 3, 2)).toEqual([192, 192, 192]);
+  });
+
+  it('fills the target size by cropping the middle of the frame', () => {
+    const columns: Rgb[] = [RED, GREEN, BLUE, WHITE];
+    const source = makeImage(4, 2, (x) => columns[x]);
+    const output = applyVideoSettings(source, withSettings({ outputWidth: 2, outputHeight: 2, fitMode: 'fill' }));
+    expect(pixel(output, 0, 0)).toEqual(GREEN);
+    expect(pixel(output, 1, 1)).toEqual(BLUE);
+  });
+
+  it('puts a dimmed backdrop behind the blur fit', () => {
+    const white = makeImage(4, 2, () => WHITE);
+    const output = applyVideoSettings(white, withSettings({ outputWidth: 4, outputHeight: 4, fitMode: 'blur' }));
+    expect(pixel(output, 0, 0)).toEqual([153, 153, 153]);
+    expect(pixel(output, 0, 1)).toEqual(WHITE);
+  });
+});
@@ -0,0 +1,391 @@
+import { ColorLut, LutInterpolation, VideoRotation, VideoSettings } from '../types';
+import { BLUR_BACKGROUND_DIM, BLUR_BACKGROUND_SAMPLES } from '../constants';
+import { decodeLut, sampleLut } from './colorLut';
+import { OutputGeometry, Rect, resolveOutputGeometry } from './outputGeometry';
+import { hasToneAdjustments, toneTables } from './toneCurves';
+import { hasWhiteBalance, whiteBalanceMatrix } from './whiteBalance';
+import {
+  ColorMatrix3,
+  grayscaleMatrix,
+  hueRotateMatrix,
+  saturateMatrix,
+  sepiaMatrix,
+} from './filterMatrices';
+
+// Reference CPU implementation of the export filters. Everything here works on
+// plain RGBA pixel buffers and has no DOM dependency, so it runs in Node as
+// well as in the browser. The filters edit the buffer in place, while the
+// geometry stages (renderOutputGeometry, applyVideoSettings) return a new,
+// output-sized one. Results are rounded and clamped to 8 bits after every
+// step, like a chain of separate CSS filter functions.
+
+/** Structural subset of ImageData, so callers outside the DOM can build one. */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Applies `channel * slope + intercept` (0-1 scale) to R, G and B. */
+function applyLinearTransfer(image: PixelBuffer, slope: number, intercept: number): void {
+  const { data } = image;
+  const offset = intercept * 255;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i] * slope + offset;
+    data[i + 1] = data[i + 1] * slope + offset;
+    data[i + 2] = data[i + 2] * slope + offset;
+  }
+}
+
+/** Multiplies R, G and B by a row-major 3x3 colour matrix. */
+export function applyColorMatrix(image: PixelBuffer, matrix: ColorMatrix3): void {
+  const { data } = image;
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = matrix;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    data[i] = m0 * r + m1 * g + m2 * b;
+    data[i + 1] = m3 * r + m4 * g + m5 * b;
+    data[i + 2] = m6 * r + m7 * g + m8 * b;
+  }
+}
+
+/** brightness(percent): 100 leaves the image unchanged. */
+export function applyBrightness(image: PixelBuffer, percent: number): void {
+  applyLinearTransfer(image, percent / 100, 0);
+}
+
+/** contrast(percent): 100 leaves the image unchanged. */
+export function applyContrast(image: PixelBuffer, percent: number): void {
+  const amount = percent / 100;
+  applyLinearTransfer(image, amount, 0.5 - 0.5 * amount);
+}
+
+/** saturate(percent): 100 leaves the image unchanged. */
+export function applySaturate(image: PixelBuffer, percent: number): void {
+  applyColorMatrix(image, saturateMatrix(percent / 100));
+}
+
+/** hue-rotate(degrees). */
+export function applyHueRotate(image: PixelBuffer, degrees: number): void {
+  applyColorMatrix(image, hueRotateMatrix(degrees));
+}
+
+/** Temperature and tint (see whiteBalanceMatrix): 0, 0 leaves the image unchanged. */
+export function applyWhiteBalance(image: PixelBuffer, temperature: number, tint: number): void {
+  applyColorMatrix(image, whiteBalanceMatrix(temperature, tint));
+}
+
+/** sepia(percent): 0 leaves the image unchanged. */
+export function applySepia(image: PixelBuffer, percent: number): void {
+  applyColorMatrix(image, sepiaMatrix(percent / 100));
+}
+
+/** grayscale(percent): 0 leaves the image unchanged. */
+export function applyGrayscale(image: PixelBuffer, percent: number): void {
+  applyColorMatrix(image, grayscaleMatrix(percent / 100));
+}
+
+/** Levels and tone curves, through the per-channel tables from toneTables. */
+export function applyToneCurves(image: PixelBuffer, settings: VideoSettings): void {
+  const { data } = image;
+  // 8-bit input lands exactly on a table entry.
+  const [red, green, blue] = toneTables(settings).map((table) => Uint8ClampedArray.from(table, (v) => v * 255));
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+}
+
+/**
+ * Grades the image through a 3D LUT, mixing `percent` of the result over the
+ * original colours.
+ */
+export function applyColorLut(image: PixelBuffer, lut: ColorLut, percent: number, interpolation: LutInterpolation): void {
+  const amount = Math.min(1, Math.max(0, percent / 100));
+  if (amount <= 0) return;
+  const { data } = image;
+  const table = decodeLut(lut);
+  const tetrahedral = interpolation === 'tetrahedral';
+  const graded = new Float32Array(3);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    sampleLut(lut, table, r / 255, g / 255, b / 255, tetrahedral, graded);
+    data[i] = r + (graded[0] * 255 - r) * amount;
+    data[i + 1] = g + (graded[1] * 255 - g) * amount;
+    data[i + 2] = b + (graded[2] * 255 - b) * amount;
+  }
+}
+
+/**
+ * blur(sigma px): separable gaussian with a 3-sigma kernel. Edge pixels are
+ * repeated past the border (as in the WebGL pipeline) rather than fading to
+ * transparent.
+ */
+export function applyGaussianBlur(image: PixelBuffer, sigma: number): void {
+  if (sigma <= 0) return;
+  const { data, width, height } = image;
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = weight;
+    total += weight;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+
+  const horizontal = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const src = (y * width + sx) * 4;
+        const weight = kernel[k + radius];
+        r += data[src] * weight;
+        g += data[src + 1] * weight;
+        b += data[src + 2] * weight;
+      }
+      const dst = (y * width + x) * 3;
+      horizontal[dst] = r;
+      horizontal[dst + 1] = g;
+      horizontal[dst + 2] = b;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        const src = (sy * width + x) * 3;
+        const weight = kernel[k + radius];
+        r += horizontal[src] * weight;
+        g += horizontal[src + 1] * weight;
+        b += horizontal[src + 2] * weight;
+      }
+      const dst = (y * width + x) * 4;
+      data[dst] = r;
+      data[dst + 1] = g;
+      data[dst + 2] = b;
+    }
+  }
+}
+
+/** Mirrors the image left-to-right. */
+export function flipImageHorizontal(image: PixelBuffer): void {
+  const { data, width, height } = image;
+  const row = new Uint32Array(data.buffer, data.byteOffset, width * height);
+  for (let y = 0; y < height; y++) {
+    row.subarray(y * width, (y + 1) * width).reverse();
+  }
+}
+
+/** Mirrors the image top-to-bottom. */
+export function flipImageVertical(image: PixelBuffer): void {
+  const { data, width, height } = image;
+  const rowLength = width * 4;
+  const row = new Uint8ClampedArray(rowLength);
+  for (let top = 0, bottom = height - 1; top < bottom; top++, bottom--) {
+    row.set(data.subarray(top * rowLength, (top + 1) * rowLength));
+    data.copyWithin(top * rowLength, bottom * rowLength, (bottom + 1) * rowLength);
+    data.set(row, bottom * rowLength);
+  }
+}
+
+// Maps normalised rotated-frame coordinates back to normalised source
+// coordinates for a clockwise `rotation`, like FRAME_TO_SOURCE in glFrameRenderer.
+function frameToSource(rotation: VideoRotation, u: number, v: number): [number, number] {
+  switch (rotation) {
+    case 90: return [v, 1 - u];
+    case 180: return [1 - u, 1 - v];
+    case 270: return [1 - v, u];
+    default: return [u, v];
+  }
+}
+
+// Bilinear RGB sample of `image` at (x, y) in pixels, clamped to the edges.
+function sampleBilinear(image: PixelBuffer, x: number, y: number, out: Float32Array): void {
+  const { data, width, height } = image;
+  const fx = Math.min(width - 1, Math.max(0, x - 0.5));
+  const fy = Math.min(height - 1, Math.max(0, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  for (let c = 0; c < 3; c++) {
+    const top = data[(y0 * width + x0) * 4 + c] * (1 - tx) + data[(y0 * width + x1) * 4 + c] * tx;
+    const bottom = data[(y1 * width + x0) * 4 + c] * (1 - tx) + data[(y1 * width + x1) * 4 + c] * tx;
+    out[c] = top + (bottom - top) * ty;
+  }
+}
+
+// Fills the pixels of `target` whose centres fall inside `dest` with
+// `sample(u, v)`, u and v running 0-1 across `dest`, scaled by `gain`.
+function fillRect(
+  target: PixelBuffer,
+  dest: Rect,
+  sample: (u: number, v: number, out: Float32Array) => void,
+  gain = 1
+): void {
+  const { data, width, height } = target;
+  const color = new Float32Array(3);
+  const left = Math.max(0, Math.round(dest.x));
+  const right = Math.min(width, Math.round(dest.x + dest.width));
+  const top = Math.max(0, Math.round(dest.y));
+  const bottom = Math.min(height, Math.round(dest.y + dest.height));
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      sample((x + 0.5 - dest.x) / dest.width, (y + 0.5 - dest.y) / dest.height, color);
+      const i = (y * width + x) * 4;
+      data[i] = color[0] * gain;
+      data[i + 1] = color[1] * gain;
+      data[i + 2] = color[2] * gain;
+      data[i + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Draws a decoded source frame onto a new geometry.width x geometry.height
+ * buffer: rotated, with geometry.sourceRect scaled (bilinear, like the canvas
+ * and WebGL paths) into geometry.contentRect. The rest is black, or the
+ * blurred backdrop, which is sampled BLUR_BACKGROUND_SAMPLES pixels wide,
+ * scaled back up and dimmed, as in the 2D export.
+ */
+export function renderOutputGeometry(image: PixelBuffer, geometry: OutputGeometry): PixelBuffer {
+  const { width, height, rotation, frameWidth, frameHeight } = geometry;
+  const output: PixelBuffer = { data: new Uint8ClampedArray(width * height * 4), width, height };
+  for (let i = 3; i < output.data.length; i += 4) output.data[i] = 255;
+
+  const sampleSource = (region: Rect) => (u: number, v: number, out: Float32Array) => {
+    const [su, sv] = frameToSource(
+      rotation,
+      (region.x + u * region.width) / frameWidth,
+      (region.y + v * region.height) / frameHeight
+    );
+    sampleBilinear(image, su * image.width, sv * image.height, out);
+  };
+  const whole: Rect = { x: 0, y: 0, width, height };
+  if (geometry.backgroundSourceRect) {
+    const scratchHeight = Math.max(1, Math.round((BLUR_BACKGROUND_SAMPLES * height) / width));
+    const scratch: PixelBuffer = {
+      data: new Uint8ClampedArray(BLUR_BACKGROUND_SAMPLES * scratchHeight * 4),
+      width: BLUR_BACKGROUND_SAMPLES,
+      height: scratchHeight,
+    };
+    fillRect(scratch, { x: 0, y: 0, width: scratch.width, height: scratchHeight }, sampleSource(geometry.backgroundSourceRect));
+    fillRect(output, whole, (u, v, out) => sampleBilinear(scratch, u * scratch.width, v * scratchHeight, out), BLUR_BACKGROUND_DIM);
+  }
+  fillRect(output, geometry.contentRect, sampleSource(geometry.sourceRect));
+  return output;
+}
+
+/**
+ * vignette(percent): darkens towards the corners, from half the
+ * centre-to-corner distance outwards, matching the export's radial gradient.
+ */
+export function applyVignette(image: PixelBuffer, percent: number): void {
+  if (percent <= 0) return;
+  const { data, width, height } = image;
+  const strength = percent / 100;
+  const cx = width / 2;
+  const cy = height / 2;
+  const outerRadius = Math.hypot(cx, cy);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / outerRadius;
+      const t = Math.min(1, Math.max(0, (distance - 0.5) / 0.5));
+      const factor = 1 - strength * t;
+      const i = (y * width + x) * 4;
+      data[i] *= factor;
+      data[i + 1] *= factor;
+      data[i + 2] *= factor;
+    }
+  }
+}
+
+/**
+ * Unsharp mask: adds `percent` of the difference between the image and its
+ * gaussian blur (sigma `radius`) back onto it, on every channel where that
+ * difference is at least `threshold` levels.
+ */
+export function applyUnsharpMask(image: PixelBuffer, percent: number, radius: number, threshold: number): void {
+  if (percent <= 0) return;
+  const { data, width, height } = image;
+  const blurred: PixelBuffer = { data: new Uint8ClampedArray(data), width, height };
+  applyGaussianBlur(blurred, radius);
+  const amount = percent / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = i; channel < i + 3; channel++) {
+      const difference = data[channel] - blurred.data[channel];
+      if (Math.abs(difference) >= threshold) data[channel] += difference * amount;
+    }
+  }
+}
+
+/**
+ * Applies the same filter chain as buildCanvasFilter, in the same order, plus
+ * the stages ctx.filter can't do: white balance first, then the levels and
+ * curves after hue-rotate and the unsharp mask before blur. Used where
+ * `ctx.filter` is unsupported or not enough.
+ */
+export function applyFilterChain(image: PixelBuffer, settings: VideoSettings): void {
+  if (hasWhiteBalance(settings)) applyWhiteBalance(image, settings.temperature, settings.tint);
+  if (settings.brightness !== 100) applyBrightness(image, settings.brightness);
+  if (settings.contrast !== 100) applyContrast(image, settings.contrast);
+  if (settings.saturation !== 100) applySaturate(image, settings.saturation);
+  if (settings.hueRotate !== 0) applyHueRotate(image, settings.hueRotate);
+  if (hasToneAdjustments(settings)) applyToneCurves(image, settings);
+  if (settings.sharpenAmount > 0) {
+    applyUnsharpMask(image, settings.sharpenAmount, settings.sharpenRadius, settings.sharpenThreshold);
+  }
+  if (settings.blur > 0) applyGaussianBlur(image, settings.blur);
+  if (settings.sepia > 0) applySepia(image, settings.sepia);
+  if (settings.grayscale > 0) applyGrayscale(image, settings.grayscale);
+}
+
+/**
+ * Renders every deterministic VideoSettings effect onto the source frame
+ * `image` and returns the output frame: rotation, crop, target size and fit
+ * (see resolveOutputGeometry), flips, the LUT, the filter chain and the
+ * vignette. As in export, the colour stages leave letterbox bars black.
+ * Overlays (film grain, rotating lines) are left out.
+ */
+export function applyVideoSettings(image: PixelBuffer, settings: VideoSettings): PixelBuffer {
+  const geometry = resolveOutputGeometry(settings, image.width, image.height);
+  const output = renderOutputGeometry(image, geometry);
+  if (settings.flipHorizontal) flipImageHorizontal(output);
+  if (settings.flipVertical) flipImageVertical(output);
+
+  // The colour stages run on a copy of the picture area, which is the whole
+  // frame behind a blurred backdrop.
+  const region = geometry.backgroundSourceRect
+    ? { x: 0, y: 0, width: output.width, height: output.height }
+    : geometry.contentRect;
+  const left = Math.round(region.x);
+  const top = Math.round(region.y);
+  const width = Math.min(output.width - left, Math.round(region.width));
+  const height = Math.min(output.height - top, Math.round(region.height));
+  const rowLength = width * 4;
+  const rowOffset = (y: number) => ((top + y) * output.width + left) * 4;
+  const content: PixelBuffer = { data: new Uint8ClampedArray(rowLength * height), width, height };
+  for (let y = 0; y < content.height; y++) {
+    content.data.set(output.data.subarray(rowOffset(y), rowOffset(y) + rowLength), y * rowLength);
+  }
+  if (settings.lut) applyColorLut(content, settings.lut, settings.lutIntensity, settings.lutInterpolation);
+  applyFilterChain(content, settings);
+  for (let y = 0; y < content.height; y++) {
+    output.data.set(content.data.subarray(y * rowLength, (y + 1) * rowLength), rowOffset(y));
+  }
+
+  applyVignette(output, settings.vignette);
+  return output;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SettingKeyframe, VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS } from '../constants';
+import {
+  evaluateKeyframes,
+  peakSettingValue,
+  removeKeyframe,
+  resolveSettingsAtTime,
+  sanitizeKeyframes,
+  setKeyframe,
+} from './keyframes';
+
+const track: SettingKeyframe[] = [
+  { time: 1, value: 100, easing: 'linear' },
+  { time: 3, value: 200, easing: 'ease' },
+  { time: 5, value: 0, easing: 'linear' },
+];
+
+describe('evaluateKeyframes', () => {
+  it('holds the end values outside the track', () => {
+    expect(evaluateKeyframes(track, 0)).toBe(100);
+    expect(evaluateKeyframes(track, 9)).toBe(0);
+  });
+
+  it('hits each keyframe exactly', () => {
+    for (const keyframe of track) expect(evaluateKeyframes(track, keyframe.time)).toBe(keyframe.value);
+  });
+
+  it('interpolates linearly after a linear keyframe', () => {
+    expect(evaluateKeyframes(track, 1.5)).toBeCloseTo(125, 9);
+    expect(evaluateKeyframes(track, 2)).toBeCloseTo(150, 9);
+  });
+
+  it('eases after an ease keyframe', () => {
+    // smoothstep(0.25) = 0.15625, and the midpoint stays the midpoint.
+    expect(evaluateKeyframes(track, 3.5)).toBeCloseTo(200 - 200 * 0.15625, 9);
+    expect(evaluateKeyframes(track, 4)).toBeCloseTo(100, 9);
+  });
+});
+
+describe('resolveSettingsAtTime', () => {
+  const settings: VideoSettings = { ...DEFAULT_VIDEO_SETTINGS, keyframes: { brightness: track } };
+
+  it('replaces only the animated settings', () => {
+    const resolved = resolveSettingsAtTime(settings, 2);
+    expect(resolved.brightness).toBeCloseTo(150, 9);
+    expect(resolved.contrast).toBe(DEFAULT_VIDEO_SETTINGS.contrast);
+    expect(peakSettingValue(settings, 'brightness')).toBe(200);
+  });
+
+  it('returns the settings themselves without keyframes', () => {
+    expect(resolveSettingsAtTime(DEFAULT_VIDEO_SETTINGS, 2)).toBe(DEFAULT_VIDEO_SETTINGS);
+  });
+});
+
+describe('setKeyframe and removeKeyframe', () => {
+  it('keeps tracks sorted and replaces keyframes at nearly the same time', () => {
+    let keyframes = setKeyframe({}, 'blur', { time: 4, value: 2, easing: 'linear' });
+    keyframes = setKeyframe(keyframes, 'blur', { time: 1, value: 5, easing: 'linear' });
+    keyframes = setKeyframe(keyframes, 'blur', { time: 4.01, value: 3, easing: 'ease' });
+    expect(keyframes.blur).toEqual([
+      { time: 1, value: 5, easing: 'linear' },
+      { time: 4.01, value: 3, easing: 'ease' },
+    ]);
+    keyframes = removeKeyframe(keyframes, 'blur', 1);
+    keyframes = removeKeyframe(keyframes, 'blur', 4.01);
+    expect(keyframes).toEqual({});
+  });
+});
+
+describe('sanitizeKeyframes', () => {
+  it('drops bad keyframes and unknown settings, clamps and sorts', () => {
+    expect(sanitizeKeyframes({
+      brightness: [
+        { time: 2, value: 999, easing: 'bounce' },
+        { time: -1, value: 50 },
+        { time: 1, value: 'high' },
+        { time: 0.5, value: 80, easing: 'ease' },
+      ],
+      notASetting: [{ time: 1, value: 1 }],
+    })).toEqual({
+      brightness: [
+        { time: 0.5, value: 80, easing: 'ease' },
+        { time: 2, value: 200, easing: 'linear' },
+      ],
+    });
+  });
+});
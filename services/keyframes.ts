@@ -0,0 +1,120 @@
+import { AnimatableSettingKey, KeyframeEasing, SettingKeyframe, SettingKeyframes, VideoSettings } from '../types';
+import { ANIMATABLE_SETTING_LABELS, KEYFRAME_TIME_TOLERANCE_SECONDS, SETTINGS_RANGES } from '../constants';
+
+export const ANIMATABLE_SETTING_KEYS = Object.keys(ANIMATABLE_SETTING_LABELS) as AnimatableSettingKey[];
+
+// Smoothstep: zero slope at both keyframes.
+function ease(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Value of a keyframe track at `time` (source seconds). Before the first and
+ * after the last keyframe the track holds that keyframe's value.
+ */
+export function evaluateKeyframes(track: SettingKeyframe[], time: number): number {
+  if (time <= track[0].time) return track[0].value;
+  for (let i = 0; i < track.length - 1; i++) {
+    const from = track[i];
+    const to = track[i + 1];
+    if (time < to.time) {
+      const t = (time - from.time) / (to.time - from.time);
+      return from.value + (to.value - from.value) * (from.easing === 'ease' ? ease(t) : t);
+    }
+  }
+  return track[track.length - 1].value;
+}
+
+/** True when `key` has keyframes, i.e. its static value is not used. */
+export function isAnimated(settings: VideoSettings, key: AnimatableSettingKey): boolean {
+  return (settings.keyframes?.[key]?.length ?? 0) > 0;
+}
+
+export function hasKeyframes(settings: VideoSettings): boolean {
+  return ANIMATABLE_SETTING_KEYS.some((key) => isAnimated(settings, key));
+}
+
+/** Largest value `key` takes at any point in the export. */
+export function peakSettingValue(settings: VideoSettings, key: AnimatableSettingKey): number {
+  const track = settings.keyframes?.[key];
+  return track?.length ? Math.max(...track.map((k) => k.value)) : settings[key];
+}
+
+/** Value of `key` at `sourceTime`: the keyframed value if animated, else the static one. */
+export function settingValueAt(settings: VideoSettings, key: AnimatableSettingKey, sourceTime: number): number {
+  const track = settings.keyframes?.[key];
+  return track?.length ? evaluateKeyframes(track, sourceTime) : settings[key];
+}
+
+/**
+ * Settings with every animated value replaced by its value at `sourceTime`.
+ * Returns `settings` itself when nothing is animated.
+ */
+export function resolveSettingsAtTime(settings: VideoSettings, sourceTime: number): VideoSettings {
+  if (!hasKeyframes(settings)) return settings;
+  const resolved = { ...settings };
+  for (const key of ANIMATABLE_SETTING_KEYS) {
+    resolved[key] = settingValueAt(settings, key, sourceTime);
+  }
+  return resolved;
+}
+
+/**
+ * Adds a keyframe to `key`'s track, replacing any existing keyframe within
+ * KEYFRAME_TIME_TOLERANCE_SECONDS of the same time.
+ */
+export function setKeyframe(
+  keyframes: SettingKeyframes,
+  key: AnimatableSettingKey,
+  keyframe: SettingKeyframe
+): SettingKeyframes {
+  const track = (keyframes[key] ?? [])
+    .filter((k) => Math.abs(k.time - keyframe.time) >= KEYFRAME_TIME_TOLERANCE_SECONDS);
+  track.push(keyframe);
+  track.sort((a, b) => a.time - b.time);
+  return { ...keyframes, [key]: track };
+}
+
+/** Removes the keyframe at `time`; a track left empty is dropped entirely. */
+export function removeKeyframe(keyframes: SettingKeyframes, key: AnimatableSettingKey, time: number): SettingKeyframes {
+  const track = (keyframes[key] ?? []).filter((k) => k.time !== time);
+  const next = { ...keyframes };
+  if (track.length > 0) {
+    next[key] = track;
+  } else {
+    delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Validates keyframes read back from storage (saved settings or custom
+ * presets): unknown settings and malformed keyframes are dropped, values are
+ * clamped to SETTINGS_RANGES and tracks are sorted by time.
+ */
+export function sanitizeKeyframes(value: unknown): SettingKeyframes {
+  const result: SettingKeyframes = {};
+  if (!value || typeof value !== 'object') return result;
+  for (const key of ANIMATABLE_SETTING_KEYS) {
+    const raw = (value as Record<string, unknown>)[key];
+    if (!Array.isArray(raw)) continue;
+    const range = SETTINGS_RANGES[key];
+    const track = raw
+      .filter((k): k is SettingKeyframe =>
+        k && typeof k === 'object'
+        && typeof k.time === 'number' && isFinite(k.time) && k.time >= 0
+        && typeof k.value === 'number' && isFinite(k.value))
+      .map((k) => ({
+        time: k.time,
+        value: clamp(k.value, range.min, range.max),
+        easing: (k.easing === 'ease' ? 'ease' : 'linear') as KeyframeEasing,
+      }))
+      .sort((a, b) => a.time - b.time);
+    if (track.length > 0) result[key] = track;
+  }
+  return result;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { integratedLoudness } from './loudness';
+
+// `seconds` of a `frequency` Hz sine with a peak of `dbfs`.
+function sine(frequency: number, dbfs: number, seconds: number, sampleRate: number): Float32Array {
+  const amplitude = Math.pow(10, dbfs / 20);
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('integratedLoudness', () => {
+  // EBU Tech 3341 test case 1: a stereo 1 kHz sine at -23 dBFS reads -23.0 ±0.1 LUFS.
+  it.each([48000, 44100])('measures the EBU reference tone at -23 LUFS (%i Hz)', (sampleRate) => {
+    const tone = sine(1000, -23, 5, sampleRate);
+    expect(Math.abs(integratedLoudness([tone, tone], sampleRate) + 23)).toBeLessThan(0.1);
+  });
+
+  it('reads a full-scale mono 997 Hz sine at -3.01 LUFS', () => {
+    expect(integratedLoudness([sine(997, 0, 5, 48000)], 48000)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('gates out passages more than 10 LU below the rest', () => {
+    // As in EBU Tech 3341 test case 3, the quiet part doesn't lower the result.
+    const tone = concat(sine(1000, -36, 5, 48000), sine(1000, -23, 20, 48000), sine(1000, -36, 5, 48000));
+    expect(Math.abs(integratedLoudness([tone, tone], 48000) + 23)).toBeLessThan(0.1);
+  });
+
+  it('is -Infinity for silence and audio below the absolute gate', () => {
+    expect(integratedLoudness([new Float32Array(48000 * 2)], 48000)).toBe(-Infinity);
+    expect(integratedLoudness([sine(1000, -80, 2, 48000)], 48000)).toBe(-Infinity);
+  });
+
+  it('is -Infinity for audio shorter than one block', () => {
+    expect(integratedLoudness([sine(1000, 0, 0.3, 48000)], 48000)).toBe(-Infinity);
+  });
+});
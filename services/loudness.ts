@@ -0,0 +1,276 @@
+import { VideoSettings } from '../types';
+import {
+  LIMITER_LOOKAHEAD_SECONDS,
+  LIMITER_RELEASE_SECONDS,
+  LOUDNESS_ABSOLUTE_GATE_LUFS,
+  LOUDNESS_BLOCK_SECONDS,
+  LOUDNESS_BLOCK_STEP_SECONDS,
+  LOUDNESS_RELATIVE_GATE_LU,
+  TRUE_PEAK_CHUNK_SECONDS,
+  TRUE_PEAK_OVERSAMPLING,
+} from '../constants';
+
+/**
+ * Loudness measurement per ITU-R BS.1770-4 (integrated loudness with K
+ * weighting and gating, true peak by oversampling), and the normalization
+ * that brings an export to a target loudness.
+ */
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // -Infinity for silence (every block below the absolute gate)
+  truePeakDb: number;     // dBTP; -Infinity for digital silence
+}
+
+interface Biquad {
+  feedforward: number[];
+  feedback: number[];
+}
+
+// The two K-weighting stages of BS.1770 (a high shelf modelling the head, then
+// the RLB high-pass), derived for any sample rate with the bilinear transform
+// (after Brecht De Man). At 48 kHz these are the coefficients tabulated in
+// the standard.
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  const shelfQ = 0.7071752369554196;
+  const shelfFrequency = 1681.974450955533;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let k = Math.tan((Math.PI * shelfFrequency) / sampleRate);
+  let a0 = 1 + k / shelfQ + k * k;
+  const shelf: Biquad = {
+    feedforward: [(vh + (vb * k) / shelfQ + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / shelfQ + k * k) / a0],
+    feedback: [1, (2 * (k * k - 1)) / a0, (1 - k / shelfQ + k * k) / a0],
+  };
+
+  const highPassQ = 0.5003270373238773;
+  const highPassFrequency = 38.13547087602444;
+  k = Math.tan((Math.PI * highPassFrequency) / sampleRate);
+  a0 = 1 + k / highPassQ + k * k;
+  const highPass: Biquad = {
+    feedforward: [1, -2, 1],
+    feedback: [1, (2 * (k * k - 1)) / a0, (1 - k / highPassQ + k * k) / a0],
+  };
+  return [shelf, highPass];
+}
+
+function toDecibels(linear: number): number {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
+
+export function decibelsToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Runs `input` through `filter` (direct form I, feedback[0] = 1) into `output`.
+function applyBiquad(filter: Biquad, input: Float32Array, output: Float32Array): void {
+  const [b0, b1, b2] = filter.feedforward;
+  const [, a1, a2] = filter.feedback;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+}
+
+/**
+ * Gated integrated loudness (LUFS) of `channels` at `sampleRate`, K-weighted
+ * here. Blocks are 400 ms with 75% overlap, summed from 100 ms steps.
+ * Channels are weighted 1.0 (mono/stereo). -Infinity for silence.
+ */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const length = channels[0]?.length ?? 0;
+  const step = Math.round(sampleRate * LOUDNESS_BLOCK_STEP_SECONDS);
+  const stepsPerBlock = Math.round(LOUDNESS_BLOCK_SECONDS / LOUDNESS_BLOCK_STEP_SECONDS);
+  const stepCount = Math.floor(length / step);
+  if (step <= 0 || stepCount < stepsPerBlock) return -Infinity;
+
+  // One channel is weighted at a time, into the same scratch buffer.
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const shelved = new Float32Array(length);
+  const weighted = new Float32Array(length);
+  const stepEnergy = new Float64Array(stepCount);
+  for (const data of channels) {
+    applyBiquad(shelf, data, shelved);
+    applyBiquad(highPass, shelved, weighted);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+      stepEnergy[s] += sum;
+    }
+  }
+
+  const blockLength = step * stepsPerBlock;
+  const blocks: number[] = [];
+  for (let s = 0; s + stepsPerBlock <= stepCount; s++) {
+    let sum = 0;
+    for (let k = 0; k < stepsPerBlock; k++) sum += stepEnergy[s + k];
+    blocks.push(sum / blockLength);
+  }
+  const loudnessOf = (energy: number) => -0.691 + 10 * Math.log10(energy);
+  const gatedMean = (threshold: number) => {
+    const kept = blocks.filter((energy) => energy > 0 && loudnessOf(energy) > threshold);
+    return kept.length ? kept.reduce((total, energy) => total + energy, 0) / kept.length : 0;
+  };
+
+  const absoluteMean = gatedMean(LOUDNESS_ABSOLUTE_GATE_LUFS);
+  if (absoluteMean <= 0) return -Infinity;
+  const relativeGate = loudnessOf(absoluteMean) - LOUDNESS_RELATIVE_GATE_LU;
+  const gatedEnergy = gatedMean(Math.max(LOUDNESS_ABSOLUTE_GATE_LUFS, relativeGate));
+  return gatedEnergy > 0 ? loudnessOf(gatedEnergy) : -Infinity;
+}
+
+function samplePeak(buffer: AudioBuffer, from = 0, to = buffer.length): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = from; i < to; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+// True peak: the sample peak of the signal resampled to TRUE_PEAK_OVERSAMPLING
+// times the rate, rendered in chunks to bound memory. Each chunk is rendered
+// with some context on both sides and only its middle is measured, so the
+// resampler's edge ringing doesn't count. Falls back to the sample peak where the browser
+// can't render at that rate.
+async function truePeak(buffer: AudioBuffer): Promise<number> {
+  let peak = samplePeak(buffer);
+  const { numberOfChannels, sampleRate } = buffer;
+  const chunk = Math.round(TRUE_PEAK_CHUNK_SECONDS * sampleRate);
+  const overlap = 64;
+  try {
+    for (let start = 0; start < buffer.length; start += chunk) {
+      const from = Math.max(0, start - overlap);
+      const to = Math.min(buffer.length, start + chunk + overlap);
+      const piece = new AudioBuffer({ numberOfChannels, length: to - from, sampleRate });
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        piece.copyToChannel(buffer.getChannelData(channel).subarray(from, to), channel);
+      }
+      const context = new OfflineAudioContext(
+        numberOfChannels,
+        piece.length * TRUE_PEAK_OVERSAMPLING,
+        sampleRate * TRUE_PEAK_OVERSAMPLING
+      );
+      const source = context.createBufferSource();
+      source.buffer = piece;
+      source.connect(context.destination);
+      source.start();
+      const end = Math.min(buffer.length, start + chunk);
+      peak = Math.max(peak, samplePeak(
+        await context.startRendering(),
+        (start - from) * TRUE_PEAK_OVERSAMPLING,
+        (end - from) * TRUE_PEAK_OVERSAMPLING
+      ));
+    }
+  } catch (e) {
+    console.warn('Could not oversample for the true peak; using the sample peak:', e);
+  }
+  return peak;
+}
+
+/** Measures integrated loudness and true peak of `buffer`. */
+export async function measureLoudness(buffer: AudioBuffer): Promise<LoudnessMeasurement> {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  return {
+    integratedLufs: integratedLoudness(channels, buffer.sampleRate),
+    truePeakDb: toDecibels(await truePeak(buffer)),
+  };
+}
+
+/**
+ * Decodes the audio track of `file` and measures it. Returns null when the
+ * file has no audio that the browser can decode.
+ */
+export async function measureFileLoudness(file: File): Promise<LoudnessMeasurement | null> {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await new OfflineAudioContext(1, 1, 48000).decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+  return measureLoudness(buffer);
+}
+
+/** Gain in dB that takes `measurement` to the target loudness; 0 for silence. */
+export function normalizationGainDb(measurement: LoudnessMeasurement, settings: VideoSettings): number {
+  return isFinite(measurement.integratedLufs) ? settings.targetLufs - measurement.integratedLufs : 0;
+}
+
+/**
+ * Brickwall limiter over a rendered buffer, in place: no sample ends up above
+ * `ceilingDb`. Gain reduction starts LIMITER_LOOKAHEAD_SECONDS ahead of each
+ * peak (sliding minimum, then a moving average of the same length, which can
+ * only lower the gain) and recovers over LIMITER_RELEASE_SECONDS.
+ */
+export function applyBrickwallLimiter(buffer: AudioBuffer, ceilingDb: number): void {
+  const ceiling = decibelsToGain(ceilingDb);
+  const { length, numberOfChannels, sampleRate } = buffer;
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+
+  // Gain each sample needs on its own.
+  const needed = new Float32Array(length);
+  let limiting = false;
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    needed[i] = peak > ceiling ? ceiling / peak : 1;
+    if (needed[i] < 1) limiting = true;
+  }
+  if (!limiting) return;
+
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  // Sliding minimum over [i, i + lookahead] with a monotonic deque.
+  const windowMin = new Float32Array(length);
+  const deque = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  let next = 0;
+  for (let i = 0; i < length; i++) {
+    while (next < length && next <= i + lookahead) {
+      while (tail > head && needed[deque[tail - 1]] >= needed[next]) tail--;
+      deque[tail++] = next++;
+    }
+    while (deque[head] < i) head++;
+    windowMin[i] = needed[deque[head]];
+  }
+
+  const release = Math.exp(-1 / Math.max(1, LIMITER_RELEASE_SECONDS * sampleRate));
+  // Windows starting before the buffer count as the first one, which also
+  // covers every sample they would.
+  let sum = windowMin[0] * (lookahead + 1);
+  let envelope = 1;
+  for (let i = 0; i < length; i++) {
+    // Average of the window minima from [i - lookahead, i]: every one of
+    // those windows contains sample i, so the average never exceeds needed[i].
+    sum += windowMin[i] - windowMin[Math.max(0, i - lookahead - 1)];
+    const smoothed = sum / (lookahead + 1);
+    envelope = Math.min(smoothed, 1 - (1 - envelope) * release);
+    for (const data of channels) data[i] *= envelope;
+  }
+}
+
+/**
+ * Normalizes a rendered export to settings.targetLufs, in place, with the
+ * brickwall limiter holding peaks under settings.truePeakCeilingDb. Returns
+ * the measurement taken before the gain was applied.
+ */
+export async function normalizeLoudness(buffer: AudioBuffer, settings: VideoSettings): Promise<LoudnessMeasurement> {
+  const measurement = await measureLoudness(buffer);
+  const gain = decibelsToGain(normalizationGainDb(measurement, settings));
+  if (gain !== 1) {
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) data[i] *= gain;
+    }
+  }
+  applyBrickwallLimiter(buffer, settings.truePeakCeilingDb);
+  return measurement;
+}
@@ -0,0 +1,33 @@
+import { ALL_FORMATS, BlobSource, Input, InputVideoTrack } from 'mediabunny';
+
+/**
+ * Estimates the frame rate of a video track from its packet timestamps.
+ * Returns null when the track has no usable timing information.
+ */
+export async function detectTrackFrameRate(track: InputVideoTrack): Promise<number | null> {
+  try {
+    const { bestGuessFrameRate } = await track.computeFrameRateMetrics();
+    return isFinite(bestGuessFrameRate) && bestGuessFrameRate > 0 ? bestGuessFrameRate : null;
+  } catch (e) {
+    console.warn('Could not detect source frame rate:', e);
+    return null;
+  }
+}
+
+/**
+ * Detects the frame rate of a video file's primary video track by demuxing its
+ * container. Does not require WebCodecs. Returns null for unreadable files.
+ */
+export async function detectSourceFrameRate(videoFile: File): Promise<number | null> {
+  const input = new Input({ source: new BlobSource(videoFile), formats: ALL_FORMATS });
+  try {
+    if (!(await input.canRead())) return null;
+    const track = await input.getPrimaryVideoTrack();
+    return track ? await detectTrackFrameRate(track) : null;
+  } catch (e) {
+    console.warn('Could not detect source frame rate:', e);
+    return null;
+  } finally {
+    input.dispose();
+  }
+}
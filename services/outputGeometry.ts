@@ -0,0 +1,139 @@
+import { VideoRotation, VideoSettings } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OutputGeometry {
+  sourceWidth: number;  // Decoded source frame size in pixels, before rotation
+  sourceHeight: number;
+  rotation: VideoRotation; // Clockwise rotation applied to the source frame
+  frameWidth: number;   // Source frame size after rotation; the crop is taken from this frame
+  frameHeight: number;
+  width: number;        // Output canvas size in pixels (always even)
+  height: number;
+  sourceRect: Rect;     // Region of the rotated source frame that is drawn...
+  contentRect: Rect;    // ...into this region of the output
+  backgroundSourceRect: Rect | null; // Blur fit only: source region stretched, blurred, behind the content
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Encoders (H.264 in particular) need even frame dimensions.
+function evenSize(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+/** Largest rect with the given aspect ratio, centred inside `outer`. */
+function centredRect(outer: Rect, aspect: number): Rect {
+  const width = Math.min(outer.width, outer.height * aspect);
+  const height = width / aspect;
+  return {
+    x: outer.x + (outer.width - width) / 2,
+    y: outer.y + (outer.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/** Snaps any angle in degrees to the nearest quarter turn in 0-270. */
+export function normalizeRotation(degrees: number): VideoRotation {
+  const quarterTurns = ((Math.round((degrees || 0) / 90) % 4) + 4) % 4;
+  return (quarterTurns * 90) as VideoRotation;
+}
+
+/** The crop rectangle from VideoSettings, in pixels of a `frameWidth` x `frameHeight` frame. */
+export function resolveCropRect(settings: VideoSettings, frameWidth: number, frameHeight: number): Rect {
+  const left = clamp(settings.cropLeft, 0, 99);
+  const top = clamp(settings.cropTop, 0, 99);
+  const width = clamp(settings.cropWidth, 1, 100 - left);
+  const height = clamp(settings.cropHeight, 1, 100 - top);
+  return {
+    x: (left / 100) * frameWidth,
+    y: (top / 100) * frameHeight,
+    width: (width / 100) * frameWidth,
+    height: (height / 100) * frameHeight,
+  };
+}
+
+/**
+ * Resolves the rotation, crop, target resolution and fit mode in VideoSettings
+ * into the output canvas size and where the source lands on it.
+ * `baseRotation` is applied before the user's rotation, for sources whose
+ * decoded frames still need the container's rotation metadata applied.
+ */
+export function resolveOutputGeometry(
+  settings: VideoSettings,
+  sourceWidth: number,
+  sourceHeight: number,
+  baseRotation: VideoRotation = 0
+): OutputGeometry {
+  const rotation = normalizeRotation(baseRotation + settings.rotation);
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const frameWidth = quarterTurn ? sourceHeight : sourceWidth;
+  const frameHeight = quarterTurn ? sourceWidth : sourceHeight;
+  const frame = { sourceWidth, sourceHeight, rotation, frameWidth, frameHeight };
+
+  const crop = resolveCropRect(settings, frameWidth, frameHeight);
+  const cropAspect = crop.width / crop.height;
+
+  let width = settings.outputWidth > 0 ? settings.outputWidth : 0;
+  let height = settings.outputHeight > 0 ? settings.outputHeight : 0;
+  if (!width && !height) {
+    width = crop.width;
+    height = crop.height;
+  } else if (!width) {
+    width = height * cropAspect;
+  } else if (!height) {
+    height = width / cropAspect;
+  }
+  width = evenSize(width);
+  height = evenSize(height);
+
+  const output: Rect = { x: 0, y: 0, width, height };
+  const outputAspect = width / height;
+  const coverCrop = centredRect(crop, outputAspect);
+
+  if (settings.fitMode === 'fill') {
+    return { ...frame, width, height, sourceRect: coverCrop, contentRect: output, backgroundSourceRect: null };
+  }
+
+  let contentRect = centredRect(output, cropAspect);
+  // Even-size rounding can leave sub-pixel bars; draw edge to edge instead.
+  if (width - contentRect.width < 1 && height - contentRect.height < 1) {
+    contentRect = output;
+  }
+  return {
+    ...frame,
+    width,
+    height,
+    sourceRect: crop,
+    contentRect,
+    backgroundSourceRect: settings.fitMode === 'blur' && contentRect !== output ? coverCrop : null,
+  };
+}
+
+/**
+ * Geometry for a later clip of a multi-clip export: the clip is fitted, per
+ * fitMode, onto the canvas size already chosen from the first clip.
+ */
+export function resolveClipGeometry(
+  settings: VideoSettings,
+  canvasWidth: number,
+  canvasHeight: number,
+  sourceWidth: number,
+  sourceHeight: number,
+  baseRotation: VideoRotation = 0
+): OutputGeometry {
+  return resolveOutputGeometry(
+    { ...settings, outputWidth: canvasWidth, outputHeight: canvasHeight },
+    sourceWidth,
+    sourceHeight,
+    baseRotation
+  );
+}
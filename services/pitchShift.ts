@@ -0,0 +1,81 @@
+import { VideoSettings } from '../types';
+import { AUDIO_AUTOMATION_RATE, PITCH_SHIFTER_PROCESSOR_NAME, PITCH_SHIFTER_RATIO_RANGE } from '../constants';
+import { TimeMap, hasSpeedChanges, outputTimeToEditTime, speedAtEditTime } from './speedRamp';
+import pitchShifterUrl from '../workers/pitchShifter.worklet.ts?worker&url';
+
+/**
+ * Pitch shifting through the workers/pitchShifter.worklet.ts processor.
+ * Speed changes still resample the sound (a buffer source's or a media
+ * element's playbackRate), which moves its pitch with the speed; the shifter
+ * then puts the pitch back when audioPreservesPitch is on, and adds
+ * pitchSemitones on top. It runs the same in the preview and offline graphs,
+ * so the result doesn't depend on the browser's own preservesPitch. The
+ * real-time export can't use it, since its latency would put the sound behind
+ * the captured frames: there speed changes fall back to the browser's
+ * preservesPitch, and a pitch shift is refused.
+ */
+
+const modules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/** Pitch ratio the shifter applies to sound resampled at `speed`. */
+export function pitchRatio(settings: VideoSettings, speed: number): number {
+  const ratio = Math.pow(2, (settings.pitchSemitones || 0) / 12) / (settings.audioPreservesPitch && speed > 0 ? speed : 1);
+  return Math.min(PITCH_SHIFTER_RATIO_RANGE.max, Math.max(PITCH_SHIFTER_RATIO_RANGE.min, ratio));
+}
+
+/** True when the export needs the shifter: a pitch shift, or speed changes that keep their pitch. */
+export function needsPitchShifter(settings: VideoSettings): boolean {
+  return (settings.pitchSemitones || 0) !== 0 || (settings.audioPreservesPitch && hasSpeedChanges(settings));
+}
+
+/** Loads the processor into `context`, once per context. Rejects where AudioWorklet is unavailable. */
+export function loadPitchShifter(context: BaseAudioContext): Promise<void> {
+  let loading = modules.get(context);
+  if (!loading) {
+    loading = context.audioWorklet
+      ? context.audioWorklet.addModule(pitchShifterUrl)
+      : Promise.reject(new Error('AudioWorklet is not supported in this browser.'));
+    modules.set(context, loading);
+  }
+  return loading;
+}
+
+/**
+ * Creates a shifter with `channelCount` channels, starting at `ratio`. The
+ * processor must have been loaded with loadPitchShifter. Its output lags the
+ * input by PITCH_SHIFTER_LATENCY_SECONDS.
+ */
+export function createPitchShifter(context: BaseAudioContext, channelCount: number, ratio = 1): AudioWorkletNode {
+  return new AudioWorkletNode(context, PITCH_SHIFTER_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [channelCount],
+    channelCount,
+    channelCountMode: 'explicit',
+    parameterData: { pitchRatio: ratio },
+  });
+}
+
+/** The shifter's `pitchRatio` parameter. */
+export function pitchRatioParam(shifter: AudioWorkletNode): AudioParam {
+  return shifter.parameters.get('pitchRatio')!;
+}
+
+/**
+ * Automates `param` over the output timeline of `timeMap`, from context time
+ * `startTime`, so the ratio follows the speed ramps.
+ */
+export function schedulePitchRatio(param: AudioParam, startTime: number, settings: VideoSettings, timeMap: TimeMap): void {
+  const duration = timeMap.outputDuration;
+  if (timeMap.constantSpeed !== null || duration <= 0) {
+    param.setValueAtTime(pitchRatio(settings, timeMap.constantSpeed ?? 1), startTime);
+    return;
+  }
+  const points = Math.max(2, Math.ceil(duration * AUDIO_AUTOMATION_RATE) + 1);
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) {
+    const outputTime = (i * duration) / (points - 1);
+    curve[i] = pitchRatio(settings, speedAtEditTime(timeMap, outputTimeToEditTime(timeMap, outputTime)));
+  }
+  param.setValueCurveAtTime(curve, startTime, duration);
+}
@@ -0,0 +1,56 @@
+import { PlaybackDirection } from '../types';
+
+/**
+ * Reverse and ping-pong playback. The edit is first resolved as if it played
+ * forward (trim, cuts, speed ranges); the direction then decides which part
+ * of that forward timeline is shown at each output time.
+ */
+
+/** Output length of an edit that lasts `forwardDuration` seconds when played forward. */
+export function directedOutputDuration(forwardDuration: number, direction: PlaybackDirection): number {
+  return direction === 'pingpong' ? forwardDuration * 2 : forwardDuration;
+}
+
+/** Output time at which the backward pass starts: after the forward pass for ping-pong. */
+export function reversePassStart(forwardDuration: number, direction: PlaybackDirection): number {
+  return direction === 'pingpong' ? forwardDuration : 0;
+}
+
+/**
+ * Forward output time of the frame shown at `outputTime` during the backward
+ * pass. A frame covers [t, t + frameInterval) going forward, so played
+ * backward the tick at the start of the pass shows the last frame.
+ */
+export function reversedForwardTime(
+  outputTime: number,
+  forwardDuration: number,
+  direction: PlaybackDirection,
+  frameInterval: number
+): number {
+  const elapsed = outputTime - reversePassStart(forwardDuration, direction);
+  return Math.min(forwardDuration, Math.max(0, forwardDuration - elapsed - frameInterval));
+}
+
+/**
+ * Returns `buffer` as heard in `direction`: unchanged, reversed, or followed
+ * by its reverse for ping-pong.
+ */
+export function applyPlaybackDirection(buffer: AudioBuffer, direction: PlaybackDirection): AudioBuffer {
+  if (direction === 'forward') return buffer;
+  const length = buffer.length;
+  const result = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: direction === 'pingpong' ? length * 2 : length,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel);
+    const target = result.getChannelData(channel);
+    const reverseStart = direction === 'pingpong' ? length : 0;
+    if (direction === 'pingpong') target.set(source);
+    for (let i = 0; i < length; i++) {
+      target[reverseStart + i] = source[length - 1 - i];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,28 @@
+/**
+ * Deterministic pseudo-random numbers for the export overlays, so the same
+ * source and settings always render the same frames.
+ */
+
+/** mulberry32: a small, fast 32-bit PRNG. Returns numbers in [0, 1). */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed for the frame at `outputTime` (seconds), derived from the settings
+ * seed. Frames are keyed by millisecond so both export paths agree.
+ */
+export function frameSeed(seed: number, outputTime: number): number {
+  let h = (seed >>> 0) ^ 0x9e3779b9;
+  h = Math.imul(h ^ Math.round(outputTime * 1000), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
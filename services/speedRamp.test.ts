@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS } from '../constants';
+import {
+  editTimeToOutputTime,
+  outputTimeToEditTime,
+  resolveTimeMap,
+  sanitizeSpeedRanges,
+  speedAtEditTime,
+} from './speedRamp';
+import { resolveEditSegments } from './timeline';
+
+function withSettings(overrides: Partial<VideoSettings>): VideoSettings {
+  return { ...DEFAULT_VIDEO_SETTINGS, ...overrides };
+}
+
+function timeMap(settings: VideoSettings, duration = 10) {
+  return resolveTimeMap(settings, resolveEditSegments(settings, duration));
+}
+
+describe('resolveTimeMap', () => {
+  it('divides the duration by a constant speed', () => {
+    const map = timeMap(withSettings({ playbackSpeed: 2 }));
+    expect(map.constantSpeed).toBe(2);
+    expect(map.outputDuration).toBeCloseTo(5, 9);
+    expect(outputTimeToEditTime(map, 2.5)).toBeCloseTo(5, 9);
+  });
+
+  // 2x from 4 s to 8 s with 1 s ramps: each ramp covers (1 + 2) / 2 = 1.5 source
+  // seconds in 1 output second, leaving 2.5 source seconds at 2x in between.
+  const ramped = timeMap(withSettings({ speedRanges: [{ start: 4, end: 8, speed: 2 }], speedRampSeconds: 1 }));
+
+  it('ramps the speed from each range boundary', () => {
+    expect(ramped.constantSpeed).toBeNull();
+    expect(ramped.outputDuration).toBeCloseTo(4 + 1 + 1.25 + 1 + 0.5, 9);
+    expect(speedAtEditTime(ramped, 4)).toBeCloseTo(1, 9);
+    expect(speedAtEditTime(ramped, 5.5)).toBeCloseTo(2, 9);
+    expect(speedAtEditTime(ramped, 8)).toBeCloseTo(2, 9);
+    expect(speedAtEditTime(ramped, 9.5)).toBeCloseTo(1, 9);
+  });
+
+  it('places the ramp edges on the output timeline', () => {
+    expect(editTimeToOutputTime(ramped, 4)).toBeCloseTo(4, 9);
+    expect(editTimeToOutputTime(ramped, 5.5)).toBeCloseTo(5, 9);
+    expect(editTimeToOutputTime(ramped, 8)).toBeCloseTo(6.25, 9);
+    expect(editTimeToOutputTime(ramped, 9.5)).toBeCloseTo(7.25, 9);
+  });
+
+  it('ramps linearly in output time', () => {
+    // Half way through the first ramp the speed is 1.5, after 0.5 * (1 + 1.5) / 2 source seconds.
+    expect(outputTimeToEditTime(ramped, 4.5)).toBeCloseTo(4.625, 9);
+    expect(speedAtEditTime(ramped, 4.625)).toBeCloseTo(1.5, 9);
+  });
+
+  it('maps output time back to the same edit time', () => {
+    for (let editTime = 0; editTime <= 10; editTime += 0.25) {
+      expect(outputTimeToEditTime(ramped, editTimeToOutputTime(ramped, editTime))).toBeCloseTo(editTime, 9);
+    }
+  });
+
+  it('steepens a ramp that does not fit before the next change', () => {
+    const map = timeMap(withSettings({ speedRanges: [{ start: 4, end: 6, speed: 2 }], speedRampSeconds: 5 }));
+    expect(speedAtEditTime(map, 6)).toBeCloseTo(2, 9);
+    map.pieces.slice(1).forEach((piece, i) => {
+      expect(piece.outputStart).toBeCloseTo(map.pieces[i].outputEnd, 9);
+      expect(piece.editStart).toBeCloseTo(map.pieces[i].editEnd, 9);
+    });
+  });
+
+  it('spans every keep-range in order', () => {
+    const map = timeMap(withSettings({ playbackSpeed: 2, keepRanges: [{ start: 0, end: 2 }, { start: 6, end: 8 }] }));
+    expect(map.outputDuration).toBeCloseTo(2, 9);
+    expect(map.pieces.map((piece) => piece.segment)).toEqual([0, 1]);
+    expect(map.pieces[1].outputStart).toBeCloseTo(1, 9);
+  });
+});
+
+describe('sanitizeSpeedRanges', () => {
+  it('sorts ranges and trims overlaps', () => {
+    expect(sanitizeSpeedRanges([
+      { start: 5, end: 9, speed: 0.5 },
+      { start: 1, end: 6, speed: 2 },
+      { start: 2, end: 3, speed: 3 },
+      'bad',
+    ])).toEqual([
+      { start: 1, end: 6, speed: 2 },
+      { start: 6, end: 9, speed: 0.5 },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { SpeedRange, VideoSettings } from '../types';
+import { MIN_KEEP_RANGE_SECONDS, SETTINGS_RANGES } from '../constants';
+import { EditSegment } from './timeline';
+
+/**
+ * Variable playback speed. Speed ranges override playbackSpeed over source
+ * time; at every range boundary the speed ramps to the new value over
+ * speedRampSeconds of output time, starting at the boundary.
+ *
+ * Ramps are linear in output time (constant acceleration), which is also how
+ * Web Audio interpolates a linearly ramped playbackRate, so the audio follows
+ * the video exactly. Over source time that makes speed² linear.
+ */
+
+/** A stretch of source time whose speed goes linearly (in output time) from startSpeed to endSpeed. */
+interface SpeedPiece {
+  start: number; // Source seconds
+  end: number;
+  startSpeed: number;
+  endSpeed: number;
+}
+
+/** A SpeedPiece placed on the edited timeline and the output timeline. */
+export interface TimePiece {
+  segment: number;     // Index into TimeMap.segments
+  editStart: number;   // Edited-timeline seconds (see EditSegment.offset)
+  editEnd: number;
+  outputStart: number; // Output seconds
+  outputEnd: number;
+  startSpeed: number;
+  endSpeed: number;
+}
+
+/**
+ * Maps the edited timeline (kept source seconds, back to back) onto output
+ * time. Pieces are contiguous and cover every segment in order.
+ */
+export interface TimeMap {
+  segments: EditSegment[];
+  pieces: TimePiece[];
+  outputDuration: number;
+  /** The speed when it never changes, else null. */
+  constantSpeed: number | null;
+}
+
+function clampSpeed(speed: number): number {
+  return Math.max(SETTINGS_RANGES.speedRangeSpeed.min, Math.min(SETTINGS_RANGES.speedRangeSpeed.max, speed));
+}
+
+// Output seconds needed to cover a piece.
+function pieceDuration(piece: SpeedPiece): number {
+  return (2 * (piece.end - piece.start)) / (piece.startSpeed + piece.endSpeed);
+}
+
+// Speed at source time `time` within a piece (speed² is linear over source time).
+function speedWithin(piece: SpeedPiece, time: number): number {
+  const length = piece.end - piece.start;
+  if (length <= 0 || piece.startSpeed === piece.endSpeed) return piece.startSpeed;
+  const t = Math.min(1, Math.max(0, (time - piece.start) / length));
+  const s0 = piece.startSpeed * piece.startSpeed;
+  return Math.sqrt(s0 + (piece.endSpeed * piece.endSpeed - s0) * t);
+}
+
+/**
+ * Speed profile over the whole source: constant and ramp pieces covering
+ * [0, Infinity). Overlapping ranges are trimmed as in sanitizeSpeedRanges.
+ */
+function resolveSpeedProfile(settings: VideoSettings): SpeedPiece[] {
+  const base = Math.max(0.0001, settings.playbackSpeed);
+  const ramp = Math.max(0, settings.speedRampSeconds || 0);
+
+  // Speed changes in time order; a range starting where another ends wins.
+  const changes: Array<{ time: number; speed: number }> = [];
+  for (const range of sanitizeSpeedRanges(settings.speedRanges)) {
+    changes.push({ time: range.start, speed: clampSpeed(range.speed) });
+    changes.push({ time: range.end, speed: base });
+  }
+  changes.sort((a, b) => a.time - b.time);
+  const merged = changes.filter((change, i) => i === changes.length - 1 || changes[i + 1].time !== change.time);
+
+  const pieces: SpeedPiece[] = [];
+  let time = 0;
+  let speed = base;
+  merged.forEach((change, i) => {
+    if (change.speed === speed) return;
+    if (change.time > time) pieces.push({ start: time, end: change.time, startSpeed: speed, endSpeed: speed });
+    const nextChange = i + 1 < merged.length ? merged[i + 1].time : Infinity;
+    // A ramp that doesn't fit before the next change is made steeper, not cut short.
+    const rampLength = Math.min((ramp * (speed + change.speed)) / 2, nextChange - change.time);
+    time = Math.max(time, change.time);
+    if (rampLength > 0) {
+      pieces.push({ start: time, end: time + rampLength, startSpeed: speed, endSpeed: change.speed });
+      time += rampLength;
+    }
+    speed = change.speed;
+  });
+  pieces.push({ start: time, end: Infinity, startSpeed: speed, endSpeed: speed });
+  return pieces;
+}
+
+/** Playback speed at `sourceTime`, e.g. for the preview player. */
+export function speedAtSourceTime(settings: VideoSettings, sourceTime: number): number {
+  if (!settings.speedRanges?.length) return settings.playbackSpeed;
+  const piece = resolveSpeedProfile(settings).find((p) => sourceTime < p.end);
+  return piece ? speedWithin(piece, sourceTime) : settings.playbackSpeed;
+}
+
+/** True when the export plays anything at other than normal speed. */
+export function hasSpeedChanges(settings: VideoSettings): boolean {
+  return settings.playbackSpeed !== 1 || (settings.speedRanges ?? []).some((range) => range.speed !== 1);
+}
+
+/** Resolves how `segments` play out over output time. */
+export function resolveTimeMap(settings: VideoSettings, segments: EditSegment[]): TimeMap {
+  const profile = resolveSpeedProfile(settings);
+  const pieces: TimePiece[] = [];
+  let outputTime = 0;
+  segments.forEach((segment, index) => {
+    for (const piece of profile) {
+      const start = Math.max(piece.start, segment.start);
+      const end = Math.min(piece.end, segment.end);
+      if (end <= start) continue;
+      const clipped: SpeedPiece = {
+        start,
+        end,
+        startSpeed: speedWithin(piece, start),
+        endSpeed: speedWithin(piece, end),
+      };
+      const duration = pieceDuration(clipped);
+      pieces.push({
+        segment: index,
+        editStart: segment.offset + start - segment.start,
+        editEnd: segment.offset + end - segment.start,
+        outputStart: outputTime,
+        outputEnd: outputTime + duration,
+        startSpeed: clipped.startSpeed,
+        endSpeed: clipped.endSpeed,
+      });
+      outputTime += duration;
+    }
+  });
+  const speeds = pieces.flatMap((p) => [p.startSpeed, p.endSpeed]);
+  const constantSpeed = speeds.every((s) => s === speeds[0])
+    ? (speeds[0] ?? Math.max(0.0001, settings.playbackSpeed))
+    : null;
+  return { segments, pieces, outputDuration: outputTime, constantSpeed };
+}
+
+function pieceAtEditTime(map: TimeMap, editTime: number): TimePiece | undefined {
+  return map.pieces.find((p) => editTime < p.editEnd) ?? map.pieces[map.pieces.length - 1];
+}
+
+function pieceAtOutputTime(map: TimeMap, outputTime: number): TimePiece | undefined {
+  return map.pieces.find((p) => outputTime < p.outputEnd) ?? map.pieces[map.pieces.length - 1];
+}
+
+function asSpeedPiece(piece: TimePiece): SpeedPiece {
+  return { start: piece.editStart, end: piece.editEnd, startSpeed: piece.startSpeed, endSpeed: piece.endSpeed };
+}
+
+/** Output time at which edited-timeline position `editTime` plays. */
+export function editTimeToOutputTime(map: TimeMap, editTime: number): number {
+  const piece = pieceAtEditTime(map, editTime);
+  if (!piece) return editTime;
+  const time = Math.min(piece.editEnd, Math.max(piece.editStart, editTime));
+  const speed = speedWithin(asSpeedPiece(piece), time);
+  return piece.outputStart + (2 * (time - piece.editStart)) / (piece.startSpeed + speed);
+}
+
+/** Edited-timeline position playing at `outputTime`. */
+export function outputTimeToEditTime(map: TimeMap, outputTime: number): number {
+  const piece = pieceAtOutputTime(map, outputTime);
+  if (!piece) return outputTime;
+  const duration = piece.outputEnd - piece.outputStart;
+  const u = Math.min(duration, Math.max(0, outputTime - piece.outputStart));
+  const speed = duration > 0 ? piece.startSpeed + ((piece.endSpeed - piece.startSpeed) * u) / duration : piece.startSpeed;
+  return piece.editStart + (u * (piece.startSpeed + speed)) / 2;
+}
+
+/** Playback speed at edited-timeline position `editTime`. */
+export function speedAtEditTime(map: TimeMap, editTime: number): number {
+  const piece = pieceAtEditTime(map, editTime);
+  return piece ? speedWithin(asSpeedPiece(piece), editTime) : 1;
+}
+
+/** Output time span of segment number `index`. */
+export function segmentOutputWindow(map: TimeMap, index: number): { start: number; end: number } {
+  const pieces = segmentPieces(map, index);
+  if (pieces.length === 0) {
+    const at = editTimeToOutputTime(map, map.segments[index]?.offset ?? 0);
+    return { start: at, end: at };
+  }
+  return { start: pieces[0].outputStart, end: pieces[pieces.length - 1].outputEnd };
+}
+
+/** Pieces of the time map that belong to segment number `index`. */
+export function segmentPieces(map: TimeMap, index: number): TimePiece[] {
+  return map.pieces.filter((p) => p.segment === index);
+}
+
+/**
+ * Validates speed ranges read back from storage: malformed or too-short
+ * ranges are dropped, speeds clamped, and the list sorted with overlaps
+ * trimmed away.
+ */
+export function sanitizeSpeedRanges(value: unknown): SpeedRange[] {
+  if (!Array.isArray(value)) return [];
+  const ranges = value
+    .filter((r): r is SpeedRange =>
+      r && typeof r === 'object'
+      && typeof r.start === 'number' && isFinite(r.start)
+      && typeof r.end === 'number' && isFinite(r.end)
+      && typeof r.speed === 'number' && isFinite(r.speed))
+    .map((r) => ({ start: Math.max(0, r.start), end: r.end, speed: clampSpeed(r.speed) }))
+    .sort((a, b) => a.start - b.start);
+  const result: SpeedRange[] = [];
+  for (const range of ranges) {
+    const start = Math.max(range.start, result.length ? result[result.length - 1].end : 0);
+    if (range.end - start >= MIN_KEEP_RANGE_SECONDS) result.push({ ...range, start });
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { SourceClip, VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS } from '../constants';
+import {
+  editDuration,
+  editTimeToSourceTime,
+  resolveClipSegments,
+  resolveEditSegments,
+  sanitizeKeepRanges,
+} from './timeline';
+
+function withSettings(overrides: Partial<VideoSettings>): VideoSettings {
+  return { ...DEFAULT_VIDEO_SETTINGS, ...overrides };
+}
+
+function clip(trimStartSeconds: number | null, trimEndSeconds: number | null): SourceClip {
+  return { id: `${trimStartSeconds}-${trimEndSeconds}`, file: new File([], 'clip.mp4'), trimStartSeconds, trimEndSeconds };
+}
+
+describe('sanitizeKeepRanges', () => {
+  it('drops inverted, empty and malformed ranges', () => {
+    expect(sanitizeKeepRanges([
+      { start: 5, end: 2 },
+      { start: 3, end: 3 },
+      { start: 1, end: Infinity },
+      { start: '1', end: 2 },
+      null,
+      { start: -1, end: 4 },
+    ])).toEqual([{ start: 0, end: 4 }]);
+    expect(sanitizeKeepRanges('not a list')).toEqual([]);
+  });
+
+  it('keeps overlapping ranges in list order', () => {
+    const ranges = [{ start: 4, end: 8 }, { start: 2, end: 6 }];
+    expect(sanitizeKeepRanges(ranges)).toEqual(ranges);
+  });
+});
+
+describe('resolveEditSegments', () => {
+  it('plays overlapping ranges back to back, repeating the overlap', () => {
+    const segments = resolveEditSegments(withSettings({ keepRanges: [{ start: 4, end: 8 }, { start: 2, end: 6 }] }), 10);
+    expect(segments.map(({ start, end, offset }) => [start, end, offset])).toEqual([[4, 8, 0], [2, 6, 4]]);
+    expect(editDuration(segments)).toBe(8);
+    expect(editTimeToSourceTime(segments, 5)).toBe(3);
+  });
+
+  it('clips ranges to the source and drops ones that end up too short', () => {
+    const segments = resolveEditSegments(withSettings({ keepRanges: [{ start: 8, end: 12 }, { start: 9.98, end: 11 }] }), 10);
+    expect(segments.map(({ start, end }) => [start, end])).toEqual([[8, 10]]);
+  });
+
+  it('falls back to the trim window without usable ranges', () => {
+    const segments = resolveEditSegments(
+      withSettings({ keepRanges: [{ start: 12, end: 14 }], trimStartSeconds: 1, trimEndSeconds: 3 }),
+      10
+    );
+    expect(segments).toEqual([{ start: 1, end: 3, duration: 2, offset: 0, clip: 0 }]);
+  });
+});
+
+describe('resolveClipSegments', () => {
+  it('uses the cut list for a single clip', () => {
+    const settings = withSettings({ keepRanges: [{ start: 1, end: 2 }] });
+    expect(resolveClipSegments(settings, [clip(null, null)], [10])).toEqual(resolveEditSegments(settings, 10));
+  });
+
+  it('places each clip\'s trim window after the previous one', () => {
+    const segments = resolveClipSegments(withSettings({}), [clip(1, 4), clip(null, null), clip(2, 5)], [10, 6, 8]);
+    expect(segments).toEqual([
+      { start: 1, end: 4, duration: 3, offset: 0, clip: 0 },
+      { start: 0, end: 6, duration: 6, offset: 3, clip: 1 },
+      { start: 2, end: 5, duration: 3, offset: 9, clip: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { KeepRange, SourceClip, VideoSettings } from '../types';
+import { DEFAULT_FRAME_RATE, MIN_KEEP_RANGE_SECONDS } from '../constants';
+
+export interface TrimWindow {
+  start: number;    // Seconds into the source where the export begins
+  end: number;      // Seconds into the source where the export stops
+  duration: number; // end - start, in source seconds
+}
+
+/**
+ * Resolves the trim window in VideoSettings against the actual source
+ * duration. A duration of 0 means unknown, in which case the raw end is kept.
+ */
+export function resolveTrimWindow(settings: VideoSettings, sourceDuration: number): TrimWindow {
+  const start = Math.max(0, Math.min(settings.trimStartSeconds ?? 0, Math.max(0, sourceDuration - 0.05)));
+  const rawEnd = settings.trimEndSeconds ?? sourceDuration;
+  const end = sourceDuration > 0
+    ? Math.min(sourceDuration, Math.max(start + 0.05, rawEnd))
+    : rawEnd;
+  return { start, end, duration: Math.max(0, end - start) };
+}
+
+export interface EditSegment extends TrimWindow {
+  offset: number; // Where the segment starts on the edited timeline (kept source seconds before it)
+  clip: number;   // Index of the source clip the segment is taken from
+}
+
+/**
+ * Resolves the cut list into the source ranges the export plays back to back,
+ * in list order. Without usable keep-ranges this is the single trim window.
+ */
+export function resolveEditSegments(settings: VideoSettings, sourceDuration: number): EditSegment[] {
+  const segments: EditSegment[] = [];
+  let offset = 0;
+  for (const range of settings.keepRanges ?? []) {
+    const start = Math.max(0, range.start);
+    const end = sourceDuration > 0 ? Math.min(sourceDuration, range.end) : range.end;
+    if (end - start < MIN_KEEP_RANGE_SECONDS) continue;
+    segments.push({ start, end, duration: end - start, offset, clip: 0 });
+    offset += end - start;
+  }
+  if (segments.length === 0) {
+    segments.push({ ...resolveTrimWindow(settings, sourceDuration), offset: 0, clip: 0 });
+  }
+  return segments;
+}
+
+/**
+ * Resolves the edit for a multi-clip export: every clip's own trim window,
+ * back to back in clip order. A single clip keeps the trim window or cut list
+ * from VideoSettings. `durations` are the clips' source durations.
+ */
+export function resolveClipSegments(settings: VideoSettings, clips: SourceClip[], durations: number[]): EditSegment[] {
+  if (clips.length === 1) return resolveEditSegments(settings, durations[0]);
+  const segments: EditSegment[] = [];
+  let offset = 0;
+  clips.forEach((clip, index) => {
+    const window = resolveTrimWindow(
+      { ...settings, trimStartSeconds: clip.trimStartSeconds, trimEndSeconds: clip.trimEndSeconds },
+      durations[index]
+    );
+    if (window.duration <= 0) return;
+    segments.push({ ...window, offset, clip: index });
+    offset += window.duration;
+  });
+  return segments;
+}
+
+/** Length of the edited timeline in source seconds (before playback speed). */
+export function editDuration(segments: EditSegment[]): number {
+  return segments.reduce((total, segment) => total + segment.duration, 0);
+}
+
+/** Index of the segment playing at edited-timeline position `editTime` (-1 when there are none). */
+export function segmentIndexAtEditTime(segments: EditSegment[], editTime: number): number {
+  const index = segments.findIndex((s) => editTime < s.offset + s.duration);
+  return index >= 0 ? index : segments.length - 1;
+}
+
+/** Maps a position on the edited timeline back to source time. */
+export function editTimeToSourceTime(segments: EditSegment[], editTime: number): number {
+  const segment = segments[segmentIndexAtEditTime(segments, editTime)];
+  if (!segment) return editTime;
+  return segment.start + Math.min(segment.duration, Math.max(0, editTime - segment.offset));
+}
+
+/** Validates keep-ranges read back from storage; malformed ranges are dropped. */
+export function sanitizeKeepRanges(value: unknown): KeepRange[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((r): r is KeepRange =>
+      r && typeof r === 'object'
+      && typeof r.start === 'number' && isFinite(r.start)
+      && typeof r.end === 'number' && isFinite(r.end)
+      && r.end > r.start)
+    .map((r) => ({ start: Math.max(0, r.start), end: r.end }));
+}
+
+/**
+ * Frame rate the export should be encoded at. 'source' follows the detected
+ * source rate, falling back to DEFAULT_FRAME_RATE when detection failed.
+ */
+export function resolveOutputFrameRate(settings: VideoSettings, sourceFrameRate: number | null): number {
+  if (settings.outputFrameRate === 'source') {
+    return sourceFrameRate && sourceFrameRate > 0 ? sourceFrameRate : DEFAULT_FRAME_RATE;
+  }
+  return settings.outputFrameRate;
+}
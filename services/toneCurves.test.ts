@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CurvePoint, VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS, TONE_TABLE_SIZE } from '../constants';
+import { applyLevels, evaluateCurve, hasToneAdjustments, toneTables } from './toneCurves';
+
+function withSettings(overrides: Partial<VideoSettings>): VideoSettings {
+  return { ...DEFAULT_VIDEO_SETTINGS, ...overrides };
+}
+
+describe('toneTables', () => {
+  it('is the identity with the default levels and curves', () => {
+    expect(hasToneAdjustments(DEFAULT_VIDEO_SETTINGS)).toBe(false);
+    for (const table of toneTables(DEFAULT_VIDEO_SETTINGS)) {
+      for (let i = 0; i < TONE_TABLE_SIZE; i++) {
+        expect(table[i]).toBeCloseTo(i / (TONE_TABLE_SIZE - 1), 5);
+      }
+    }
+  });
+
+  it('applies the master curve before each channel curve', () => {
+    const settings = withSettings({
+      toneCurves: {
+        ...DEFAULT_VIDEO_SETTINGS.toneCurves,
+        master: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }],
+        red: [{ x: 0, y: 1 }, { x: 1, y: 0 }],
+      },
+    });
+    expect(hasToneAdjustments(settings)).toBe(true);
+    const [red, green] = toneTables(settings);
+    expect(red[0]).toBeCloseTo(0.5, 5);
+    expect(green[TONE_TABLE_SIZE - 1]).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('applyLevels', () => {
+  const settings = withSettings({
+    levelsInputBlack: 50,
+    levelsInputWhite: 200,
+    levelsGamma: 2,
+    levelsOutputBlack: 10,
+    levelsOutputWhite: 245,
+  });
+
+  it('maps the input black and white points onto the output range', () => {
+    expect(hasToneAdjustments(settings)).toBe(true);
+    expect(applyLevels(settings, 50 / 255)).toBeCloseTo(10 / 255, 6);
+    expect(applyLevels(settings, 200 / 255)).toBeCloseTo(245 / 255, 6);
+  });
+
+  it('clips inputs outside the black and white points', () => {
+    expect(applyLevels(settings, 0)).toBeCloseTo(10 / 255, 6);
+    expect(applyLevels(settings, 1)).toBeCloseTo(245 / 255, 6);
+  });
+
+  it('raises the midtones by 1 / gamma', () => {
+    // Half way between the input points: 0.5 ** (1 / 2) of the output range.
+    expect(applyLevels(settings, 125 / 255)).toBeCloseTo((10 + Math.SQRT1_2 * 235) / 255, 6);
+  });
+});
+
+describe('evaluateCurve', () => {
+  // A steep rise followed by a near-flat stretch, where a plain cubic spline overshoots.
+  const points: CurvePoint[] = [{ x: 0, y: 0 }, { x: 0.25, y: 0.6 }, { x: 0.5, y: 0.62 }, { x: 1, y: 1 }];
+
+  it('passes through its control points', () => {
+    for (const point of points) expect(evaluateCurve(points, point.x)).toBeCloseTo(point.y, 6);
+  });
+
+  it('rises monotonically and stays between neighbouring control points', () => {
+    let previous = -Infinity;
+    for (let i = 0; i <= 1000; i++) {
+      const x = i / 1000;
+      const y = evaluateCurve(points, x);
+      expect(y).toBeGreaterThanOrEqual(previous - 1e-9);
+      previous = y;
+      const segment = points.findIndex((p, index) => index > 0 && x <= p.x);
+      expect(y).toBeGreaterThanOrEqual(points[segment - 1].y - 1e-9);
+      expect(y).toBeLessThanOrEqual(points[segment].y + 1e-9);
+    }
+  });
+
+  it('stays flat between equal control points', () => {
+    const plateau: CurvePoint[] = [{ x: 0, y: 0 }, { x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 }, { x: 1, y: 1 }];
+    expect(evaluateCurve(plateau, 0.5)).toBeCloseTo(0.5, 9);
+  });
+});
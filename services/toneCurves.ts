@@ -0,0 +1,141 @@
+import { CurveChannel, CurvePoint, ToneCurves, VideoSettings } from '../types';
+import { DEFAULT_VIDEO_SETTINGS, MIN_CURVE_POINT_GAP, TONE_TABLE_SIZE } from '../constants';
+
+/**
+ * Levels and tone curves. Both collapse into one lookup table per channel
+ * (toneTables), which every renderer uses the same way: the WebGL and CPU
+ * export paths sample it, and the preview hands it to an SVG
+ * feComponentTransfer, which interpolates between entries just like the
+ * shader's linear texture lookup.
+ */
+
+export const CURVE_CHANNELS: CurveChannel[] = ['master', 'red', 'green', 'blue'];
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function isIdentityCurve(points: CurvePoint[]): boolean {
+  return points.every((p) => Math.abs(p.x - p.y) < 1e-6);
+}
+
+/** True when levels or curves change anything, so the stage can be skipped otherwise. */
+export function hasToneAdjustments(settings: VideoSettings): boolean {
+  return settings.levelsInputBlack !== 0
+    || settings.levelsInputWhite !== 255
+    || settings.levelsGamma !== 1
+    || settings.levelsOutputBlack !== 0
+    || settings.levelsOutputWhite !== 255
+    || CURVE_CHANNELS.some((channel) => !isIdentityCurve(settings.toneCurves[channel]));
+}
+
+/**
+ * Evaluates a curve at `x` (0-1) as a monotone cubic spline through its
+ * points (Fritsch-Carlson), so it never overshoots between them. Points must
+ * be sorted by x; outside them the curve holds the end values.
+ */
+export function evaluateCurve(points: CurvePoint[], x: number): number {
+  const n = points.length;
+  if (n === 0) return x;
+  if (n === 1 || x <= points[0].x) return points[0].y;
+  if (x >= points[n - 1].x) return points[n - 1].y;
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((points[i + 1].y - points[i].y) / (points[i + 1].x - points[i].x));
+  }
+  const tangents = points.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 * a * slopes[i]) / length;
+      tangents[i + 1] = (3 * b * slopes[i]) / length;
+    }
+  }
+
+  let i = 0;
+  while (x > points[i + 1].x) i++;
+  const h = points[i + 1].x - points[i].x;
+  const t = (x - points[i].x) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * points[i].y
+    + (t3 - 2 * t2 + t) * h * tangents[i]
+    + (-2 * t3 + 3 * t2) * points[i + 1].y
+    + (t3 - t2) * h * tangents[i + 1];
+}
+
+/** Levels on one 0-1 value: input black/white points, gamma, then the output range. */
+export function applyLevels(settings: VideoSettings, value: number): number {
+  const inputBlack = settings.levelsInputBlack / 255;
+  const inputWhite = Math.max(inputBlack + 1 / 255, settings.levelsInputWhite / 255);
+  const t = clamp01((value - inputBlack) / (inputWhite - inputBlack)) ** (1 / settings.levelsGamma);
+  const outputBlack = settings.levelsOutputBlack / 255;
+  return outputBlack + t * (settings.levelsOutputWhite / 255 - outputBlack);
+}
+
+/**
+ * Output (0-1) for each of TONE_TABLE_SIZE evenly spaced inputs, per channel:
+ * levels, then the master curve, then the channel's own curve.
+ */
+export function toneTables(settings: VideoSettings): [Float32Array, Float32Array, Float32Array] {
+  const { toneCurves } = settings;
+  const tables: [Float32Array, Float32Array, Float32Array] = [
+    new Float32Array(TONE_TABLE_SIZE),
+    new Float32Array(TONE_TABLE_SIZE),
+    new Float32Array(TONE_TABLE_SIZE),
+  ];
+  const channels: CurveChannel[] = ['red', 'green', 'blue'];
+  for (let i = 0; i < TONE_TABLE_SIZE; i++) {
+    const master = clamp01(evaluateCurve(toneCurves.master, applyLevels(settings, i / (TONE_TABLE_SIZE - 1))));
+    channels.forEach((channel, index) => {
+      tables[index][i] = clamp01(evaluateCurve(toneCurves[channel], master));
+    });
+  }
+  return tables;
+}
+
+// Sorts a curve's points, clamps them to 0-1, pins the ends to x = 0 and 1 and
+// drops points closer than MIN_CURVE_POINT_GAP to the previous one.
+function sanitizeCurve(value: unknown): CurvePoint[] | null {
+  if (!Array.isArray(value)) return null;
+  const points = value
+    .filter((p): p is CurvePoint =>
+      p && typeof p === 'object'
+      && typeof p.x === 'number' && isFinite(p.x)
+      && typeof p.y === 'number' && isFinite(p.y))
+    .map((p) => ({ x: clamp01(p.x), y: clamp01(p.y) }))
+    .sort((a, b) => a.x - b.x);
+  if (points.length < 2) return null;
+  points[0].x = 0;
+  points[points.length - 1].x = 1;
+  const result = [points[0]];
+  for (const point of points.slice(1, -1)) {
+    if (point.x - result[result.length - 1].x >= MIN_CURVE_POINT_GAP && 1 - point.x >= MIN_CURVE_POINT_GAP) {
+      result.push(point);
+    }
+  }
+  result.push(points[points.length - 1]);
+  return result;
+}
+
+/** Validates tone curves read back from storage; bad channels fall back to the identity. */
+export function sanitizeToneCurves(value: unknown): ToneCurves {
+  const source = (value && typeof value === 'object' ? value : {}) as Partial<Record<CurveChannel, unknown>>;
+  const curves = { ...DEFAULT_VIDEO_SETTINGS.toneCurves };
+  for (const channel of CURVE_CHANNELS) {
+    curves[channel] = sanitizeCurve(source[channel]) ?? DEFAULT_VIDEO_SETTINGS.toneCurves[channel];
+  }
+  return curves;
+}
+
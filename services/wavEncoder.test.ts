@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wavEncoder';
+
+// The parts of AudioBuffer encodeWav reads; Node has no Web Audio.
+function audioBuffer(channels: number[][], sampleRate: number): AudioBuffer {
+  const data = channels.map((samples) => Float32Array.from(samples));
+  return {
+    numberOfChannels: data.length,
+    sampleRate,
+    length: data[0].length,
+    getChannelData: (channel: number) => data[channel],
+  } as unknown as AudioBuffer;
+}
+
+function tag(view: DataView, offset: number): string {
+  return String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+}
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM RIFF header', async () => {
+    const wav = encodeWav(audioBuffer([[0, 0, 0], [0, 0, 0]], 48000));
+    expect(wav.type).toBe('audio/wav');
+    const view = new DataView(await wav.arrayBuffer());
+    expect(view.byteLength).toBe(44 + 3 * 2 * 2);
+    expect(tag(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(tag(view, 8)).toBe('WAVE');
+    expect(tag(view, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(tag(view, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it('interleaves channels and clips to the 16-bit range', async () => {
+    const wav = encodeWav(audioBuffer([[1, -1, 2], [0.5, -0.5, -3]], 44100));
+    const view = new DataView(await wav.arrayBuffer());
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([32767, 16384, -32768, -16384, 32767, -32768]);
+  });
+});
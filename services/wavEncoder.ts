@@ -0,0 +1,51 @@
+/**
+ * Minimal WAV (RIFF) writer for audio-only exports: 16-bit little-endian PCM,
+ * channels interleaved. No RF64, so the file must stay under 4 GiB (about
+ * 6 hours of 48 kHz stereo).
+ */
+
+const WAV_HEADER_BYTES = 44;
+const WAV_MAX_SIZE = 0xffffffff;
+const BYTES_PER_SAMPLE = 2;
+
+/** Encodes `buffer` as a 16-bit PCM WAV file. Samples are clipped to [-1, 1]. */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const blockAlign = numberOfChannels * BYTES_PER_SAMPLE;
+  const dataBytes = length * blockAlign;
+  if (WAV_HEADER_BYTES + dataBytes - 8 > WAV_MAX_SIZE) {
+    throw new Error('The audio is too long for a WAV file (4 GiB limit).');
+  }
+
+  const bytes = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(bytes);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, WAV_HEADER_BYTES + dataBytes - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);                          // fmt chunk size
+  view.setUint16(20, 1, true);                           // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);     // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);        // Bits per sample
+  writeTag(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = WAV_HEADER_BYTES;
+  for (let i = 0; i < length; i++) {
+    for (const data of channels) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      // Asymmetric scaling so both -1 and 1 map onto the full 16-bit range.
+      view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+  return new Blob([bytes], { type: 'audio/wav' });
+}
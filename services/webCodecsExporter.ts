@@ -0,0 +1,771 @@
+import {
+  ALL_FORMATS,
+  BlobSource,
+  BufferTarget,
+  EncodedAudioPacketSource,
+  EncodedPacket,
+  EncodedPacketSink,
+  EncodedVideoPacketSource,
+  Input,
+  InputVideoTrack,
+  Mp4OutputFormat,
+  Output,
+  WebMOutputFormat,
+} from 'mediabunny';
+import { SourceClip, VideoOutputFormat, VideoRotation, VideoSettings } from '../types';
+import {
+  OUTPUT_FORMAT_WEBCODECS,
+  PITCH_SHIFTER_LATENCY_SECONDS,
+  WEBCODECS_AUDIO_BITRATE,
+  WEBCODECS_AUDIO_CHUNK_FRAMES,
+  WEBCODECS_AUDIO_SAMPLE_RATE,
+  WEBCODECS_KEYFRAME_INTERVAL_SECONDS,
+  WEBCODECS_MAX_DECODED_AUDIO_BYTES,
+  WEBCODECS_MAX_QUEUE_SIZE,
+  WEBCODECS_REVERSE_MAX_BUFFERED_FRAMES,
+} from '../constants';
+import { createFrameCompositor, FrameCompositor } from './frameCompositor';
+import {
+  applyBufferFades,
+  connectAudioChain,
+  connectInSeries,
+  createCompressorNodes,
+  scheduleAudioFades,
+  scheduleSpeedRamp,
+  scheduleSpliceFades,
+} from './audioGraph';
+import { decodeMusic, mixMusicBed } from './backgroundMusic';
+import { applyBrickwallLimiter, normalizeLoudness } from './loudness';
+import { detectTrackFrameRate } from './mediaProbe';
+import { resolveClipGeometry, resolveOutputGeometry } from './outputGeometry';
+import { createPitchShifter, loadPitchShifter, needsPitchShifter, pitchRatioParam, schedulePitchRatio } from './pitchShift';
+import { applyPlaybackDirection, directedOutputDuration, reversedForwardTime } from './playbackDirection';
+import {
+  TimeMap,
+  editTimeToOutputTime,
+  hasSpeedChanges,
+  outputTimeToEditTime,
+  resolveTimeMap,
+  segmentPieces,
+} from './speedRamp';
+import {
+  editDuration,
+  editTimeToSourceTime,
+  resolveClipSegments,
+  resolveOutputFrameRate,
+  segmentIndexAtEditTime,
+} from './timeline';
+
+// Packets are fed in decode order, so keep reading a little past each segment
+// end to make sure reordered (B-)frames that belong inside it get decoded.
+const TRAILING_PACKET_WINDOW_SECONDS = 1;
+
+/**
+ * Thrown when the offline export can't handle this browser, file or settings
+ * combination. Callers should fall back to the real-time MediaRecorder path.
+ */
+export class WebCodecsUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebCodecsUnsupportedError';
+  }
+}
+
+export interface WebCodecsExportOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+  /** Background music mixed under the clips' audio. */
+  musicFile?: File | null;
+}
+
+export interface WebCodecsExportResult {
+  blob: Blob;
+  mimeType: string;
+}
+
+/**
+ * True when the browser exposes everything the offline export needs.
+ */
+export function isWebCodecsExportSupported(): boolean {
+  return typeof VideoDecoder !== 'undefined'
+    && typeof VideoEncoder !== 'undefined'
+    && typeof AudioEncoder !== 'undefined'
+    && typeof VideoFrame !== 'undefined'
+    && typeof AudioData !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof OfflineAudioContext !== 'undefined';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+}
+
+/**
+ * Resolves once `queueSize()` drops to WEBCODECS_MAX_QUEUE_SIZE, using the
+ * codec's `dequeue` event so we don't depend on (throttleable) timers.
+ */
+export function waitForQueueSpace(codec: EventTarget, queueSize: () => number): Promise<void> {
+  if (queueSize() <= WEBCODECS_MAX_QUEUE_SIZE) return Promise.resolve();
+  return new Promise((resolve) => {
+    const onDequeue = () => {
+      if (queueSize() <= WEBCODECS_MAX_QUEUE_SIZE) {
+        codec.removeEventListener('dequeue', onDequeue);
+        resolve();
+      }
+    };
+    codec.addEventListener('dequeue', onDequeue);
+  });
+}
+
+/**
+ * Up to WEBCODECS_AUDIO_CHUNK_FRAMES frames of `buffer` from frame `offset`,
+ * as AudioData ready for an AudioEncoder. The caller closes it.
+ */
+export function createAudioChunk(buffer: AudioBuffer, offset: number): AudioData {
+  const { sampleRate, numberOfChannels } = buffer;
+  const numberOfFrames = Math.min(WEBCODECS_AUDIO_CHUNK_FRAMES, buffer.length - offset);
+  const planar = new Float32Array(numberOfFrames * numberOfChannels);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    planar.set(buffer.getChannelData(channel).subarray(offset, offset + numberOfFrames), channel * numberOfFrames);
+  }
+  return new AudioData({
+    format: 'f32-planar',
+    sampleRate,
+    numberOfFrames,
+    numberOfChannels,
+    timestamp: Math.round((offset / sampleRate) * 1e6),
+    data: planar,
+  });
+}
+
+// Size of `file`'s audio track once decoded to float PCM at `sampleRate`,
+// read from the container; 0 when it has no audio track mediabunny can read.
+async function decodedAudioBytes(file: File, sampleRate: number): Promise<number> {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  try {
+    if (!(await input.canRead())) return 0;
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) return 0;
+    return (await track.computeDuration()) * sampleRate * track.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+  } catch {
+    return 0;
+  } finally {
+    input.dispose();
+  }
+}
+
+/**
+ * Decodes every clip's audio track and renders the spliced, sped-up, faded
+ * result through the shared export audio chain, reversed or mirrored to match
+ * the playback direction, with `musicFile` mixed under it as background music
+ * and loudness-normalized when enabled. `clipFiles` has one entry per clip,
+ * null for clips without audio; those clips (and any whose audio can't be
+ * decoded) stay silent. Returns null when there is neither decodable clip
+ * audio nor music. Throws WebCodecsUnsupportedError when the decoded audio,
+ * plus the largest file read to decode it, would exceed
+ * WEBCODECS_MAX_DECODED_AUDIO_BYTES.
+ */
+export async function renderExportAudio(
+  clipFiles: Array<File | null>,
+  settings: VideoSettings,
+  timeMap: TimeMap,
+  musicFile: File | null = null
+): Promise<AudioBuffer | null> {
+  const sampleRate = WEBCODECS_AUDIO_SAMPLE_RATE;
+  // Everything below is held in memory at once, so refuse up front rather
+  // than run the tab out of memory partway through decoding. decodeAudioData
+  // needs the whole container in memory, one file at a time, so the largest
+  // file counts too.
+  let bytes = timeMap.outputDuration * sampleRate * 2 * Float32Array.BYTES_PER_ELEMENT;
+  let largestFile = 0;
+  for (const file of [...clipFiles, musicFile]) {
+    if (!file) continue;
+    bytes += await decodedAudioBytes(file, sampleRate);
+    largestFile = Math.max(largestFile, file.size);
+  }
+  bytes += largestFile;
+  if (bytes > WEBCODECS_MAX_DECODED_AUDIO_BYTES) {
+    const megabytes = (value: number) => Math.round(value / 1024 ** 2);
+    throw new WebCodecsUnsupportedError(
+      `The audio is too large to render in one pass (about ${megabytes(bytes)} MB decoded, with the source file; the limit is ${megabytes(WEBCODECS_MAX_DECODED_AUDIO_BYTES)} MB).`
+    );
+  }
+  const decoded: Array<AudioBuffer | null> = [];
+  for (const file of clipFiles) {
+    if (!file) {
+      decoded.push(null);
+      continue;
+    }
+    try {
+      decoded.push(await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await file.arrayBuffer()));
+    } catch (e) {
+      console.warn('Could not decode audio track:', e);
+      decoded.push(null);
+    }
+  }
+  const music = musicFile ? await decodeMusic(musicFile, sampleRate) : null;
+  if (decoded.every((buffer) => !buffer) && !music) return null;
+
+  const direction = settings.playbackDirection;
+  let rendered: AudioBuffer;
+  if (decoded.every((buffer) => !buffer)) {
+    // Music only: it plays over silence.
+    const duration = directedOutputDuration(timeMap.outputDuration, direction);
+    rendered = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, Math.ceil(duration * sampleRate)), sampleRate });
+  } else if (direction === 'forward') {
+    rendered = await renderAudioTimeline(decoded, settings, timeMap);
+  } else {
+    // The compressor and the fades act along the output timeline, so they go
+    // on after the audio is turned around.
+    const content = await renderAudioTimeline(
+      decoded,
+      { ...settings, compressorEnabled: false, audioFadeInSeconds: 0, audioFadeOutSeconds: 0 },
+      timeMap
+    );
+    rendered = await compressBuffer(applyPlaybackDirection(content, direction), settings);
+    applyBufferFades(rendered, settings);
+  }
+  // The music goes under the finished source mix, so it plays forward
+  // whatever the direction and is ducked by what the viewer will hear.
+  if (music) rendered = await mixMusicBed(rendered, music, settings);
+  if (settings.normalizeLoudness) await normalizeLoudness(rendered, settings);
+  if (settings.limiterEnabled) applyBrickwallLimiter(rendered, settings.limiterCeilingDb);
+  return rendered;
+}
+
+// Runs a rendered buffer through the compressor stage on its own.
+async function compressBuffer(buffer: AudioBuffer, settings: VideoSettings): Promise<AudioBuffer> {
+  if (!settings.compressorEnabled) return buffer;
+  const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  connectInSeries(source, createCompressorNodes(context, settings), context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+// Renders the edit as it plays forward; `decoded` has one buffer (or null) per clip.
+async function renderAudioTimeline(
+  decoded: Array<AudioBuffer | null>,
+  settings: VideoSettings,
+  timeMap: TimeMap
+): Promise<AudioBuffer> {
+  const sampleRate = WEBCODECS_AUDIO_SAMPLE_RATE;
+  const outputDuration = timeMap.outputDuration;
+  const numberOfChannels = Math.min(2, Math.max(...decoded.map((buffer) => buffer?.numberOfChannels ?? 1)));
+  const length = Math.max(1, Math.ceil(outputDuration * sampleRate));
+  // The pitch shifter delays the sound; render that much more and drop it from the start.
+  const shifting = needsPitchShifter(settings);
+  const latency = shifting ? Math.round(PITCH_SHIFTER_LATENCY_SECONDS * sampleRate) : 0;
+  const context = new OfflineAudioContext(numberOfChannels, length + latency, sampleRate);
+
+  // Every segment plays from its own buffer source, back to back, through one splice gain.
+  const spliceGain = context.createGain();
+  let chainInput: AudioNode = spliceGain;
+  if (shifting) {
+    try {
+      await loadPitchShifter(context);
+    } catch (e: any) {
+      throw new WebCodecsUnsupportedError(`Pitch shifting is not available: ${e?.message || e}`);
+    }
+    const shifter = createPitchShifter(context, numberOfChannels);
+    schedulePitchRatio(pitchRatioParam(shifter), latency / sampleRate, settings, timeMap);
+    spliceGain.connect(shifter);
+    chainInput = shifter;
+  }
+  const gainNode = connectAudioChain(context, chainInput, context.destination, settings);
+  scheduleAudioFades(gainNode, latency / sampleRate, settings, timeMap);
+  scheduleSpliceFades(spliceGain, 0, timeMap, settings);
+  timeMap.segments.forEach((segment, index) => {
+    const buffer = decoded[segment.clip];
+    const pieces = segmentPieces(timeMap, index);
+    if (!buffer || pieces.length === 0) return;
+    const sourceNode = context.createBufferSource();
+    sourceNode.buffer = buffer;
+    // The playback rate follows the segment's speed ramps.
+    scheduleSpeedRamp(sourceNode.playbackRate, pieces[0].outputStart, pieces);
+    sourceNode.connect(spliceGain);
+    sourceNode.start(pieces[0].outputStart, segment.start, segment.duration);
+  });
+
+  const rendered = await context.startRendering();
+  return latency > 0 ? dropLeadingFrames(rendered, latency) : rendered;
+}
+
+// Copy of `buffer` without its first `frames` sample frames.
+function dropLeadingFrames(buffer: AudioBuffer, frames: number): AudioBuffer {
+  const trimmed = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: Math.max(1, buffer.length - frames),
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    trimmed.copyToChannel(buffer.getChannelData(channel).subarray(frames), channel);
+  }
+  return trimmed;
+}
+
+// Demuxing state for one clip of the export.
+interface ExportSource {
+  videoTrack: InputVideoTrack;
+  decoderConfig: VideoDecoderConfig;
+  rotation: VideoRotation;
+  width: number;  // Square-pixel size before rotation
+  height: number;
+  duration: number;
+  frameRate: number | null;
+  hasAudio: boolean;
+}
+
+/**
+ * Opens one clip and checks that the offline export can handle it. Throws
+ * WebCodecsUnsupportedError otherwise.
+ */
+async function openExportSource(input: Input): Promise<ExportSource> {
+  if (!(await input.canRead())) {
+    throw new WebCodecsUnsupportedError('Container format cannot be demuxed for offline export.');
+  }
+  const videoTrack = await input.getPrimaryVideoTrack();
+  if (!videoTrack) {
+    throw new WebCodecsUnsupportedError('No video track found for offline export.');
+  }
+  if (await videoTrack.getFlip()) {
+    throw new WebCodecsUnsupportedError('Mirrored source videos are not supported by the offline export.');
+  }
+
+  const decoderConfig = await videoTrack.getDecoderConfig();
+  if (!decoderConfig || !(await VideoDecoder.isConfigSupported(decoderConfig)).supported) {
+    throw new WebCodecsUnsupportedError('Source video codec cannot be decoded with WebCodecs.');
+  }
+
+  const width = await videoTrack.getSquarePixelWidth();
+  const height = await videoTrack.getSquarePixelHeight();
+  if (!width || !height) {
+    throw new WebCodecsUnsupportedError('Source video has no dimensions.');
+  }
+
+  return {
+    videoTrack,
+    decoderConfig,
+    // Decoded frames come out unrotated; the container's rotation is applied while compositing.
+    rotation: await videoTrack.getRotation(),
+    width,
+    height,
+    duration: await input.computeDuration(),
+    frameRate: await detectTrackFrameRate(videoTrack),
+    hasAudio: !!(await input.getPrimaryAudioTrack()),
+  };
+}
+
+/**
+ * Renders the export without real-time playback: frames are demuxed and
+ * decoded with VideoDecoder, composited in the frame compositor worker like the
+ * MediaRecorder path, and re-encoded with VideoEncoder/AudioEncoder as fast as
+ * the machine allows. Several clips are concatenated in order; the first one
+ * sets the canvas size and the others are fitted onto it.
+ *
+ * Throws WebCodecsUnsupportedError when the caller should fall back to the
+ * real-time path, and an AbortError DOMException when `signal` is aborted.
+ */
+export async function exportWithWebCodecs(
+  clips: SourceClip[],
+  settings: VideoSettings,
+  { onProgress, signal, musicFile = null }: WebCodecsExportOptions = {}
+): Promise<WebCodecsExportResult> {
+  if (!(settings.outputFormat in OUTPUT_FORMAT_WEBCODECS)) {
+    throw new Error(`${settings.outputFormat} has no video track; audio-only formats are exported with exportAudioOnly.`);
+  }
+  const formatConfig = OUTPUT_FORMAT_WEBCODECS[settings.outputFormat as VideoOutputFormat];
+  const inputs = clips.map((clip) => new Input({ source: new BlobSource(clip.file), formats: ALL_FORMATS }));
+
+  let decoder: VideoDecoder | null = null;
+  let videoEncoder: VideoEncoder | null = null;
+  let audioEncoder: AudioEncoder | null = null;
+  let output: Output | null = null;
+  let compositor: FrameCompositor | null = null;
+
+  try {
+    if (clips.length === 0) {
+      throw new Error('No clips to export.');
+    }
+    const sources: ExportSource[] = [];
+    for (const input of inputs) {
+      sources.push(await openExportSource(input));
+    }
+
+    const geometry = resolveOutputGeometry(settings, sources[0].width, sources[0].height, sources[0].rotation);
+    const { width, height } = geometry;
+    const geometries = sources.map((source, index) => (index === 0
+      ? geometry
+      : resolveClipGeometry(settings, width, height, source.width, source.height, source.rotation)));
+
+    const outputFrameRate = resolveOutputFrameRate(settings, sources[0].frameRate);
+    // At normal speed, "match source" keeps every decoded frame with its own
+    // timestamp (this also preserves variable frame rate sources). Otherwise,
+    // and whenever clips are concatenated, frames are resampled onto a fixed
+    // grid at the output frame rate.
+    const direction = settings.playbackDirection;
+    const passThroughFrames = settings.outputFrameRate === 'source'
+      && !hasSpeedChanges(settings)
+      && sources.length === 1
+      && direction === 'forward';
+
+    const videoEncoderConfig: VideoEncoderConfig = {
+      codec: formatConfig.videoCodecString,
+      width,
+      height,
+      framerate: outputFrameRate,
+      latencyMode: 'quality',
+    };
+    if (settings.outputBitrateKbps > 0) {
+      videoEncoderConfig.bitrate = settings.outputBitrateKbps * 1000;
+    }
+    if (formatConfig.videoCodec === 'avc') {
+      videoEncoderConfig.avc = { format: 'avc' };
+    }
+    if (!(await VideoEncoder.isConfigSupported(videoEncoderConfig)).supported) {
+      throw new WebCodecsUnsupportedError(`Encoding ${settings.outputFormat} is not supported by WebCodecs in this browser.`);
+    }
+
+    const segments = resolveClipSegments(settings, clips, sources.map((source) => source.duration));
+    if (editDuration(segments) <= 0) {
+      throw new WebCodecsUnsupportedError('Could not determine the source duration.');
+    }
+    const timeMap = resolveTimeMap(settings, segments);
+    throwIfAborted(signal);
+
+    const renderedAudio = sources.some((source) => source.hasAudio) || musicFile
+      ? await renderExportAudio(
+        clips.map((clip, index) => (sources[index].hasAudio ? clip.file : null)),
+        settings,
+        timeMap,
+        musicFile
+      )
+      : null;
+    throwIfAborted(signal);
+
+    let audioEncoderConfig: AudioEncoderConfig | null = null;
+    if (renderedAudio) {
+      audioEncoderConfig = {
+        codec: formatConfig.audioCodecString,
+        sampleRate: renderedAudio.sampleRate,
+        numberOfChannels: renderedAudio.numberOfChannels,
+        bitrate: WEBCODECS_AUDIO_BITRATE,
+      };
+      if (!(await AudioEncoder.isConfigSupported(audioEncoderConfig)).supported) {
+        throw new WebCodecsUnsupportedError(`Encoding ${formatConfig.audioCodec} audio is not supported by WebCodecs in this browser.`);
+      }
+    }
+
+    // Any codec or muxer error rejects `failed`, which every wait below races against.
+    let fail: (error: unknown) => void = () => {};
+    const failed = new Promise<never>((_, reject) => { fail = reject; });
+    failed.catch(() => { /* surfaced through the races below */ });
+
+    output = new Output({
+      format: formatConfig.container === 'mp4'
+        ? new Mp4OutputFormat({ fastStart: 'in-memory' })
+        : new WebMOutputFormat(),
+      target: new BufferTarget(),
+    });
+    const videoSource = new EncodedVideoPacketSource(formatConfig.videoCodec);
+    output.addVideoTrack(videoSource, passThroughFrames ? {} : { frameRate: outputFrameRate });
+    const audioSource = renderedAudio ? new EncodedAudioPacketSource(formatConfig.audioCodec) : null;
+    if (audioSource) output.addAudioTrack(audioSource);
+    await output.start();
+
+    // Packets must reach the muxer in order, so chain every add onto the previous one.
+    let muxChain: Promise<void> = Promise.resolve();
+    const enqueueMux = (add: () => Promise<void>) => {
+      muxChain = muxChain.then(add).catch((e) => fail(e));
+    };
+
+    videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => enqueueMux(() => videoSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+      error: (e) => fail(e),
+    });
+    videoEncoder.configure(videoEncoderConfig);
+    const activeVideoEncoder = videoEncoder;
+
+    let encodeAudioUntil = async (_outputTime: number): Promise<void> => {};
+    if (renderedAudio && audioSource && audioEncoderConfig) {
+      audioEncoder = new AudioEncoder({
+        output: (chunk, meta) => enqueueMux(() => audioSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+        error: (e) => fail(e),
+      });
+      audioEncoder.configure(audioEncoderConfig);
+      const activeAudioEncoder = audioEncoder;
+      const { sampleRate } = renderedAudio;
+      let audioOffset = 0;
+
+      // Audio is encoded just ahead of the video so the muxer can interleave the tracks.
+      encodeAudioUntil = async (outputTime: number) => {
+        const targetFrame = Math.min(renderedAudio.length, Math.ceil(outputTime * sampleRate));
+        while (audioOffset < targetFrame) {
+          const audioData = createAudioChunk(renderedAudio, audioOffset);
+          activeAudioEncoder.encode(audioData);
+          audioData.close();
+          audioOffset += audioData.numberOfFrames;
+          await Promise.race([
+            waitForQueueSpace(activeAudioEncoder, () => activeAudioEncoder.encodeQueueSize),
+            failed,
+          ]);
+        }
+      };
+    }
+
+    const forwardDuration = timeMap.outputDuration;
+    const outputDuration = directedOutputDuration(forwardDuration, direction);
+    const frameInterval = 1 / outputFrameRate;
+    let nextKeyFrameTime = 0;
+    let latestOutputTime = 0;
+
+    try {
+      compositor = await createFrameCompositor(new OffscreenCanvas(width, height), settings, geometries[segments[0].clip], {
+        outputDuration,
+        onProgress,
+        onError: (e) => fail(e),
+      });
+    } catch (e: any) {
+      throw new WebCodecsUnsupportedError(e?.message || 'Could not create the frame compositor.');
+    }
+    const activeCompositor = compositor;
+
+    // Frames are composited asynchronously (in the compositor worker) but come
+    // back in submission order, so encoding is chained in that same order.
+    let encodeChain: Promise<void> = Promise.resolve();
+    let framesInFlight = 0;
+
+    // Frames must be handed over in output time order.
+    const encodeFrame = (rendered: Promise<VideoFrame>, outputTime: number) => {
+      const keyFrame = outputTime >= nextKeyFrameTime;
+      if (keyFrame) nextKeyFrameTime = outputTime + WEBCODECS_KEYFRAME_INTERVAL_SECONDS;
+      latestOutputTime = Math.max(latestOutputTime, outputTime);
+
+      framesInFlight++;
+      encodeChain = encodeChain
+        .then(async () => {
+          const renderedFrame = await rendered;
+          framesInFlight--;
+          activeVideoEncoder.encode(renderedFrame, { keyFrame });
+          renderedFrame.close();
+        })
+        .catch((e) => fail(e));
+    };
+
+    // Takes ownership of `source`.
+    const encodeRenderedFrame = (source: VideoFrame, outputTime: number, duration: number) => {
+      const sourceTime = editTimeToSourceTime(segments, outputTimeToEditTime(timeMap, outputTime));
+      encodeFrame(activeCompositor.renderFrame(source, outputTime, sourceTime, duration), outputTime);
+    };
+
+    // Resampling state: the most recent decoded frame stays on screen for every
+    // output tick until the next decoded frame's output time (within a segment).
+    let heldFrame: VideoFrame | null = null;
+    let nextTickIndex = 0;
+    const emitTicksUntil = (untilOutputTime: number) => {
+      if (!heldFrame) return;
+      const limit = Math.min(untilOutputTime, forwardDuration);
+      while (nextTickIndex * frameInterval < limit) {
+        encodeRenderedFrame(heldFrame.clone(), nextTickIndex * frameInterval, frameInterval);
+        nextTickIndex++;
+      }
+    };
+    const holdFrame = (frame: VideoFrame | null) => {
+      heldFrame?.close();
+      heldFrame = frame;
+    };
+
+    // Decoded frames go to whichever pass is running.
+    let handleFrame: (frame: VideoFrame) => void = () => {};
+    decoder = new VideoDecoder({
+      output: (frame) => {
+        try {
+          handleFrame(frame);
+        } catch (e) {
+          fail(e);
+        } finally {
+          frame.close();
+        }
+      },
+      error: (e) => fail(e),
+    });
+    const activeDecoder = decoder;
+
+    // The decoder is reconfigured (and the compositor re-laid out) whenever the clip changes.
+    let decoderClip = -1;
+    let compositorClip = segments[0].clip;
+    const selectClip = (clip: number) => {
+      if (clip !== decoderClip) {
+        activeDecoder.configure(sources[clip].decoderConfig);
+        decoderClip = clip;
+      }
+      if (clip !== compositorClip) {
+        activeCompositor.setGeometry(geometries[clip]);
+        compositorClip = clip;
+      }
+    };
+
+    const decodePacket = async (packet: EncodedPacket) => {
+      throwIfAborted(signal);
+      activeDecoder.decode(packet.toEncodedVideoChunk());
+      await Promise.race([
+        Promise.all([
+          waitForQueueSpace(activeDecoder, () => activeDecoder.decodeQueueSize),
+          waitForQueueSpace(activeVideoEncoder, () => activeVideoEncoder.encodeQueueSize),
+        ]),
+        failed,
+      ]);
+      if (framesInFlight > WEBCODECS_MAX_QUEUE_SIZE) {
+        await Promise.race([encodeChain, failed]);
+      }
+      await encodeAudioUntil(latestOutputTime + 1);
+    };
+
+    const sinks = sources.map((source) => new EncodedPacketSink(source.videoTrack));
+
+    // Forward pass. Each segment is decoded from the key frame before its
+    // start; the decoder is flushed in between, so the gaps are never decoded
+    // or encoded.
+    if (direction !== 'reverse') {
+      // The segment currently being decoded; segments are decoded one at a time.
+      let segment = segments[0];
+      handleFrame = (frame) => {
+        const sourceTime = frame.timestamp / 1e6;
+        if (sourceTime >= segment.end) return;
+        const outputTime = editTimeToOutputTime(timeMap, segment.offset + sourceTime - segment.start);
+
+        if (passThroughFrames) {
+          if (sourceTime < segment.start) return;
+          encodeRenderedFrame(frame.clone(), outputTime, frame.duration ? frame.duration / 1e6 : frameInterval);
+          return;
+        }
+
+        emitTicksUntil(outputTime);
+        holdFrame(frame.clone());
+      };
+
+      for (const current of segments) {
+        segment = current;
+        selectClip(segment.clip);
+        const sink = sinks[segment.clip];
+        const startPacket = (await sink.getKeyPacket(segment.start, { verifyKeyPackets: true }))
+          ?? (await sink.getFirstPacket());
+
+        for await (const packet of sink.packets(startPacket ?? undefined)) {
+          if (packet.timestamp > segment.end + TRAILING_PACKET_WINDOW_SECONDS) break;
+          await decodePacket(packet);
+        }
+
+        await Promise.race([activeDecoder.flush(), failed]);
+        emitTicksUntil(editTimeToOutputTime(timeMap, segment.offset + segment.duration));
+        holdFrame(null);
+      }
+    }
+
+    // Backward pass. Decoders only run forward, so the remaining ticks are
+    // taken from the end in windows: decode from the key frame before the
+    // window's latest source frame, composite the window's ticks as their
+    // frames come out, then encode them in output order. Windows are capped at
+    // WEBCODECS_REVERSE_MAX_BUFFERED_FRAMES ticks so long key-frame intervals
+    // don't hold many full-size frames; they then get decoded more than once.
+    if (direction !== 'forward') {
+      const ticks: Array<{ outputTime: number; segmentIndex: number; sourceTime: number }> = [];
+      for (let index = nextTickIndex; index * frameInterval < outputDuration; index++) {
+        const outputTime = index * frameInterval;
+        const editTime = outputTimeToEditTime(
+          timeMap,
+          reversedForwardTime(outputTime, forwardDuration, direction, frameInterval)
+        );
+        ticks.push({
+          outputTime,
+          segmentIndex: segmentIndexAtEditTime(segments, editTime),
+          sourceTime: editTimeToSourceTime(segments, editTime),
+        });
+      }
+
+      let cursor = 0;
+      while (cursor < ticks.length) {
+        const segment = segments[ticks[cursor].segmentIndex];
+        selectClip(segment.clip);
+        const sink = sinks[segment.clip];
+        const latestSourceTime = ticks[cursor].sourceTime;
+        const keyPacket = (await sink.getKeyPacket(latestSourceTime, { verifyKeyPackets: true }))
+          ?? (await sink.getFirstPacket());
+        const keyTime = keyPacket?.timestamp ?? 0;
+
+        let end = cursor + 1;
+        while (
+          end < ticks.length
+          && end - cursor < WEBCODECS_REVERSE_MAX_BUFFERED_FRAMES
+          && ticks[end].segmentIndex === ticks[cursor].segmentIndex
+          && ticks[end].sourceTime >= keyTime
+        ) {
+          end++;
+        }
+        const window = ticks.slice(cursor, end);
+        cursor = end;
+
+        // Ticks run backward through the source, so they are assigned from the last one.
+        const rendered: Array<Promise<VideoFrame>> = [];
+        let pending = window.length - 1;
+        const renderPendingBefore = (sourceTime: number) => {
+          while (heldFrame && pending >= 0 && window[pending].sourceTime < sourceTime) {
+            const tick = window[pending];
+            rendered[pending] = activeCompositor.renderFrame(heldFrame.clone(), tick.outputTime, tick.sourceTime, frameInterval);
+            pending--;
+          }
+        };
+        handleFrame = (frame) => {
+          renderPendingBefore(frame.timestamp / 1e6);
+          holdFrame(frame.clone());
+        };
+
+        for await (const packet of sink.packets(keyPacket ?? undefined)) {
+          if (packet.timestamp > latestSourceTime + TRAILING_PACKET_WINDOW_SECONDS) break;
+          await decodePacket(packet);
+        }
+        await Promise.race([activeDecoder.flush(), failed]);
+        renderPendingBefore(Infinity);
+        holdFrame(null);
+        if (pending >= 0) {
+          throw new Error('Could not decode the video frames needed for reverse playback.');
+        }
+
+        window.forEach((tick, i) => encodeFrame(rendered[i], tick.outputTime));
+        await Promise.race([encodeChain, failed]);
+        await encodeAudioUntil(latestOutputTime + 1);
+      }
+    }
+    await Promise.race([encodeChain, failed]);
+    await Promise.race([activeVideoEncoder.flush(), failed]);
+    await encodeAudioUntil(Infinity);
+    if (audioEncoder) await Promise.race([audioEncoder.flush(), failed]);
+    await Promise.race([muxChain, failed]);
+    throwIfAborted(signal);
+
+    await output.finalize();
+    const buffer = (output.target as BufferTarget).buffer;
+    if (!buffer) {
+      throw new Error('Offline export produced no output.');
+    }
+    const mimeType = await output.getMimeType();
+    onProgress?.(100);
+    return { blob: new Blob([buffer], { type: mimeType }), mimeType };
+  } catch (error) {
+    if (output && output.state !== 'finalized' && output.state !== 'canceled') {
+      await output.cancel().catch(() => { /* already failing */ });
+    }
+    throw error;
+  } finally {
+    for (const codec of [decoder, videoEncoder, audioEncoder]) {
+      if (codec && codec.state !== 'closed') {
+        try { codec.close(); } catch { /* ignore */ }
+      }
+    }
+    compositor?.dispose();
+    inputs.forEach((input) => input.dispose());
+  }
+}
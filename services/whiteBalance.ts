@@ -0,0 +1,71 @@
+import { VideoSettings } from '../types';
+import {
+  SETTINGS_RANGES,
+  WHITE_BALANCE_MIN_SAMPLE,
+  WHITE_BALANCE_TEMPERATURE_STOPS,
+  WHITE_BALANCE_TINT_STOPS,
+} from '../constants';
+import { decodeLut, sampleLut } from './colorLut';
+import { ColorMatrix3 } from './filterMatrices';
+
+/**
+ * Temperature and tint as a diagonal colour matrix: temperature trades red
+ * against blue, tint scales green. Gains are normalised so that grey keeps
+ * its luminance. The matrix works on the same sRGB values as the other colour
+ * stages, so the WebGL, CPU and preview (feColorMatrix) paths agree.
+ */
+
+// Rec. 709 luma weights, as used by the grayscale matrix.
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+/** True when temperature or tint move away from neutral. */
+export function hasWhiteBalance(settings: VideoSettings): boolean {
+  return settings.temperature !== 0 || settings.tint !== 0;
+}
+
+export function whiteBalanceMatrix(temperature: number, tint: number): ColorMatrix3 {
+  const temperatureStops = (temperature / 100) * WHITE_BALANCE_TEMPERATURE_STOPS;
+  const red = 2 ** temperatureStops;
+  const green = 2 ** ((-tint / 100) * WHITE_BALANCE_TINT_STOPS);
+  const blue = 2 ** -temperatureStops;
+  const luma = LUMA[0] * red + LUMA[1] * green + LUMA[2] * blue;
+  return [
+    red / luma, 0, 0,
+    0, green / luma, 0,
+    0, 0, blue / luma,
+  ];
+}
+
+function clampToRange(value: number, range: { min: number; max: number }): number {
+  return Math.round(Math.min(range.max, Math.max(range.min, value)));
+}
+
+/**
+ * Temperature and tint that turn the source colour (r, g, b), 0-1, neutral
+ * grey. The colour goes through settings.lut first, since white balance comes
+ * after it. Returns null when a channel is too dark to balance reliably.
+ */
+export function neutralWhiteBalance(
+  settings: VideoSettings,
+  r: number,
+  g: number,
+  b: number
+): Pick<VideoSettings, 'temperature' | 'tint'> | null {
+  let color = [r, g, b];
+  if (settings.lut) {
+    const graded = new Float32Array(3);
+    sampleLut(settings.lut, decodeLut(settings.lut), r, g, b, settings.lutInterpolation === 'tetrahedral', graded);
+    const amount = Math.min(1, Math.max(0, settings.lutIntensity / 100));
+    color = color.map((value, channel) => value + (graded[channel] - value) * amount);
+  }
+  const [red, green, blue] = color;
+  if (Math.min(red, green, blue) < WHITE_BALANCE_MIN_SAMPLE) return null;
+
+  // Red and blue meet at their geometric mean, and green is brought to it.
+  const temperature = (Math.log2(blue / red) / (2 * WHITE_BALANCE_TEMPERATURE_STOPS)) * 100;
+  const tint = (Math.log2(green / Math.sqrt(red * blue)) / WHITE_BALANCE_TINT_STOPS) * 100;
+  return {
+    temperature: clampToRange(temperature, SETTINGS_RANGES.temperature),
+    tint: clampToRange(tint, SETTINGS_RANGES.tint),
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zipWriter';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface ReadEntry {
+  name: string;
+  data: string;
+  crc: number;
+  flags: number;
+}
+
+// Walks the archive the way an unzipper does: end record, then the central
+// directory, then each local header it points at. Every field written twice
+// must agree between the two headers.
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(view.getUint16(endOffset + 8, true)).toBe(count);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const entries: ReadEntry[] = [];
+  let position = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const flags = view.getUint16(position + 8, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 6, true)).toBe(flags);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    expect(view.getUint16(localOffset + 26, true)).toBe(nameLength);
+    const localName = decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength));
+    expect(localName).toBe(name);
+    const dataStart = localOffset + 30 + nameLength;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.push({ name, data: decoder.decode(data), crc, flags });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(endOffset);
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('continues from a previous checksum', () => {
+    const whole = encoder.encode('The quick brown fox jumps over the lazy dog');
+    expect(crc32(whole)).toBe(0x414fa339);
+    expect(crc32(whole.subarray(10), crc32(whole.subarray(0, 10)))).toBe(0x414fa339);
+  });
+});
+
+describe('createZip', () => {
+  it('writes headers that read back to the original entries', async () => {
+    const zip = await createZip([
+      { name: 'first.mp4', data: new Blob(['hello']), lastModified: new Date(2024, 5, 1, 12, 30, 10) },
+      { name: 'clip.webm', data: new Blob(['world!']) },
+      { name: 'ünïcode.webm', data: new Blob(['']) },
+    ]);
+    expect(zip.type).toBe('application/zip');
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect(entries.map(({ name, data }) => [name, data])).toEqual([
+      ['first.mp4', 'hello'],
+      ['clip.webm', 'world!'],
+      ['ünïcode.webm', ''],
+    ]);
+    expect(entries.every((entry) => entry.flags === 0x0800)).toBe(true);
+  });
+
+  it('stores the modification time as an MS-DOS date and time', async () => {
+    const zip = await createZip([{ name: 'a.txt', data: new Blob(['a']), lastModified: new Date(2024, 5, 1, 12, 30, 10) }]);
+    const view = new DataView(await zip.arrayBuffer());
+    expect(view.getUint16(10, true)).toBe((12 << 11) | (30 << 5) | 5);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (6 << 5) | 1);
+  });
+
+  it('renames duplicate entries', async () => {
+    const zip = await createZip([
+      { name: 'out.mp4', data: new Blob(['1']) },
+      { name: 'OUT.mp4', data: new Blob(['2']) },
+      { name: 'out.mp4', data: new Blob(['3']) },
+    ]);
+    const names = readZip(new Uint8Array(await zip.arrayBuffer())).map((entry) => entry.name);
+    expect(names).toEqual(['out.mp4', 'OUT (2).mp4', 'out (3).mp4']);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = await createZip([]);
+    expect(zip.size).toBe(22);
+    expect(readZip(new Uint8Array(await zip.arrayBuffer()))).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Minimal ZIP archive writer for bundling batch exports. Entries are stored
+ * uncompressed (method 0): video and audio are already compressed, so deflate
+ * would cost time for almost no gain. No ZIP64, so the archive must stay
+ * under 4 GiB.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+const ZIP_MAX_SIZE = 0xffffffff;
+const CRC_SLICE_SIZE = 8 * 1024 * 1024; // Bytes of an entry read at a time for its checksum
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3) of `bytes`, as stored in ZIP headers. Pass the CRC of
+ * the preceding bytes as `previous` to checksum data in pieces.
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  const table = getCrcTable();
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// CRC-32 of `blob`, read a slice at a time so the whole entry is never in memory.
+async function blobCrc32(blob: Blob): Promise<number> {
+  let crc = 0;
+  for (let start = 0; start < blob.size; start += CRC_SLICE_SIZE) {
+    crc = crc32(new Uint8Array(await blob.slice(start, start + CRC_SLICE_SIZE).arrayBuffer()), crc);
+  }
+  return crc;
+}
+
+// MS-DOS date/time fields used by ZIP headers (2-second resolution, from 1980).
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Packs `entries` into a ZIP archive. Names are stored as UTF-8; duplicate
+ * names get a " (2)", " (3)", ... suffix before the extension.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  const usedNames = new Set<string>();
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = uniqueName(entry.name, usedNames);
+    const nameBytes = encoder.encode(name);
+    const { data } = entry;
+    const crc = await blobCrc32(data);
+    const { time, date } = dosDateTime(entry.lastModified ?? new Date());
+
+    if (offset + 30 + nameBytes.length + data.size > ZIP_MAX_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB. Download the files individually instead.');
+    }
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // Local file header signature
+    lv.setUint16(4, 20, true);         // Version needed to extract
+    lv.setUint16(6, 0x0800, true);     // Flags: UTF-8 names
+    lv.setUint16(8, 0, true);          // Method: stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.size, true);
+    lv.setUint32(22, data.size, true);
+    lv.setUint16(26, nameBytes.length, true);
+    lv.setUint16(28, 0, true);         // Extra field length
+    local.set(nameBytes, 30);
+
+    const header = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, 0x02014b50, true); // Central directory header signature
+    cv.setUint16(4, 20, true);         // Version made by
+    cv.setUint16(6, 20, true);         // Version needed to extract
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.size, true);
+    cv.setUint32(24, data.size, true);
+    cv.setUint16(28, nameBytes.length, true);
+    // Extra, comment, disk number, internal/external attributes stay 0.
+    cv.setUint32(42, offset, true);    // Offset of the local header
+    header.set(nameBytes, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.size;
+  }
+
+  const centralSize = central.reduce((total, header) => total + header.length, 0);
+  if (offset + centralSize + 22 > ZIP_MAX_SIZE || entries.length > 0xffff) {
+    throw new Error('ZIP archive would exceed 4 GB. Download the files individually instead.');
+  }
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // End of central directory signature
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
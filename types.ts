@@ -4,8 +4,27 @@ export interface VideoSettings {
   contrast: number;   // Percentage, e.g., 100 is normal. Range 0-200.
   saturation: number; // Percentage, e.g., 100 is normal. Range 0-200.
   hueRotate: number;  // Degrees, 0 is normal. Range -180 to 180.
+  // 3D LUT from a .cube file, applied to the source colours before the adjustments above.
+  lut: ColorLut | null;
+  lutIntensity: number; // Percentage of the graded colour mixed over the original. Range 0-100.
+  lutInterpolation: LutInterpolation;
+  // White balance as a colour matrix, after the LUT and before brightness.
+  temperature: number; // Negative is cooler (bluer), positive warmer. 0 is neutral. Range -100 to 100.
+  tint: number;        // Negative is greener, positive more magenta. 0 is neutral. Range -100 to 100.
+  // Levels and tone curves, after the adjustments above and before blur. Levels
+  // work on 0-255 values, then the master curve and each channel's own curve.
+  levelsInputBlack: number;  // Input that maps to the output black point. Range 0-254.
+  levelsInputWhite: number;  // Input that maps to the output white point. Range 1-255.
+  levelsGamma: number;       // Midtone gamma between the input points, 1 = linear. Range 0.1-5.
+  levelsOutputBlack: number; // Range 0-255.
+  levelsOutputWhite: number; // Range 0-255.
+  toneCurves: ToneCurves;
 
   // Stylistic filters
+  // Unsharp mask, after the colour stages and before blur.
+  sharpenAmount: number;    // Percentage of the detail (image minus its blur) added back, 0 is none. Range 0-300.
+  sharpenRadius: number;    // Pixels, the gaussian sigma of the blurred copy. Range 0.5-5.
+  sharpenThreshold: number; // Smallest per-channel difference (0-255 levels) that gets sharpened. Range 0-255.
   blur: number;       // Pixels of gaussian blur, 0 is none. Range 0-10.
   sepia: number;      // Percentage of sepia tone, 0 is none. Range 0-100.
   grayscale: number;  // Percentage of grayscale, 0 is none. Range 0-100.
@@ -13,25 +32,186 @@ export interface VideoSettings {
 
   // Playback
   playbackSpeed: number; // Multiplier, e.g., 1.0 is normal. Range 0.5-2.0.
+  // Source ranges with their own speed; playbackSpeed applies everywhere else.
+  speedRanges: SpeedRange[];
+  speedRampSeconds: number; // Output seconds to ramp between speeds at each range boundary. 0 = instant. Range 0-5.
+  playbackDirection: PlaybackDirection; // Offline (WebCodecs) export only for anything but 'forward'.
 
   // Audio
   volume: number;       // Percentage, e.g., 100 is normal audio level. Range 0-100.
   audioPreservesPitch: boolean; // True to preserve audio pitch when changing speed.
+  pitchSemitones: number; // Pitch shift on top of any speed change, in semitones. Range -12 to 12.
   audioFadeInSeconds: number;  // Seconds of audio fade-in at start. Range 0-10.
   audioFadeOutSeconds: number; // Seconds of audio fade-out at end. Range 0-10.
 
+  // Equalizer, in dB per band (0 = flat). The 3-band EQ uses low, mid and high only.
+  eqBandCount: EqBandCount;
+  eqLowGain: number;     // Low shelf. Range -12 to 12.
+  eqLowMidGain: number;  // 5-band only. Range -12 to 12.
+  eqMidGain: number;     // Range -12 to 12.
+  eqHighMidGain: number; // 5-band only. Range -12 to 12.
+  eqHighGain: number;    // High shelf. Range -12 to 12.
+  lowCutHz: number;  // High-pass cutoff in Hz, removes rumble. 0 = off. Range 0-500.
+  highCutHz: number; // Low-pass cutoff in Hz, removes hiss. 0 = off. Range 0-20000.
+
+  // Dynamics. The compressor follows the EQ; the limiter is the last stage of the mix.
+  compressorEnabled: boolean;
+  compressorThresholdDb: number; // Level where compression starts, in dBFS. Range -60 to 0.
+  compressorRatio: number;       // Input:output ratio above the threshold. Range 1-20.
+  compressorAttackMs: number;    // Range 0-1000.
+  compressorReleaseMs: number;   // Range 0-1000.
+  compressorMakeupDb: number;    // Gain after compression. Range 0-24.
+  limiterEnabled: boolean;       // Brickwall limiter: nothing leaves the mix above limiterCeilingDb.
+  limiterCeilingDb: number;      // Range -12 to 0.
+
+  // Loudness normalization (ITU-R BS.1770), applied to the finished mix at export.
+  normalizeLoudness: boolean; // True to bring the export to targetLufs.
+  targetLufs: number;         // Integrated loudness target in LUFS, e.g. -14 for most streaming platforms. Range -30 to -5.
+  truePeakCeilingDb: number;  // Limiter ceiling in dBTP. Range -6 to 0.
+
+  // Background music, mixed under the edit's own sound at export. The music
+  // file itself is attached per session and isn't part of the settings.
+  musicVolume: number;                 // Percentage of the music file's own level. Range 0-100.
+  musicLoop: boolean;                  // True to repeat the (trimmed) music until the export ends.
+  musicTrimStartSeconds: number | null; // Seconds into the music file; null = from its start
+  musicTrimEndSeconds: number | null;   // null = to its end
+  musicDucking: boolean;       // True to lower the music while the source audio is above the threshold.
+  duckingThresholdDb: number;  // Source level in dBFS that counts as speech. Range -60 to 0.
+  duckingAmountDb: number;     // How far the music drops while ducked. Range 0-30.
+
   // Geometry / overlays
   flipHorizontal: boolean; // True to flip video horizontally.
+  flipVertical: boolean;   // True to flip video vertically.
+  rotation: VideoRotation; // Clockwise rotation in degrees, applied before cropping. 90/270 swap width and height.
   enableRotatingLines: boolean; // True to add rotating lines effect.
-  enablePixelNoise: boolean; // True to add subtle pixel noise.
+  // Film grain, with a new pattern every frame.
+  grainAmount: number;            // Percentage of the full grain strength, 0 is none. Range 0-100.
+  grainSize: number;              // Pixels across one grain clump. Range 1-5.
+  grainColor: boolean;            // True for separate grain per channel, false for monochrome.
+  grainLuminanceResponse: number; // Percentage by which grain fades towards black and white. Range 0-100.
+  seed: number; // Seeds the film grain so identical settings render identical frames. Range 0-2147483647.
+
+  // Output geometry. The crop is taken from the source first, then fitted into
+  // the target resolution according to fitMode.
+  outputWidth: number;  // Target width in pixels. 0 = derive from the crop (or from outputHeight). Range 0-7680.
+  outputHeight: number; // Target height in pixels. 0 = derive from the crop (or from outputWidth). Range 0-4320.
+  cropLeft: number;     // Crop rectangle, as a percentage of the source frame. Range 0-99.
+  cropTop: number;      // Range 0-99.
+  cropWidth: number;    // Range 1-100. cropLeft + cropWidth is capped at 100.
+  cropHeight: number;   // Range 1-100. cropTop + cropHeight is capped at 100.
+  fitMode: OutputFitMode; // How the crop fits a target with a different aspect ratio.
 
   // Trimming (in seconds, relative to source video). Use null/undefined to mean "from start" / "to end".
   trimStartSeconds: number | null;
   trimEndSeconds: number | null;
+  // Cut list: source ranges rendered back to back, in list order. When
+  // non-empty it replaces the trim window above.
+  keepRanges: KeepRange[];
+  spliceFadeSeconds: number; // Audio fade out/in around each cut between keep-ranges. Range 0-2.
 
   // Output
-  outputFormat: 'webm-vp8' | 'webm-vp9' | 'mp4-h264';
+  outputFormat: VideoOutputFormat | AudioOutputFormat; // Audio formats export the sound alone, without rendering frames.
   outputBitrateKbps: number; // Video bitrate in kbps. 0 = auto/browser default.
+  outputFrameRate: OutputFrameRate; // 'source' keeps the detected source frame rate.
+
+  // Animation. A setting with keyframes follows them over source time and its
+  // static value above is ignored.
+  keyframes: SettingKeyframes;
+}
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+// A 3D colour lookup table imported from an Adobe/Resolve .cube file.
+export interface ColorLut {
+  name: string; // The file's TITLE, else its file name
+  size: number; // Grid points per axis. Range 2-65.
+  domainMin: [number, number, number]; // Input colour mapped onto the first grid point
+  domainMax: [number, number, number]; // ...and onto the last
+  // size³ RGB outputs in .cube order (red fastest) as little-endian uint16
+  // (65535 = 1.0), base64-encoded so settings and presets stay compact JSON.
+  data: string;
+}
+
+// A tone curve control point; both coordinates are 0-1 (input -> output).
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue';
+
+// Control points per channel, sorted by x, from x = 0 to x = 1. The curve is
+// the monotone cubic spline through them (see services/toneCurves.ts).
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+// Numeric settings that can be keyframed.
+export type AnimatableSettingKey =
+  | 'brightness' | 'contrast' | 'saturation' | 'hueRotate'
+  | 'blur' | 'sepia' | 'grayscale' | 'vignette' | 'volume';
+
+// 'ease' eases in and out of the segment towards the next keyframe.
+export type KeyframeEasing = 'linear' | 'ease';
+
+export interface SettingKeyframe {
+  time: number;  // Seconds into the source video
+  value: number; // Same units and range as the setting itself
+  easing: KeyframeEasing; // Interpolation from this keyframe to the next one
+}
+
+// Keyframes per setting, sorted by time.
+export type SettingKeyframes = Partial<Record<AnimatableSettingKey, SettingKeyframe[]>>;
+
+export interface KeepRange {
+  start: number; // Seconds into the source video
+  end: number;
+}
+
+export type EqBandCount = 3 | 5;
+export type EqGainKey = 'eqLowGain' | 'eqLowMidGain' | 'eqMidGain' | 'eqHighMidGain' | 'eqHighGain';
+
+// 'pingpong' plays the edit forward and then backward, doubling its length.
+export type PlaybackDirection = 'forward' | 'reverse' | 'pingpong';
+
+export interface SpeedRange {
+  start: number; // Seconds into the source video
+  end: number;
+  speed: number; // Multiplier. Range 0.25-4.0.
+}
+
+export type VideoOutputFormat = 'webm-vp8' | 'webm-vp9' | 'mp4-h264';
+export type AudioOutputFormat = 'webm-opus' | 'ogg-opus' | 'wav';
+
+export type VideoRotation = 0 | 90 | 180 | 270;
+
+export type OutputFrameRate = 'source' | 24 | 25 | 30 | 50 | 60;
+
+// letterbox: fit inside with black bars; fill: crop further to cover the
+// target; blur: fit inside over a blurred, cover-scaled copy of the frame.
+export type OutputFitMode = 'letterbox' | 'fill' | 'blur';
+
+// One input file of a multi-clip export. Clips are concatenated in list order
+// onto a shared canvas; with more than one clip, each clip's own trim replaces
+// the trim window and cut list in VideoSettings.
+export interface SourceClip {
+  id: string;
+  file: File;
+  trimStartSeconds: number | null; // Seconds into this clip; null = from its start
+  trimEndSeconds: number | null;   // null = to its end
+}
+
+export type BatchJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// One file of the batch queue, rendered on its own with the queue's settings.
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  progress: number; // 0-100
+  error: string | null;
+  settings: VideoSettings | null; // Settings profile the job was started with
+  result: Blob | null;
+  resultUrl: string | null;
+  outputName: string | null; // Download file name of the result
 }
 
 export interface CustomPreset {
@@ -0,0 +1,83 @@
+/// <reference lib="webworker" />
+import { VideoSettings } from '../types';
+import { CompositorRequest, CompositorResponse, compositorProgress } from '../services/frameCompositor';
+import { FrameRenderer } from '../services/frameRenderer';
+import { createCanvasFrameRenderer } from '../services/glFrameRenderer';
+
+/**
+ * Dedicated worker that composites export frames off the main thread. It owns
+ * the export OffscreenCanvas, draws every VideoFrame it receives and reports
+ * progress back to useVideoProcessor. See services/frameCompositor.ts.
+ */
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+
+let canvas: OffscreenCanvas | null = null;
+let settings: VideoSettings | null = null;
+let renderer: FrameRenderer | null = null;
+let outputDuration = 0;
+let lastProgress = -1;
+
+function respond(message: CompositorResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer);
+}
+
+function draw(frame: VideoFrame, outputTime: number, sourceTime: number): void {
+  try {
+    if (!renderer) {
+      throw new Error('Compositor used before init');
+    }
+    renderer.drawFrame(frame, outputTime, sourceTime);
+  } finally {
+    frame.close();
+  }
+
+  const progress = compositorProgress(outputTime, outputDuration);
+  if (progress !== lastProgress) {
+    lastProgress = progress;
+    respond({ type: 'progress', progress });
+  }
+}
+
+scope.onmessage = (event: MessageEvent<CompositorRequest>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case 'init': {
+        canvas = message.canvas;
+        settings = message.settings;
+        outputDuration = message.outputDuration;
+        renderer = createCanvasFrameRenderer(canvas, settings, message.geometry);
+        respond({ type: 'ready' });
+        break;
+      }
+      case 'geometry': {
+        if (!canvas || !settings) {
+          throw new Error('Compositor used before init');
+        }
+        renderer?.dispose();
+        renderer = createCanvasFrameRenderer(canvas, settings, message.geometry);
+        break;
+      }
+      case 'draw':
+        draw(message.frame, message.outputTime, message.sourceTime);
+        break;
+      case 'render': {
+        draw(message.frame, message.outputTime, message.sourceTime);
+        if (!canvas) {
+          throw new Error('Compositor used before init');
+        }
+        const rendered = new VideoFrame(canvas, {
+          timestamp: Math.round(message.outputTime * 1e6),
+          duration: Math.round(message.duration * 1e6),
+        });
+        respond({ type: 'rendered', id: message.id, frame: rendered }, [rendered]);
+        break;
+      }
+    }
+  } catch (e: any) {
+    respond({ type: 'error', message: e?.message || String(e) });
+  }
+};
+
+respond({ type: 'loaded' });
@@ -0,0 +1,171 @@
+import {
+  PITCH_SHIFTER_CROSSFADE_SECONDS,
+  PITCH_SHIFTER_LATENCY_SECONDS,
+  PITCH_SHIFTER_PROCESSOR_NAME,
+  PITCH_SHIFTER_RATIO_RANGE,
+  PITCH_SHIFTER_SEARCH_SECONDS,
+} from '../constants';
+
+/**
+ * AudioWorklet processor that changes pitch without changing duration, by
+ * the `pitchRatio` parameter (2 = an octave up). Used by the preview and
+ * the offline export graphs; see services/pitchShift.ts.
+ *
+ * Input is written into a delay line and read back `pitchRatio` samples per
+ * output sample. Reading faster than writing eats into the delay, reading
+ * slower adds to it; once the delay leaves its range, the read position jumps
+ * back (or ahead) by about one crossfade plus the search window, to the
+ * offset whose waveform best matches what was about to play (WSOLA), and the
+ * two read positions are crossfaded. The output lags the input by
+ * PITCH_SHIFTER_LATENCY_SECONDS on average.
+ */
+
+// The AudioWorkletGlobalScope isn't part of TypeScript's DOM typings.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+const CORRELATION_STEP = 2; // Search offsets and compared samples are both decimated by this much
+
+// 4-point cubic Hermite interpolation of the ring buffer at fractional `position`.
+function readAt(data: Float32Array, mask: number, position: number): number {
+  const index = Math.floor(position);
+  const t = position - index;
+  const xm1 = data[(index - 1) & mask];
+  const x0 = data[index & mask];
+  const x1 = data[(index + 1) & mask];
+  const x2 = data[(index + 2) & mask];
+  const c1 = 0.5 * (x1 - xm1);
+  const c2 = xm1 - 2.5 * x0 + 2 * x1 - 0.5 * x2;
+  const c3 = 0.5 * (x2 - xm1) + 1.5 * (x0 - x1);
+  return ((c3 * t + c2) * t + c1) * t + x0;
+}
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{
+      name: 'pitchRatio',
+      defaultValue: 1,
+      minValue: PITCH_SHIFTER_RATIO_RANGE.min,
+      maxValue: PITCH_SHIFTER_RATIO_RANGE.max,
+      automationRate: 'a-rate',
+    }];
+  }
+
+  private readonly crossfade = Math.max(1, Math.round(PITCH_SHIFTER_CROSSFADE_SECONDS * sampleRate));
+  private readonly search = Math.max(1, Math.round(PITCH_SHIFTER_SEARCH_SECONDS * sampleRate));
+  private readonly delay = Math.round(PITCH_SHIFTER_LATENCY_SECONDS * sampleRate);
+  // A few samples short of crossfade + 2 * search, leaving the interpolator
+  // room at the edges of the delay range.
+  private readonly jump = Math.max(1, this.crossfade + 2 * this.search - 8);
+  private readonly mask: number;
+  private history: Float32Array[] = []; // One ring buffer per channel
+  private mono: Float32Array;           // Channel average, for the waveform search
+  private written: number;              // Absolute index of the next sample written
+  private position: number;             // Absolute read position
+  private fadingFrom = 0;               // Read position being faded out
+  private fadeLength = 0;
+  private fadeLeft = 0;                 // Output samples left in the crossfade
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    let capacity = 1;
+    while (capacity < 2 * (this.delay + this.jump + this.search + this.crossfade)) capacity *= 2;
+    this.mask = capacity - 1;
+    this.mono = new Float32Array(capacity);
+    // Start a full buffer in, so read positions never go negative.
+    this.written = capacity;
+    this.position = capacity - this.delay;
+  }
+
+  // Offset near `target` whose next `span` samples best match those at `current`.
+  private bestMatch(current: number, target: number, span: number): number {
+    const from = Math.floor(current);
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = -this.search; offset <= this.search; offset += CORRELATION_STEP) {
+      const start = Math.floor(target) + offset;
+      let dot = 0;
+      let energy = 0;
+      for (let i = 0; i < span; i += CORRELATION_STEP) {
+        const candidate = this.mono[(start + i) & this.mask];
+        dot += this.mono[(from + i) & this.mask] * candidate;
+        energy += candidate * candidate;
+      }
+      const score = energy > 0 ? dot / Math.sqrt(energy) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    return target + bestOffset;
+  }
+
+  private jumpIfNeeded(ratio: number): void {
+    const lag = this.written - this.position;
+    let target: number;
+    if (ratio > 1 && lag <= this.delay - this.jump / 2) {
+      target = this.position - this.jump;
+    } else if (ratio < 1 && lag >= this.delay + this.jump / 2) {
+      target = this.position + this.jump;
+    } else {
+      return;
+    }
+    // Faster reading covers the crossfade sooner, so shorten it to match.
+    this.fadeLength = ratio > 1 ? Math.max(1, Math.round(this.crossfade / ratio)) : this.crossfade;
+    this.fadeLeft = this.fadeLength;
+    this.fadingFrom = this.position;
+    this.position = this.bestMatch(this.position, target, Math.round(this.fadeLength * ratio));
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0] ?? [];
+    const output = outputs[0];
+    const channels = output.length;
+    if (channels === 0) return true;
+    if (this.history.length !== channels) {
+      this.history = Array.from({ length: channels }, () => new Float32Array(this.mask + 1));
+    }
+    const ratios = parameters.pitchRatio;
+
+    for (let i = 0; i < output[0].length; i++) {
+      const slot = this.written & this.mask;
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        // A disconnected input has no channels at all.
+        const value = (input[channel] ?? input[0])?.[i] ?? 0;
+        this.history[channel][slot] = value;
+        sum += value;
+      }
+      this.mono[slot] = sum / channels;
+      this.written++;
+
+      const ratio = Math.min(
+        PITCH_SHIFTER_RATIO_RANGE.max,
+        Math.max(PITCH_SHIFTER_RATIO_RANGE.min, ratios.length > 1 ? ratios[i] : ratios[0])
+      );
+      if (this.fadeLeft === 0) this.jumpIfNeeded(ratio);
+
+      const fade = this.fadeLeft > 0 ? 0.5 - 0.5 * Math.cos((Math.PI * (this.fadeLength - this.fadeLeft)) / this.fadeLength) : 1;
+      for (let channel = 0; channel < channels; channel++) {
+        const history = this.history[channel];
+        let value = readAt(history, this.mask, this.position);
+        if (fade < 1) value = value * fade + readAt(history, this.mask, this.fadingFrom) * (1 - fade);
+        output[channel][i] = value;
+      }
+      this.position += ratio;
+      if (this.fadeLeft > 0) {
+        this.fadingFrom += ratio;
+        this.fadeLeft--;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(PITCH_SHIFTER_PROCESSOR_NAME, PitchShifterProcessor);